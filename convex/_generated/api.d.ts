@@ -8,12 +8,33 @@
  * @module
  */
 
+import type * as crons from "../crons.js";
+import type * as eventSub from "../eventSub.js";
+import type * as exports from "../exports.js";
+import type * as helpers_chatMessages from "../helpers/chatMessages.js";
 import type * as helpers_workspace from "../helpers/workspace.js";
+import type * as history from "../history.js";
 import type * as ingestion_appendChatMessage from "../ingestion/appendChatMessage.js";
+import type * as ingestion_appendChatMessages from "../ingestion/appendChatMessages.js";
+import type * as ingestion_authorHashes from "../ingestion/authorHashes.js";
+import type * as ingestion_emoteCatalog from "../ingestion/emoteCatalog.js";
 import type * as ingestion_endSession from "../ingestion/endSession.js";
 import type * as ingestion_getActiveChannels from "../ingestion/getActiveChannels.js";
+import type * as ingestion_heartbeat from "../ingestion/heartbeat.js";
+import type * as ingestion_listening from "../ingestion/listening.js";
+import type * as ingestion_moderateMessages from "../ingestion/moderateMessages.js";
+import type * as ingestion_recordAnnotation from "../ingestion/recordAnnotation.js";
+import type * as ingestion_recordChannelEvent from "../ingestion/recordChannelEvent.js";
+import type * as ingestion_recordSpike from "../ingestion/recordSpike.js";
+import type * as ingestion_recordWindow from "../ingestion/recordWindow.js";
 import type * as ingestion_startSession from "../ingestion/startSession.js";
 import type * as ingestion_tokens from "../ingestion/tokens.js";
+import type * as integrations from "../integrations.js";
+import type * as latency from "../latency.js";
+import type * as listening from "../listening.js";
+import type * as liveFeed from "../liveFeed.js";
+import type * as retention from "../retention.js";
+import type * as shareTokens from "../shareTokens.js";
 import type * as users from "../users.js";
 
 import type {
@@ -31,12 +52,33 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  crons: typeof crons;
+  eventSub: typeof eventSub;
+  exports: typeof exports;
+  "helpers/chatMessages": typeof helpers_chatMessages;
   "helpers/workspace": typeof helpers_workspace;
+  history: typeof history;
   "ingestion/appendChatMessage": typeof ingestion_appendChatMessage;
+  "ingestion/appendChatMessages": typeof ingestion_appendChatMessages;
+  "ingestion/authorHashes": typeof ingestion_authorHashes;
+  "ingestion/emoteCatalog": typeof ingestion_emoteCatalog;
   "ingestion/endSession": typeof ingestion_endSession;
   "ingestion/getActiveChannels": typeof ingestion_getActiveChannels;
+  "ingestion/heartbeat": typeof ingestion_heartbeat;
+  "ingestion/listening": typeof ingestion_listening;
+  "ingestion/moderateMessages": typeof ingestion_moderateMessages;
+  "ingestion/recordAnnotation": typeof ingestion_recordAnnotation;
+  "ingestion/recordChannelEvent": typeof ingestion_recordChannelEvent;
+  "ingestion/recordSpike": typeof ingestion_recordSpike;
+  "ingestion/recordWindow": typeof ingestion_recordWindow;
   "ingestion/startSession": typeof ingestion_startSession;
   "ingestion/tokens": typeof ingestion_tokens;
+  integrations: typeof integrations;
+  latency: typeof latency;
+  listening: typeof listening;
+  liveFeed: typeof liveFeed;
+  retention: typeof retention;
+  shareTokens: typeof shareTokens;
   users: typeof users;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
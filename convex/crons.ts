@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.daily(
+  "purge expired raw chat messages",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.retention.purgeExpiredMessages
+);
+
+export default crons;
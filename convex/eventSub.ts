@@ -0,0 +1,169 @@
+import { mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+// Matches the route's ten-minute replay window with some slack for clock skew.
+const MESSAGE_TTL_MS = 15 * 60 * 1000;
+const TRIM_BATCH_SIZE = 50;
+
+function assertEventSubSecret(secret: string) {
+  const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+  if (!expectedSecret) {
+    throw new Error("WORKSPACE_CONNECT_SECRET must be set to accept EventSub notifications");
+  }
+  if (secret !== expectedSecret) {
+    throw new Error("Unauthorized EventSub request");
+  }
+}
+
+/**
+ * Twitch retries notifications it thinks were not delivered, so each message
+ * id is processed at most once. Returns false for a duplicate.
+ */
+async function claimMessage(ctx: MutationCtx, messageId: string, subscriptionType: string) {
+  const now = Date.now();
+  const seen = await ctx.db
+    .query("eventSubMessages")
+    .withIndex("by_message", (q) => q.eq("messageId", messageId))
+    .first();
+  if (seen) {
+    return false;
+  }
+  await ctx.db.insert("eventSubMessages", {
+    messageId,
+    subscriptionType,
+    expiresAt: now + MESSAGE_TTL_MS,
+  });
+
+  const expired = await ctx.db
+    .query("eventSubMessages")
+    .withIndex("by_expiry", (q) => q.lt("expiresAt", now))
+    .take(TRIM_BATCH_SIZE);
+  for (const message of expired) {
+    await ctx.db.delete(message._id);
+  }
+  return true;
+}
+
+// The Twitch user id survives renames; the login is only a fallback for
+// integrations linked before the id was recorded.
+async function findIntegration(ctx: MutationCtx, channelId: string, channelLogin: string | null) {
+  const byId = await ctx.db
+    .query("integrations")
+    .withIndex("by_channel_id", (q) => q.eq("channelId", channelId))
+    .first();
+  if (byId || !channelLogin) {
+    return byId;
+  }
+  return ctx.db
+    .query("integrations")
+    .withIndex("by_channel_login", (q) => q.eq("channelLogin", channelLogin))
+    .first();
+}
+
+export const streamOnline = mutation({
+  args: {
+    messageId: v.string(),
+    broadcasterUserId: v.string(),
+    broadcasterUserLogin: v.string(),
+    broadcasterUserName: v.string(),
+    startedAt: v.number(),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertEventSubSecret(args.secret);
+    if (!(await claimMessage(ctx, args.messageId, "stream.online"))) {
+      return { handled: false, reason: "duplicate" as const };
+    }
+
+    const integration = await findIntegration(ctx, args.broadcasterUserId, args.broadcasterUserLogin);
+    if (!integration) {
+      return { handled: false, reason: "unknown_channel" as const };
+    }
+    if (integration.status !== "connected") {
+      // Revoked by Twitch or disconnected from Settings; a webhook that was
+      // still subscribed must not start ingesting the channel again.
+      return { handled: false, reason: integration.status };
+    }
+
+    const session = (await ctx.runMutation(internal.ingestion.startSession.startSession, {
+      channelId: integration.channelId,
+      channelLogin: integration.channelLogin,
+      channelDisplayName: args.broadcasterUserName,
+      streamKey: `${integration.channelLogin}-${args.startedAt}`,
+      startedAt: args.startedAt,
+    })) as { streamId: Id<"streams"> };
+
+    return { handled: true, streamId: session.streamId };
+  },
+});
+
+export const streamOffline = mutation({
+  args: {
+    messageId: v.string(),
+    broadcasterUserId: v.string(),
+    broadcasterUserLogin: v.string(),
+    endedAt: v.number(),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertEventSubSecret(args.secret);
+    if (!(await claimMessage(ctx, args.messageId, "stream.offline"))) {
+      return { handled: false, reason: "duplicate" as const };
+    }
+
+    const integration = await findIntegration(ctx, args.broadcasterUserId, args.broadcasterUserLogin);
+    if (!integration) {
+      return { handled: false, reason: "unknown_channel" as const };
+    }
+
+    const liveStream = await ctx.db
+      .query("streams")
+      .withIndex("by_integration", (q) => q.eq("integrationId", integration._id))
+      .filter((q) => q.eq(q.field("status"), "live"))
+      .first();
+    if (!liveStream) {
+      return { handled: false, reason: "no_live_stream" as const };
+    }
+
+    await ctx.runMutation(internal.ingestion.endSession.endSession, {
+      streamId: liveStream._id,
+      endedAt: args.endedAt,
+    });
+
+    return { handled: true, streamId: liveStream._id };
+  },
+});
+
+export const authorizationRevoked = mutation({
+  args: {
+    messageId: v.string(),
+    userId: v.string(),
+    userLogin: v.optional(v.string()),
+    revokedAt: v.number(),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertEventSubSecret(args.secret);
+    if (!(await claimMessage(ctx, args.messageId, "user.authorization.revoke"))) {
+      return { handled: false, reason: "duplicate" as const };
+    }
+
+    const integration = await findIntegration(ctx, args.userId, args.userLogin ?? null);
+    if (!integration) {
+      return { handled: false, reason: "unknown_channel" as const };
+    }
+
+    if (integration.status !== "revoked") {
+      await ctx.db.patch(integration._id, {
+        status: "revoked",
+        disconnectedAt: args.revokedAt,
+        updatedAt: args.revokedAt,
+      });
+    }
+
+    return { handled: true, integrationId: integration._id };
+  },
+});
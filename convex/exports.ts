@@ -0,0 +1,213 @@
+import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { buildCsv, buildJson, type ExportContent } from "./helpers/exportFormats";
+import { findWorkspaceStream } from "./helpers/workspace";
+
+const EXPORT_LIST_LIMIT = 10;
+
+type ExportSource = ExportContent & {
+  export: Doc<"exports">;
+};
+
+function toExportRow(row: Doc<"exports">) {
+  return {
+    id: row._id,
+    type: row.type,
+    status: row.status,
+    downloadUrl: row.status === "ready" ? row.downloadUrl ?? null : null,
+    fileName: row.fileName ?? null,
+    error: row.error ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function assertWorkspaceSecret(secret: string | undefined) {
+  const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+  if (expectedSecret && secret !== expectedSecret) {
+    throw new Error("Unauthorized export request");
+  }
+}
+
+export const requestExport = mutation({
+  args: {
+    clerkUserId: v.string(),
+    streamId: v.string(),
+    type: v.union(v.literal("csv"), v.literal("json")),
+    secret: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    assertWorkspaceSecret(args.secret);
+
+    const stream = await findWorkspaceStream(ctx, args.clerkUserId, args.streamId);
+    if (!stream) {
+      throw new Error("Stream not found");
+    }
+
+    const inFlight = await ctx.db
+      .query("exports")
+      .withIndex("by_stream", (q) => q.eq("streamId", stream._id))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("type"), args.type),
+          q.or(q.eq(q.field("status"), "queued"), q.eq(q.field("status"), "processing"))
+        )
+      )
+      .first();
+
+    if (inFlight) {
+      return { exportId: inFlight._id, reused: true };
+    }
+
+    const now = Date.now();
+    const exportId = await ctx.db.insert("exports", {
+      streamId: stream._id,
+      workspaceId: stream.workspaceId,
+      type: args.type,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.exports.generateExport, { exportId });
+
+    return { exportId, reused: false };
+  },
+});
+
+export const listStreamExports = query({
+  args: {
+    clerkUserId: v.string(),
+    streamId: v.string(),
+    secret: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    assertWorkspaceSecret(args.secret);
+
+    const stream = await findWorkspaceStream(ctx, args.clerkUserId, args.streamId);
+    if (!stream) {
+      return [];
+    }
+
+    const rows = await ctx.db
+      .query("exports")
+      .withIndex("by_stream", (q) => q.eq("streamId", stream._id))
+      .order("desc")
+      .take(EXPORT_LIST_LIMIT);
+
+    return rows.map(toExportRow);
+  },
+});
+
+export const loadExportSource = internalQuery({
+  args: {
+    exportId: v.id("exports"),
+  },
+  handler: async (ctx, args): Promise<ExportSource | null> => {
+    const row = await ctx.db.get(args.exportId);
+    if (!row) {
+      return null;
+    }
+
+    const stream = await ctx.db.get(row.streamId);
+    if (!stream) {
+      return null;
+    }
+
+    const windows = await ctx.db
+      .query("windows")
+      .withIndex("by_stream_window", (q) => q.eq("streamId", stream._id))
+      .collect();
+
+    const spikes = await ctx.db
+      .query("spikeEvents")
+      .withIndex("by_stream_time", (q) => q.eq("streamId", stream._id))
+      .collect();
+
+    return { export: row, stream, windows, spikes };
+  },
+});
+
+export const updateExportStatus = internalMutation({
+  args: {
+    exportId: v.id("exports"),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("processing"),
+      v.literal("ready"),
+      v.literal("failed")
+    ),
+    storageId: v.optional(v.id("_storage")),
+    downloadUrl: v.optional(v.string()),
+    fileName: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.exportId);
+    if (!row) {
+      throw new Error("Export not found");
+    }
+
+    const { exportId, ...updates } = args;
+    await ctx.db.patch(exportId, { ...updates, updatedAt: Date.now() });
+  },
+});
+
+export const generateExport = internalAction({
+  args: {
+    exportId: v.id("exports"),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const source: ExportSource | null = await ctx.runQuery(internal.exports.loadExportSource, {
+      exportId: args.exportId,
+    });
+
+    if (!source) {
+      return;
+    }
+
+    if (source.export.status !== "queued") {
+      // Scheduled twice or already fulfilled; leave the existing result alone.
+      return;
+    }
+
+    await ctx.runMutation(internal.exports.updateExportStatus, {
+      exportId: args.exportId,
+      status: "processing",
+    });
+
+    try {
+      const isCsv = source.export.type === "csv";
+      const body = isCsv ? buildCsv(source) : buildJson(source);
+      const startedDate = new Date(source.stream.startedAt).toISOString().slice(0, 10);
+      const fileName = `streamerpulse-${startedDate}-${source.stream._id}.${source.export.type}`;
+
+      const storageId = await ctx.storage.store(
+        new Blob([body], {
+          type: isCsv ? "text/csv;charset=utf-8" : "application/json;charset=utf-8",
+        })
+      );
+      const downloadUrl = await ctx.storage.getUrl(storageId);
+      if (!downloadUrl) {
+        throw new Error("Stored export is missing a download URL");
+      }
+
+      await ctx.runMutation(internal.exports.updateExportStatus, {
+        exportId: args.exportId,
+        status: "ready",
+        storageId,
+        downloadUrl,
+        fileName,
+      });
+    } catch (error) {
+      console.error("[exports] Failed to generate export", args.exportId, error);
+      await ctx.runMutation(internal.exports.updateExportStatus, {
+        exportId: args.exportId,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+});
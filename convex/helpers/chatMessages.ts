@@ -0,0 +1,42 @@
+import { v } from "convex/values";
+
+// Shared by the single and batched append mutations so both accept the same shape.
+export const chatMessageFields = {
+  messageId: v.string(),
+  platform: v.optional(v.union(v.literal("twitch"), v.literal("youtube"))),
+  authorDisplay: v.optional(v.string()),
+  authorHash: v.string(),
+  authorHashVersion: v.optional(v.number()),
+  text: v.string(),
+  emotes: v.array(
+    v.object({
+      code: v.string(),
+      id: v.optional(v.union(v.string(), v.null())),
+      imageUrl: v.optional(v.union(v.string(), v.null())),
+      count: v.number(),
+    })
+  ),
+  postedAt: v.number(),
+  tone: v.optional(
+    v.union(
+      v.literal("hype"),
+      v.literal("supportive"),
+      v.literal("humor"),
+      v.literal("informational"),
+      v.literal("question"),
+      v.literal("constructive"),
+      v.literal("critical"),
+      v.literal("sarcastic"),
+      v.literal("toxic"),
+      v.literal("spam"),
+      v.literal("system"),
+      v.literal("unknown")
+    )
+  ),
+  toneConfidence: v.optional(v.number()),
+  toneRationale: v.optional(v.string()),
+  moderatedAt: v.optional(v.number()),
+  moderationReason: v.optional(
+    v.union(v.literal("deleted"), v.literal("timeout"), v.literal("ban"))
+  ),
+};
@@ -0,0 +1,122 @@
+import type { Doc } from "../_generated/dataModel";
+
+export type ExportContent = {
+  stream: Doc<"streams">;
+  windows: Doc<"windows">[];
+  spikes: Doc<"spikeEvents">[];
+};
+
+const CSV_COLUMNS = [
+  "window_start",
+  "window_end",
+  "window_start_ms",
+  "window_end_ms",
+  "message_count",
+  "unique_chatters",
+  "sentiment_score",
+  "sentiment_label",
+  "sentiment_status",
+  "top_tokens",
+  "top_emotes",
+  "spike",
+  "spike_strength",
+] as const;
+
+function toIso(timestamp: number | undefined) {
+  return typeof timestamp === "number" ? new Date(timestamp).toISOString() : null;
+}
+
+function escapeCsvCell(value: string | number | boolean | null | undefined) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = String(value);
+  // Chat tokens end up in spreadsheets; keep anything that looks like a formula inert.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+// Spikes start at the message that tripped them, not on a window boundary, so a
+// window is flagged by any spike overlapping it and reports the strongest one.
+function strongestSpikeIn(window: Doc<"windows">, spikes: Doc<"spikeEvents">[]) {
+  let strongest: Doc<"spikeEvents"> | null = null;
+  for (const spike of spikes) {
+    if (spike.windowStart < window.windowEnd && spike.windowEnd > window.windowStart) {
+      if (!strongest || spike.strength > strongest.strength) {
+        strongest = spike;
+      }
+    }
+  }
+  return strongest;
+}
+
+export function buildCsv({ windows, spikes }: ExportContent) {
+  const rows = windows.map((window) => {
+    const spike = strongestSpikeIn(window, spikes);
+    return [
+      toIso(window.windowStart),
+      toIso(window.windowEnd),
+      window.windowStart,
+      window.windowEnd,
+      window.messageCount,
+      window.uniqueChatters,
+      window.sentimentScore ?? null,
+      window.sentimentLabel ?? null,
+      window.sentimentStatus ?? null,
+      window.topTokens.map((item) => `${item.token}:${item.count}`).join(" "),
+      window.topEmotes.map((item) => `${item.emote}:${item.count}`).join(" "),
+      spike ? "true" : "false",
+      spike ? Number(spike.strength.toFixed(3)) : null,
+    ]
+      .map(escapeCsvCell)
+      .join(",");
+  });
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function buildJson({ stream, windows, spikes }: ExportContent, generatedAt = Date.now()) {
+  return JSON.stringify(
+    {
+      stream: {
+        id: stream._id,
+        platform: stream.platform,
+        platformStreamId: stream.streamId,
+        title: stream.title ?? null,
+        status: stream.status,
+        startedAt: toIso(stream.startedAt),
+        endedAt: toIso(stream.endedAt),
+        messageCount: stream.messageCount ?? 0,
+        uniqueChatters: stream.uniqueChatters ?? 0,
+        spikeCount: stream.spikeCount ?? 0,
+        averageSentiment: stream.averageSentiment ?? null,
+      },
+      windows: windows.map((window) => ({
+        windowStart: toIso(window.windowStart),
+        windowEnd: toIso(window.windowEnd),
+        messageCount: window.messageCount,
+        uniqueChatters: window.uniqueChatters,
+        sentimentScore: window.sentimentScore ?? null,
+        sentimentLabel: window.sentimentLabel ?? null,
+        sentimentStatus: window.sentimentStatus ?? null,
+        topTokens: window.topTokens,
+        topEmotes: window.topEmotes,
+      })),
+      spikes: spikes.map((spike) => ({
+        windowStart: toIso(spike.windowStart),
+        windowEnd: toIso(spike.windowEnd),
+        reason: spike.reason,
+        strength: spike.strength,
+        messageCount: spike.messageCount,
+      })),
+      generatedAt: new Date(generatedAt).toISOString(),
+    },
+    null,
+    2
+  );
+}
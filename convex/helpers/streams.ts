@@ -0,0 +1,13 @@
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * When the stream has ended, the time it ended; otherwise null. EventSub can
+ * end a stream while the worker still has it open, so ingestion writes keep
+ * what happened before this and drop anything from it on.
+ */
+export function streamEndedAt(stream: Doc<"streams">) {
+  if (stream.status !== "completed") {
+    return null;
+  }
+  return stream.endedAt ?? stream.updatedAt;
+}
@@ -1,4 +1,4 @@
-import type { MutationCtx } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
 import type { Doc, Id } from "../_generated/dataModel";
 
 type EnsureWorkspaceArgs = {
@@ -6,6 +6,8 @@ type EnsureWorkspaceArgs = {
   channelId: string;
   channelLogin: string;
   channelDisplayName: string;
+  /** Revive an integration the owner disconnected or Twitch revoked. */
+  reconnect?: boolean;
   now?: number;
 };
 
@@ -14,17 +16,24 @@ type EnsureWorkspaceResult = {
   workspaceId: Id<"workspaces">;
   integrationId: Id<"integrations">;
   userClerkId: string;
+  connected: boolean;
 };
 
 const FALLBACK_PREFIX = "twitch:";
 
-function generateSalt(bytes = 16) {
-  const alphabet = "abcdef0123456789";
-  let result = "";
-  for (let i = 0; i < bytes * 2; i += 1) {
-    result += alphabet[Math.floor(Math.random() * alphabet.length)];
-  }
-  return result;
+export const DEFAULT_RAW_MESSAGE_CAP = 200_000;
+export const MIN_RAW_MESSAGE_CAP = 1_000;
+export const MAX_RAW_MESSAGE_CAP = 1_000_000;
+
+export function resolveRawMessageCap(workspace: Doc<"workspaces">) {
+  return workspace.rawMessageCap ?? DEFAULT_RAW_MESSAGE_CAP;
+}
+
+export function generateSalt(bytes = 16) {
+  // The salt keys author HMACs, so it has to come from a CSPRNG.
+  const buffer = new Uint8Array(bytes);
+  crypto.getRandomValues(buffer);
+  return Array.from(buffer, (byte) => byte.toString(16).padStart(2, "0")).join("");
 }
 
 async function findUserByClerkId(ctx: MutationCtx, clerkUserId: string) {
@@ -48,6 +57,60 @@ async function findUserByClerkId(ctx: MutationCtx, clerkUserId: string) {
   return primary;
 }
 
+export async function findWorkspaceForClerkUser(ctx: QueryCtx, clerkUserId: string) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_user", (q) => q.eq("clerkUserId", clerkUserId))
+    .unique();
+
+  if (!user) {
+    return null;
+  }
+
+  const workspace = await ctx.db
+    .query("workspaces")
+    .withIndex("by_owner", (q) => q.eq("ownerId", user._id))
+    .first();
+
+  return workspace ?? null;
+}
+
+/**
+ * The workspace's own integration for a channel. Two workspaces can hold the
+ * same login, so a lookup by login alone may land on someone else's row.
+ */
+export async function findWorkspaceIntegration(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  channelLogin: string
+) {
+  return ctx.db
+    .query("integrations")
+    .withIndex("by_workspace_channel_login", (q) =>
+      q.eq("workspaceId", workspaceId).eq("channelLogin", channelLogin)
+    )
+    .first();
+}
+
+export async function findWorkspaceStream(ctx: QueryCtx, clerkUserId: string, streamIdRaw: string) {
+  const workspace = await findWorkspaceForClerkUser(ctx, clerkUserId);
+  if (!workspace) {
+    return null;
+  }
+
+  const streamId = ctx.db.normalizeId("streams", streamIdRaw);
+  if (!streamId) {
+    return null;
+  }
+
+  const stream = await ctx.db.get(streamId);
+  if (!stream || stream.workspaceId !== workspace._id) {
+    return null;
+  }
+
+  return stream;
+}
+
 export async function ensureWorkspace(
   ctx: MutationCtx,
   args: EnsureWorkspaceArgs
@@ -116,6 +179,7 @@ export async function ensureWorkspace(
       name: `${args.channelDisplayName}'s Workspace`,
       region: "eu",
       retentionDays: 90,
+      rawMessageCap: DEFAULT_RAW_MESSAGE_CAP,
       ingestionStatus: "idle",
       createdAt: now,
       updatedAt: now,
@@ -174,7 +238,10 @@ export async function ensureWorkspace(
     if (integration.channelDisplayName !== args.channelDisplayName) {
       updates.channelDisplayName = args.channelDisplayName;
     }
-    if (integration.status !== "connected") {
+    // Every app page ensures the workspace, so only an explicit reconnect may
+    // undo a disconnect or a Twitch revoke; otherwise the next render would
+    // quietly revive it.
+    if (integration.status !== "connected" && args.reconnect) {
       updates.status = "connected";
       updates.connectedAt = now;
       updates.disconnectedAt = undefined;
@@ -195,5 +262,6 @@ export async function ensureWorkspace(
     workspaceId: workspace._id,
     integrationId: integration._id,
     userClerkId: user.clerkUserId,
+    connected: integration.status === "connected",
   };
 }
@@ -0,0 +1,217 @@
+import { query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { findWorkspaceForClerkUser, findWorkspaceStream } from "./helpers/workspace";
+
+type StreamSortKey = "startedAt" | "messageCount" | "averageSentiment" | "spikeCount";
+
+type DateRange = {
+  startedAfter?: number;
+  startedBefore?: number;
+};
+
+function streamsInOrder(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  sortBy: StreamSortKey,
+  range: DateRange
+) {
+  const { startedAfter, startedBefore } = range;
+
+  if (sortBy === "startedAt") {
+    return ctx.db.query("streams").withIndex("by_workspace_started", (q) => {
+      const scoped = q.eq("workspaceId", workspaceId);
+      if (startedAfter !== undefined && startedBefore !== undefined) {
+        return scoped.gte("startedAt", startedAfter).lte("startedAt", startedBefore);
+      }
+      if (startedAfter !== undefined) {
+        return scoped.gte("startedAt", startedAfter);
+      }
+      if (startedBefore !== undefined) {
+        return scoped.lte("startedAt", startedBefore);
+      }
+      return scoped;
+    });
+  }
+
+  const indexed =
+    sortBy === "messageCount"
+      ? ctx.db
+          .query("streams")
+          .withIndex("by_workspace_messages", (q) => q.eq("workspaceId", workspaceId))
+      : sortBy === "averageSentiment"
+        ? ctx.db
+            .query("streams")
+            .withIndex("by_workspace_sentiment", (q) => q.eq("workspaceId", workspaceId))
+        : ctx.db
+            .query("streams")
+            .withIndex("by_workspace_spikes", (q) => q.eq("workspaceId", workspaceId));
+
+  return indexed.filter((q) =>
+    q.and(
+      startedAfter !== undefined ? q.gte(q.field("startedAt"), startedAfter) : true,
+      startedBefore !== undefined ? q.lte(q.field("startedAt"), startedBefore) : true
+    )
+  );
+}
+
+function toHistoryRow(stream: Doc<"streams">) {
+  return {
+    id: stream._id,
+    title: stream.title ?? null,
+    status: stream.status,
+    startedAt: stream.startedAt,
+    endedAt: stream.endedAt ?? null,
+    durationMs:
+      typeof stream.endedAt === "number" ? Math.max(0, stream.endedAt - stream.startedAt) : null,
+    messageCount: stream.messageCount ?? 0,
+    uniqueChatters: stream.uniqueChatters ?? 0,
+    spikeCount: stream.spikeCount ?? 0,
+    averageSentiment: stream.averageSentiment ?? null,
+  };
+}
+
+export const listStreams = query({
+  args: {
+    clerkUserId: v.string(),
+    paginationOpts: paginationOptsValidator,
+    sortBy: v.optional(
+      v.union(
+        v.literal("startedAt"),
+        v.literal("messageCount"),
+        v.literal("averageSentiment"),
+        v.literal("spikeCount")
+      )
+    ),
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+    startedAfter: v.optional(v.number()),
+    startedBefore: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+
+    if (!workspace) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const result = await streamsInOrder(ctx, workspace._id, args.sortBy ?? "startedAt", {
+      startedAfter: args.startedAfter,
+      startedBefore: args.startedBefore,
+    })
+      .order(args.order ?? "desc")
+      .paginate(args.paginationOpts);
+
+    return {
+      page: result.page.map(toHistoryRow),
+      isDone: result.isDone,
+      continueCursor: result.continueCursor,
+    };
+  },
+});
+
+export const getStreamDetail = query({
+  args: {
+    clerkUserId: v.string(),
+    streamId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const stream = await findWorkspaceStream(ctx, args.clerkUserId, args.streamId);
+    if (!stream) {
+      return null;
+    }
+
+    const windows = await ctx.db
+      .query("windows")
+      .withIndex("by_stream_window", (q) => q.eq("streamId", stream._id))
+      .collect();
+
+    const spikes = await ctx.db
+      .query("spikeEvents")
+      .withIndex("by_stream_time", (q) => q.eq("streamId", stream._id))
+      .collect();
+
+    const channelEvents = await ctx.db
+      .query("channelEvents")
+      .withIndex("by_stream_time", (q) => q.eq("streamId", stream._id))
+      .collect();
+
+    const annotations = await ctx.db
+      .query("timelineAnnotations")
+      .withIndex("by_stream_time", (q) => q.eq("streamId", stream._id))
+      .collect();
+
+    return {
+      stream: toHistoryRow(stream),
+      windows: windows.map((window) => ({
+        windowStart: window.windowStart,
+        windowEnd: window.windowEnd,
+        messageCount: window.messageCount,
+        uniqueChatters: window.uniqueChatters,
+        topTokens: window.topTokens,
+        topEmotes: window.topEmotes,
+        sentimentScore: window.sentimentScore ?? null,
+        sentimentLabel: window.sentimentLabel ?? null,
+      })),
+      spikes: spikes.map((spike) => ({
+        id: spike._id,
+        windowStart: spike.windowStart,
+        windowEnd: spike.windowEnd,
+        reason: spike.reason,
+        strength: spike.strength,
+        messageCount: spike.messageCount,
+      })),
+      channelEvents: channelEvents.map((event) => ({
+        id: event._id,
+        kind: event.kind,
+        occurredAt: event.occurredAt,
+        actorDisplay: event.actorDisplay ?? null,
+        amount: event.amount ?? null,
+        tier: event.tier ?? null,
+        viewerCount: event.viewerCount ?? null,
+        recipientDisplay: event.recipientDisplay ?? null,
+      })),
+      annotations: annotations.map((annotation) => ({
+        id: annotation._id,
+        kind: annotation.kind,
+        enabled: annotation.enabled,
+        value: annotation.value ?? null,
+        occurredAt: annotation.occurredAt,
+      })),
+    };
+  },
+});
+
+export const getChatExcerpts = query({
+  args: {
+    clerkUserId: v.string(),
+    streamId: v.string(),
+    from: v.number(),
+    to: v.number(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const stream = await findWorkspaceStream(ctx, args.clerkUserId, args.streamId);
+    if (!stream) {
+      return [];
+    }
+
+    const limit = Math.min(Math.max(args.limit ?? 25, 1), 100);
+    const messages = await ctx.db
+      .query("chatMessages")
+      .withIndex("by_stream_time", (q) =>
+        q.eq("streamId", stream._id).gte("postedAt", args.from).lt("postedAt", args.to)
+      )
+      .take(limit);
+
+    return messages.map((message) => ({
+      id: message._id,
+      author: message.authorDisplay ?? "anon",
+      text: message.text,
+      postedAt: message.postedAt,
+      emotes: message.emotes,
+      moderated: message.moderatedAt !== undefined,
+    }));
+  },
+});
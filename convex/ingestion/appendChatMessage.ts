@@ -1,40 +1,13 @@
 import { internalMutation } from "../_generated/server";
 import { v } from "convex/values";
+import { chatMessageFields } from "../helpers/chatMessages";
+import { streamEndedAt } from "../helpers/streams";
+import { resolveRawMessageCap } from "../helpers/workspace";
 
 export const appendChatMessage = internalMutation({
   args: {
     streamId: v.union(v.id("streams"), v.string()),
-    messageId: v.string(),
-    authorDisplay: v.optional(v.string()),
-    authorHash: v.string(),
-    text: v.string(),
-    emotes: v.array(
-      v.object({
-        code: v.string(),
-        id: v.optional(v.union(v.string(), v.null())),
-        imageUrl: v.optional(v.union(v.string(), v.null())),
-        count: v.number(),
-      })
-    ),
-    postedAt: v.number(),
-    tone: v.optional(
-      v.union(
-        v.literal("hype"),
-        v.literal("supportive"),
-        v.literal("humor"),
-        v.literal("informational"),
-        v.literal("question"),
-        v.literal("constructive"),
-        v.literal("critical"),
-        v.literal("sarcastic"),
-        v.literal("toxic"),
-        v.literal("spam"),
-        v.literal("system"),
-        v.literal("unknown")
-      )
-    ),
-    toneConfidence: v.optional(v.number()),
-    toneRationale: v.optional(v.string()),
+    ...chatMessageFields,
   },
   handler: async (ctx, args) => {
     const streamId =
@@ -51,6 +24,32 @@ export const appendChatMessage = internalMutation({
       throw new Error("Stream not found");
     }
 
+    const now = Date.now();
+
+    const endedAt = streamEndedAt(stream);
+    if (endedAt !== null && args.postedAt >= endedAt) {
+      return { inserted: false, capped: false, cappedAt: null, ended: true };
+    }
+
+    if (stream.rawCapped) {
+      // Past the soft cap only aggregates are kept; the worker keeps streaming
+      // live metrics, we just stop storing raw text. There is no row left to
+      // dedupe a retry against, so recordWindow carries the total from here.
+      return { inserted: false, capped: true, cappedAt: stream.rawCappedAt ?? null };
+    }
+
+    const workspace = await ctx.db.get(stream.workspaceId);
+    const rawMessageCap = workspace ? resolveRawMessageCap(workspace) : null;
+
+    if (rawMessageCap !== null && (stream.messageCount ?? 0) >= rawMessageCap) {
+      await ctx.db.patch(streamId, {
+        rawCapped: true,
+        rawCappedAt: now,
+        updatedAt: now,
+      });
+      return { inserted: false, capped: true, cappedAt: now };
+    }
+
     const existing = await ctx.db
       .query("chatMessages")
       .withIndex("by_stream_message", (q) =>
@@ -59,27 +58,31 @@ export const appendChatMessage = internalMutation({
       .unique();
 
     if (existing) {
-      return { inserted: false };
+      return { inserted: false, capped: false, cappedAt: null };
     }
 
     await ctx.db.insert("chatMessages", {
       streamId,
       messageId: args.messageId,
+      platform: args.platform,
       authorDisplay: args.authorDisplay,
       authorHash: args.authorHash,
+      authorHashVersion: args.authorHashVersion,
       text: args.text,
       emotes: args.emotes,
       postedAt: args.postedAt,
       tone: args.tone,
       toneConfidence: args.toneConfidence,
       toneRationale: args.toneRationale,
+      moderatedAt: args.moderatedAt,
+      moderationReason: args.moderationReason,
     });
 
     await ctx.db.patch(streamId, {
       messageCount: (stream.messageCount ?? 0) + 1,
-      updatedAt: Date.now(),
+      updatedAt: now,
     });
 
-    return { inserted: true };
+    return { inserted: true, capped: false, cappedAt: null };
   },
 });
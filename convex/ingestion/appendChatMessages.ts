@@ -0,0 +1,104 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+import { chatMessageFields } from "../helpers/chatMessages";
+import { streamEndedAt } from "../helpers/streams";
+import { resolveRawMessageCap } from "../helpers/workspace";
+
+// Keeps a single mutation well inside Convex's per-transaction write limits.
+const MAX_BATCH_SIZE = 200;
+
+export const appendChatMessages = internalMutation({
+  args: {
+    streamId: v.union(v.id("streams"), v.string()),
+    messages: v.array(v.object(chatMessageFields)),
+  },
+  handler: async (ctx, args) => {
+    const streamId =
+      typeof args.streamId === "string"
+        ? ctx.db.normalizeId("streams", args.streamId)
+        : args.streamId;
+
+    if (!streamId) {
+      throw new Error("Invalid streamId provided");
+    }
+
+    if (args.messages.length > MAX_BATCH_SIZE) {
+      throw new Error(`At most ${MAX_BATCH_SIZE} messages can be appended per call`);
+    }
+
+    const stream = await ctx.db.get(streamId);
+    if (!stream) {
+      throw new Error("Stream not found");
+    }
+
+    const now = Date.now();
+    const endedAt = streamEndedAt(stream);
+    const startingCount = stream.messageCount ?? 0;
+    let messageCount = startingCount;
+    let inserted = 0;
+    let duplicates = 0;
+    const wasCapped = stream.rawCapped ?? false;
+    let rawCapped = wasCapped;
+    let cappedAt = stream.rawCappedAt ?? null;
+
+    const workspace = rawCapped ? null : await ctx.db.get(stream.workspaceId);
+    const rawMessageCap = workspace ? resolveRawMessageCap(workspace) : null;
+    const seenInBatch = new Set<string>();
+
+    for (const message of args.messages) {
+      if (seenInBatch.has(message.messageId)) {
+        duplicates += 1;
+        continue;
+      }
+      seenInBatch.add(message.messageId);
+
+      if (endedAt !== null && message.postedAt >= endedAt) {
+        continue;
+      }
+
+      if (!rawCapped && rawMessageCap !== null && messageCount >= rawMessageCap) {
+        rawCapped = true;
+        cappedAt = now;
+      }
+
+      if (rawCapped) {
+        // Same as the single-message path: past the cap nothing is stored and
+        // recordWindow carries the total, so a retried batch can't inflate it.
+        continue;
+      }
+
+      const existing = await ctx.db
+        .query("chatMessages")
+        .withIndex("by_stream_message", (q) =>
+          q.eq("streamId", streamId).eq("messageId", message.messageId)
+        )
+        .unique();
+
+      if (existing) {
+        duplicates += 1;
+        continue;
+      }
+
+      await ctx.db.insert("chatMessages", { streamId, ...message });
+      inserted += 1;
+      messageCount += 1;
+    }
+
+    if (messageCount !== startingCount || rawCapped !== wasCapped) {
+      await ctx.db.patch(streamId, {
+        messageCount,
+        ...(rawCapped && !wasCapped ? { rawCapped: true, rawCappedAt: cappedAt ?? now } : {}),
+        updatedAt: now,
+      });
+    }
+
+    return {
+      inserted,
+      duplicates,
+      capped: rawCapped,
+      cappedAt: rawCapped ? cappedAt : null,
+      ended: endedAt !== null,
+      endedAt,
+    };
+  },
+});
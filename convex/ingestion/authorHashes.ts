@@ -0,0 +1,77 @@
+import { internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { v } from "convex/values";
+
+// Version 1 hashes were a bare SHA-256 of the Twitch user id. Version 2 keys
+// that digest with the workspace salt, so stored v1 values can be re-keyed
+// without ever having the raw user id.
+export const AUTHOR_HASH_VERSION = 2;
+
+const REKEY_BATCH_SIZE = 200;
+
+const encoder = new TextEncoder();
+
+async function hmacHex(salt: string, value: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(salt),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(value));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+export const rekeyStreamAuthorHashes = internalMutation({
+  args: {
+    streamId: v.id("streams"),
+    cursor: v.optional(v.union(v.string(), v.null())),
+    rekeyed: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ rekeyed: number; done: boolean }> => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream) {
+      throw new Error("Stream not found");
+    }
+
+    const secret = await ctx.db
+      .query("workspaceSecrets")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", stream.workspaceId))
+      .first();
+    if (!secret) {
+      throw new Error("Workspace salt not found");
+    }
+
+    const page = await ctx.db
+      .query("chatMessages")
+      .withIndex("by_stream_time", (q) => q.eq("streamId", args.streamId))
+      .paginate({ numItems: REKEY_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let rekeyed = args.rekeyed ?? 0;
+    for (const message of page.page) {
+      if ((message.authorHashVersion ?? 1) >= AUTHOR_HASH_VERSION) {
+        continue;
+      }
+      await ctx.db.patch(message._id, {
+        authorHash: await hmacHex(secret.twitchSalt, message.authorHash),
+        authorHashVersion: AUTHOR_HASH_VERSION,
+      });
+      rekeyed += 1;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.ingestion.authorHashes.rekeyStreamAuthorHashes, {
+        streamId: args.streamId,
+        cursor: page.continueCursor,
+        rekeyed,
+      });
+      return { rekeyed, done: false };
+    }
+
+    console.log("[authorHashes] Re-keyed author hashes", { streamId: args.streamId, rekeyed });
+    return { rekeyed, done: true };
+  },
+});
@@ -0,0 +1,77 @@
+import { internalMutation, internalQuery } from "../_generated/server";
+import { v } from "convex/values";
+
+const providerValidator = v.union(
+  v.literal("twitch"),
+  v.literal("7tv"),
+  v.literal("bttv"),
+  v.literal("ffz")
+);
+
+// Keeps the snapshot comfortably under Convex's 1 MiB document limit.
+const MAX_CATALOG_EMOTES = 3000;
+
+export const getEmoteCatalog = internalQuery({
+  args: {
+    channelId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const catalog = await ctx.db
+      .query("emoteCatalogs")
+      .withIndex("by_channel", (q) => q.eq("channelId", args.channelId))
+      .unique();
+
+    if (!catalog) {
+      return null;
+    }
+
+    return {
+      channelId: catalog.channelId,
+      emotes: catalog.emotes,
+      providers: catalog.providers,
+      fetchedAt: catalog.fetchedAt,
+    };
+  },
+});
+
+export const saveEmoteCatalog = internalMutation({
+  args: {
+    channelId: v.string(),
+    emotes: v.array(
+      v.object({
+        code: v.string(),
+        id: v.string(),
+        imageUrl: v.string(),
+        provider: providerValidator,
+      })
+    ),
+    providers: v.array(
+      v.object({
+        provider: providerValidator,
+        count: v.number(),
+        error: v.optional(v.string()),
+      })
+    ),
+    fetchedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    if (args.emotes.length > MAX_CATALOG_EMOTES) {
+      throw new Error(`Emote catalogs are limited to ${MAX_CATALOG_EMOTES} emotes`);
+    }
+
+    const existing = await ctx.db
+      .query("emoteCatalogs")
+      .withIndex("by_channel", (q) => q.eq("channelId", args.channelId))
+      .unique();
+
+    const payload = { ...args, updatedAt: Date.now() };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, payload);
+      return { catalogId: existing._id, count: args.emotes.length };
+    }
+
+    const catalogId = await ctx.db.insert("emoteCatalogs", payload);
+    return { catalogId, count: args.emotes.length };
+  },
+});
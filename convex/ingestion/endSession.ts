@@ -12,20 +12,33 @@ export const endSession = internalMutation({
       throw new Error("Stream not found");
     }
 
+    // EventSub and the worker can both end the same stream; keep the first end time.
+    if (stream.status === "completed") {
+      return { completed: true };
+    }
+
+    const windows = await ctx.db
+      .query("windows")
+      .withIndex("by_stream_window", (q) => q.eq("streamId", args.streamId))
+      .collect();
+
+    let sentimentWeight = 0;
+    let sentimentTotal = 0;
+    for (const window of windows) {
+      if (typeof window.sentimentScore === "number") {
+        sentimentWeight += window.messageCount;
+        sentimentTotal += window.sentimentScore * window.messageCount;
+      }
+    }
+
     await ctx.db.patch(args.streamId, {
       status: "completed",
       endedAt: args.endedAt,
+      averageSentiment:
+        sentimentWeight > 0 ? sentimentTotal / sentimentWeight : stream.averageSentiment,
       updatedAt: args.endedAt,
     });
 
-    const integration = await ctx.db.get(stream.integrationId);
-    if (integration) {
-      await ctx.db.patch(integration._id, {
-        status: "connected",
-        updatedAt: args.endedAt,
-      });
-    }
-
     const workspace = await ctx.db.get(stream.workspaceId);
     if (workspace) {
       await ctx.db.patch(workspace._id, {
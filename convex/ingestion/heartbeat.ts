@@ -0,0 +1,39 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+
+export const recordHeartbeat = internalMutation({
+  args: {
+    workspaceId: v.optional(v.id("workspaces")),
+    channelLogin: v.string(),
+    connectionState: v.union(
+      v.literal("connecting"),
+      v.literal("connected"),
+      v.literal("disconnected"),
+      v.literal("stopped")
+    ),
+    authMode: v.optional(v.union(v.literal("oauth"), v.literal("anonymous"))),
+    lastChatAt: v.optional(v.number()),
+    buildVersion: v.string(),
+    workerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const channelLogin = args.channelLogin.toLowerCase();
+    const existing = await ctx.db
+      .query("ingestionHeartbeats")
+      .withIndex("by_workspace_channel_login", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("channelLogin", channelLogin)
+      )
+      .unique();
+
+    // Server time, so a worker with a skewed clock is not mistaken for a dead one.
+    const payload = { ...args, channelLogin, beatAt: Date.now() };
+
+    if (existing) {
+      await ctx.db.replace(existing._id, payload);
+      return { heartbeatId: existing._id };
+    }
+
+    const heartbeatId = await ctx.db.insert("ingestionHeartbeats", payload);
+    return { heartbeatId };
+  },
+});
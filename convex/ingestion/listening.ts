@@ -0,0 +1,24 @@
+import { internalQuery } from "../_generated/server";
+
+/**
+ * Latest Start/Stop Listening request, connect or disconnect across all
+ * integrations. The worker polls this every few seconds and only reloads its
+ * channel list when it moves, so each one lands well before the next full
+ * refresh. Every term is the newest row of its own index, so a poll reads
+ * three documents however many channels there are.
+ */
+export const getListeningRevision = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const [listening, connected, disconnected] = await Promise.all([
+      ctx.db.query("integrations").withIndex("by_listening_requested_at").order("desc").first(),
+      ctx.db.query("integrations").withIndex("by_connected_at").order("desc").first(),
+      ctx.db.query("integrations").withIndex("by_disconnected_at").order("desc").first(),
+    ]);
+    return Math.max(
+      listening?.listeningRequestedAt ?? 0,
+      connected?.connectedAt ?? 0,
+      disconnected?.disconnectedAt ?? 0
+    );
+  },
+});
@@ -0,0 +1,56 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+
+// A timeout or ban hides the user's recent lines in Twitch chat; matching that
+// window keeps us from rewriting hours of history for a late timeout.
+const AUTHOR_LOOKBACK_MS = 10 * 60 * 1000;
+const MAX_MODERATED_PER_CALL = 200;
+
+export const moderateMessages = internalMutation({
+  args: {
+    streamId: v.id("streams"),
+    reason: v.union(v.literal("deleted"), v.literal("timeout"), v.literal("ban")),
+    moderatedAt: v.number(),
+    messageId: v.optional(v.string()),
+    authorHash: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { messageId, authorHash } = args;
+    let messages;
+    if (messageId) {
+      messages = await ctx.db
+        .query("chatMessages")
+        .withIndex("by_stream_message", (q) =>
+          q.eq("streamId", args.streamId).eq("messageId", messageId)
+        )
+        .take(1);
+    } else if (authorHash) {
+      messages = await ctx.db
+        .query("chatMessages")
+        .withIndex("by_stream_author", (q) =>
+          q
+            .eq("streamId", args.streamId)
+            .eq("authorHash", authorHash)
+            .gte("postedAt", args.moderatedAt - AUTHOR_LOOKBACK_MS)
+            .lte("postedAt", args.moderatedAt)
+        )
+        .take(MAX_MODERATED_PER_CALL);
+    } else {
+      throw new Error("messageId or authorHash is required");
+    }
+
+    let moderated = 0;
+    for (const message of messages) {
+      if (message.moderatedAt !== undefined) {
+        continue;
+      }
+      await ctx.db.patch(message._id, {
+        moderatedAt: args.moderatedAt,
+        moderationReason: args.reason,
+      });
+      moderated += 1;
+    }
+
+    return { moderated };
+  },
+});
@@ -0,0 +1,32 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+
+export const recordAnnotation = internalMutation({
+  args: {
+    streamId: v.id("streams"),
+    kind: v.union(
+      v.literal("slow-mode"),
+      v.literal("emote-only"),
+      v.literal("followers-only"),
+      v.literal("subs-only"),
+      v.literal("unique-chat"),
+      v.literal("chat-cleared")
+    ),
+    enabled: v.boolean(),
+    value: v.optional(v.number()),
+    occurredAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream) {
+      throw new Error("Stream not found");
+    }
+
+    await ctx.db.insert("timelineAnnotations", {
+      ...args,
+      createdAt: Date.now(),
+    });
+
+    return { inserted: true };
+  },
+});
@@ -0,0 +1,53 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+
+export const recordChannelEvent = internalMutation({
+  args: {
+    streamId: v.id("streams"),
+    kind: v.union(
+      v.literal("sub"),
+      v.literal("resub"),
+      v.literal("subgift"),
+      v.literal("submysterygift"),
+      v.literal("raid"),
+      v.literal("cheer"),
+      v.literal("announcement")
+    ),
+    messageId: v.string(),
+    occurredAt: v.number(),
+    actorDisplay: v.optional(v.string()),
+    gifterHash: v.optional(v.string()),
+    amount: v.optional(v.number()),
+    tier: v.optional(
+      v.union(v.literal("prime"), v.literal("1000"), v.literal("2000"), v.literal("3000"))
+    ),
+    viewerCount: v.optional(v.number()),
+    recipientDisplay: v.optional(v.string()),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream) {
+      throw new Error("Stream not found");
+    }
+
+    // IRC can redeliver a notice after a reconnect; the tmi message id is stable.
+    const existing = await ctx.db
+      .query("channelEvents")
+      .withIndex("by_stream_message", (q) =>
+        q.eq("streamId", args.streamId).eq("messageId", args.messageId)
+      )
+      .first();
+
+    if (existing) {
+      return { inserted: false };
+    }
+
+    await ctx.db.insert("channelEvents", {
+      ...args,
+      createdAt: Date.now(),
+    });
+
+    return { inserted: true };
+  },
+});
@@ -0,0 +1,49 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+
+export const recordSpike = internalMutation({
+  args: {
+    streamId: v.id("streams"),
+    windowStart: v.number(),
+    windowEnd: v.number(),
+    reason: v.string(),
+    strength: v.number(),
+    messageCount: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream) {
+      throw new Error("Stream not found");
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("spikeEvents")
+      .withIndex("by_stream_time", (q) =>
+        q.eq("streamId", args.streamId).eq("windowStart", args.windowStart)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        windowEnd: Math.max(existing.windowEnd, args.windowEnd),
+        reason: args.reason,
+        strength: Math.max(existing.strength, args.strength),
+        messageCount: Math.max(existing.messageCount, args.messageCount),
+      });
+      return { inserted: false };
+    }
+
+    await ctx.db.insert("spikeEvents", {
+      ...args,
+      createdAt: now,
+    });
+
+    await ctx.db.patch(args.streamId, {
+      spikeCount: (stream.spikeCount ?? 0) + 1,
+      updatedAt: now,
+    });
+
+    return { inserted: true };
+  },
+});
@@ -0,0 +1,94 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+import { streamEndedAt } from "../helpers/streams";
+
+export const recordWindow = internalMutation({
+  args: {
+    streamId: v.id("streams"),
+    windowStart: v.number(),
+    windowEnd: v.number(),
+    messageCount: v.number(),
+    uniqueChatters: v.number(),
+    topTokens: v.array(
+      v.object({
+        token: v.string(),
+        count: v.number(),
+      })
+    ),
+    topEmotes: v.array(
+      v.object({
+        emote: v.string(),
+        count: v.number(),
+      })
+    ),
+    sentimentScore: v.optional(v.number()),
+    sentimentLabel: v.optional(
+      v.union(v.literal("positive"), v.literal("neutral"), v.literal("negative"))
+    ),
+    sentimentStatus: v.optional(
+      v.union(v.literal("ok"), v.literal("degraded"), v.literal("error"))
+    ),
+    streamUniqueChatters: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream) {
+      throw new Error("Stream not found");
+    }
+
+    const endedAt = streamEndedAt(stream);
+    if (endedAt !== null && args.windowStart >= endedAt) {
+      return { inserted: false, ended: true, endedAt };
+    }
+
+    const now = Date.now();
+    const { streamUniqueChatters, ...window } = args;
+
+    const existing = await ctx.db
+      .query("windows")
+      .withIndex("by_stream_window", (q) =>
+        q.eq("streamId", args.streamId).eq("windowStart", args.windowStart)
+      )
+      .first();
+
+    let inserted = false;
+    let addedMessages = 0;
+    if (!existing) {
+      await ctx.db.insert("windows", { ...window, createdAt: now });
+      inserted = true;
+      addedMessages = args.messageCount;
+    } else if (args.messageCount > existing.messageCount) {
+      // A worker that reconnected mid-window only saw part of it; keep whichever
+      // copy covers more messages instead of letting a partial replay win.
+      await ctx.db.patch(existing._id, window);
+      addedMessages = args.messageCount - existing.messageCount;
+    }
+
+    const streamUpdates: Record<string, unknown> = {};
+    if (addedMessages > 0) {
+      const windowedMessageCount = (stream.windowedMessageCount ?? 0) + addedMessages;
+      streamUpdates.windowedMessageCount = windowedMessageCount;
+      // Once raw chat is capped appends stop counting; windows are keyed by
+      // time, so a retried window can't inflate the total the way a retried
+      // append would.
+      if (stream.rawCapped && windowedMessageCount > (stream.messageCount ?? 0)) {
+        streamUpdates.messageCount = windowedMessageCount;
+      }
+    }
+    if ((stream.lastWindowAt ?? 0) < args.windowEnd) {
+      streamUpdates.lastWindowAt = args.windowEnd;
+    }
+    if (
+      typeof streamUniqueChatters === "number" &&
+      streamUniqueChatters > (stream.uniqueChatters ?? 0)
+    ) {
+      streamUpdates.uniqueChatters = streamUniqueChatters;
+    }
+    if (Object.keys(streamUpdates).length > 0) {
+      streamUpdates.updatedAt = now;
+      await ctx.db.patch(args.streamId, streamUpdates);
+    }
+
+    return { inserted, ended: endedAt !== null, endedAt };
+  },
+});
@@ -9,6 +9,8 @@ export const startSession = internalMutation({
     channelLogin: v.string(),
     channelDisplayName: v.string(),
     streamKey: v.optional(v.string()),
+    /** When the platform says the stream went live; EventSub can deliver it late. */
+    startedAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     try {
@@ -74,11 +76,8 @@ export const startSession = internalMutation({
         integrationUpdates.channelDisplayName = args.channelDisplayName;
       }
 
-      if (integration.status !== "connected") {
-        integrationUpdates.status = "connected";
-        integrationUpdates.connectedAt = now;
-        integrationUpdates.disconnectedAt = undefined;
-      }
+      // A disconnected or revoked channel stays that way: only the user
+      // reconnecting from /dashboard/connect brings it back.
 
       if (Object.keys(integrationUpdates).length > 0) {
         integrationUpdates.updatedAt = now;
@@ -107,7 +106,7 @@ export const startSession = internalMutation({
           platform: "twitch",
           streamId: streamIdentifier,
           title: `${args.channelDisplayName} — Live`,
-          startedAt: now,
+          startedAt: args.startedAt ?? now,
           endedAt: undefined,
           status: "live",
           messageCount: 0,
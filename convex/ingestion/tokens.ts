@@ -8,6 +8,7 @@ import type { MutationCtx } from "../_generated/server";
 import type { Doc, Id } from "../_generated/dataModel";
 import { v } from "convex/values";
 import { internal } from "../_generated/api";
+import { generateSalt } from "../helpers/workspace";
 
 type RefreshResponse = {
   accessToken: string;
@@ -94,6 +95,30 @@ export const getTokensByIntegration = internalQuery({
   },
 });
 
+export const ensureWorkspaceSalt = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("workspaceSecrets")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+      .first();
+
+    if (existing) {
+      return existing.twitchSalt;
+    }
+
+    const twitchSalt = generateSalt();
+    await ctx.db.insert("workspaceSecrets", {
+      workspaceId: args.workspaceId,
+      twitchSalt,
+      createdAt: Date.now(),
+    });
+    return twitchSalt;
+  },
+});
+
 export const upsertTokens = internalMutation({
   args: {
     integrationId: v.id("integrations"),
@@ -193,6 +218,10 @@ export const leaseCredentials = internalAction({
       })) as Doc<"integrationTokens">;
     }
 
+    const authorSalt = (await ctx.runMutation(internal.ingestion.tokens.ensureWorkspaceSalt, {
+      workspaceId: integration.workspaceId,
+    })) as string;
+
     return {
       channelLogin: integration.channelLogin,
       channelDisplayName: integration.channelDisplayName,
@@ -201,10 +230,15 @@ export const leaseCredentials = internalAction({
       refreshToken: tokens.refreshToken ?? null,
       expiresAt: tokens.expiresAt ?? null,
       username: tokens.username ?? integration.channelLogin,
+      authorSalt,
     };
   },
 });
 
+/**
+ * Connected integrations with tokens, plus disconnected and revoked ones so the
+ * worker knows not to ingest those channels through its env fallback either.
+ */
 export const listActiveIntegrations = internalQuery({
   args: {},
   handler: async (ctx) => {
@@ -215,20 +249,20 @@ export const listActiveIntegrations = internalQuery({
       channelId: string;
       channelLogin: string;
       channelDisplayName: string;
+      status: Doc<"integrations">["status"];
+      listening: boolean;
     }>;
 
     for (const integration of integrations) {
-      if (integration.status !== "connected") {
-        continue;
-      }
-
-      const tokens = await ctx.db
-        .query("integrationTokens")
-        .withIndex("by_integration", (q) => q.eq("integrationId", integration._id))
-        .first();
+      if (integration.status === "connected") {
+        const tokens = await ctx.db
+          .query("integrationTokens")
+          .withIndex("by_integration", (q) => q.eq("integrationId", integration._id))
+          .first();
 
-      if (!tokens) {
-        continue;
+        if (!tokens) {
+          continue;
+        }
       }
 
       active.push({
@@ -237,6 +271,8 @@ export const listActiveIntegrations = internalQuery({
         channelId: integration.channelId,
         channelLogin: integration.channelLogin,
         channelDisplayName: integration.channelDisplayName,
+        status: integration.status,
+        listening: integration.listeningEnabled ?? true,
       });
     }
 
@@ -0,0 +1,69 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { findWorkspaceForClerkUser } from "./helpers/workspace";
+
+// This hands stored credentials back to the caller for revocation, so unlike
+// the other server mutations it refuses to run without a configured secret.
+function assertDisconnectSecret(secret: string) {
+  const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+  if (!expectedSecret) {
+    throw new Error("WORKSPACE_CONNECT_SECRET must be set to disconnect integrations");
+  }
+  if (secret !== expectedSecret) {
+    throw new Error("Unauthorized disconnect request");
+  }
+}
+
+/**
+ * Detaches the workspace's Twitch channel: deletes its stored tokens and marks
+ * it disconnected, which also drops it from the worker. The tokens are
+ * returned so the caller can revoke them with Twitch; we no longer keep them.
+ */
+export const disconnectIntegration = mutation({
+  args: {
+    clerkUserId: v.string(),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertDisconnectSecret(args.secret);
+
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+    if (!workspace) {
+      throw new Error("Workspace not found");
+    }
+
+    const integration = await ctx.db
+      .query("integrations")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", workspace._id))
+      .first();
+    if (!integration) {
+      throw new Error("No channel connected");
+    }
+
+    const tokenRows = await ctx.db
+      .query("integrationTokens")
+      .withIndex("by_integration", (q) => q.eq("integrationId", integration._id))
+      .collect();
+    const tokens: string[] = [];
+    for (const row of tokenRows) {
+      tokens.push(row.accessToken);
+      if (row.refreshToken) {
+        tokens.push(row.refreshToken);
+      }
+      await ctx.db.delete(row._id);
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(integration._id, {
+      status: "disconnected",
+      disconnectedAt: now,
+      updatedAt: now,
+    });
+
+    return {
+      channelLogin: integration.channelLogin,
+      disconnectedAt: now,
+      tokens,
+    };
+  },
+});
@@ -0,0 +1,125 @@
+import { mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { findWorkspaceForClerkUser, findWorkspaceIntegration } from "./helpers/workspace";
+
+// Mirrors E2E_LATENCY_TARGET_MS in src/lib/latency.ts.
+const LATENCY_TARGET_MS = 1500;
+const HISTORY_DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const HISTORY_LIMIT = 2_000;
+// A dashboard reports once a minute; anything much longer is a tab waking from sleep.
+const MAX_REPORT_SPAN_MS = 10 * 60 * 1000;
+
+async function findOwnedChannel(ctx: QueryCtx, clerkUserId: string, channelLoginRaw: string) {
+  const workspace = await findWorkspaceForClerkUser(ctx, clerkUserId);
+  if (!workspace) {
+    return null;
+  }
+  const channelLogin = channelLoginRaw.toLowerCase().trim();
+  const integration = await findWorkspaceIntegration(ctx, workspace._id, channelLogin);
+  if (!integration) {
+    return null;
+  }
+  return { workspaceId: workspace._id, channelLogin };
+}
+
+export const recordLatencyWindow = mutation({
+  args: {
+    clerkUserId: v.string(),
+    channelLogin: v.string(),
+    windowStart: v.number(),
+    windowEnd: v.number(),
+    sampleCount: v.number(),
+    p50Ms: v.number(),
+    p95Ms: v.number(),
+    maxMs: v.number(),
+    clockOffsetMs: v.number(),
+    secret: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+    if (expectedSecret && args.secret !== expectedSecret) {
+      throw new Error("Unauthorized latency report");
+    }
+
+    const channel = await findOwnedChannel(ctx, args.clerkUserId, args.channelLogin);
+    if (!channel) {
+      throw new Error("Channel not found");
+    }
+    if (
+      args.sampleCount < 1 ||
+      args.windowEnd < args.windowStart ||
+      args.windowEnd - args.windowStart > MAX_REPORT_SPAN_MS
+    ) {
+      throw new Error("Invalid latency window");
+    }
+
+    await ctx.db.insert("latencySamples", {
+      workspaceId: channel.workspaceId,
+      channelLogin: channel.channelLogin,
+      windowStart: args.windowStart,
+      windowEnd: args.windowEnd,
+      sampleCount: Math.round(args.sampleCount),
+      p50Ms: args.p50Ms,
+      p95Ms: args.p95Ms,
+      maxMs: args.maxMs,
+      clockOffsetMs: args.clockOffsetMs,
+      createdAt: Date.now(),
+    });
+    return { ok: true as const };
+  },
+});
+
+/**
+ * Reported windows for a channel plus the share whose p95 met the target.
+ * Windows are weighted by sample count so a quiet minute doesn't count as
+ * much as a raid.
+ */
+export const getLatencyHistory = query({
+  args: {
+    clerkUserId: v.string(),
+    channelLogin: v.string(),
+    since: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const channel = await findOwnedChannel(ctx, args.clerkUserId, args.channelLogin);
+    if (!channel) {
+      return null;
+    }
+
+    const since = args.since ?? Date.now() - HISTORY_DEFAULT_WINDOW_MS;
+    const windows = await ctx.db
+      .query("latencySamples")
+      .withIndex("by_workspace_channel_window", (q) =>
+        q
+          .eq("workspaceId", channel.workspaceId)
+          .eq("channelLogin", channel.channelLogin)
+          .gte("windowEnd", since)
+      )
+      .order("desc")
+      .take(HISTORY_LIMIT);
+
+    let totalSamples = 0;
+    let samplesWithinTarget = 0;
+    for (const window of windows) {
+      totalSamples += window.sampleCount;
+      if (window.p95Ms <= LATENCY_TARGET_MS) {
+        samplesWithinTarget += window.sampleCount;
+      }
+    }
+
+    return {
+      targetMs: LATENCY_TARGET_MS,
+      since,
+      withinTargetRatio: totalSamples > 0 ? samplesWithinTarget / totalSamples : null,
+      windows: windows.map((window) => ({
+        windowStart: window.windowStart,
+        windowEnd: window.windowEnd,
+        sampleCount: window.sampleCount,
+        p50Ms: window.p50Ms,
+        p95Ms: window.p95Ms,
+        maxMs: window.maxMs,
+      })),
+    };
+  },
+});
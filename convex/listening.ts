@@ -0,0 +1,40 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { findWorkspaceForClerkUser } from "./helpers/workspace";
+
+export const setListening = mutation({
+  args: {
+    clerkUserId: v.string(),
+    listening: v.boolean(),
+    secret: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+    if (expectedSecret && args.secret !== expectedSecret) {
+      throw new Error("Unauthorized listening request");
+    }
+
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+    if (!workspace) {
+      throw new Error("Workspace not found");
+    }
+
+    const integration = await ctx.db
+      .query("integrations")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", workspace._id))
+      .first();
+    if (!integration) {
+      throw new Error("No channel connected");
+    }
+
+    // The worker confirms by heartbeating after this time, so it must be server time.
+    const requestedAt = Date.now();
+    await ctx.db.patch(integration._id, {
+      listeningEnabled: args.listening,
+      listeningRequestedAt: requestedAt,
+      updatedAt: requestedAt,
+    });
+
+    return { listening: args.listening, requestedAt };
+  },
+});
@@ -0,0 +1,219 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+const HISTORY_LIMIT = 200;
+// Keep more than the replay buffer so a briefly lagging poller on another
+// app instance can still catch up without gaps.
+const RETAINED_EVENTS = 500;
+const EVENTS_PAGE_SIZE = 100;
+const TRIM_BATCH_SIZE = 50;
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+function assertBrokerSecret(secret: string) {
+  const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+  if (!expectedSecret) {
+    throw new Error("WORKSPACE_CONNECT_SECRET must be set to use the Convex live-feed broker");
+  }
+  if (secret !== expectedSecret) {
+    throw new Error("Unauthorized live feed request");
+  }
+}
+
+function messageType(message: unknown) {
+  if (message && typeof message === "object" && "type" in message) {
+    const type = (message as { type: unknown }).type;
+    return typeof type === "string" ? type : undefined;
+  }
+  return undefined;
+}
+
+export const publish = mutation({
+  args: {
+    channel: v.string(),
+    nonce: v.string(),
+    messages: v.array(v.any()),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertBrokerSecret(args.secret);
+    const now = Date.now();
+
+    const usedNonce = await ctx.db
+      .query("liveFeedNonces")
+      .withIndex("by_nonce", (q) => q.eq("nonce", args.nonce))
+      .first();
+    if (usedNonce) {
+      return { accepted: false, lastSeq: null };
+    }
+    await ctx.db.insert("liveFeedNonces", { nonce: args.nonce, expiresAt: now + NONCE_TTL_MS });
+
+    const expiredNonces = await ctx.db
+      .query("liveFeedNonces")
+      .withIndex("by_expiry", (q) => q.lt("expiresAt", now))
+      .take(TRIM_BATCH_SIZE);
+    for (const nonce of expiredNonces) {
+      await ctx.db.delete(nonce._id);
+    }
+
+    const existing = await ctx.db
+      .query("liveFeedChannels")
+      .withIndex("by_channel", (q) => q.eq("channel", args.channel))
+      .first();
+
+    let lastSeq = existing?.lastSeq ?? 0;
+    let resetSeq = existing?.resetSeq ?? 0;
+    let lastSession = existing?.lastSession;
+
+    for (const message of args.messages) {
+      lastSeq += 1;
+      const type = messageType(message);
+      await ctx.db.insert("liveFeedEvents", {
+        channel: args.channel,
+        seq: lastSeq,
+        type,
+        message,
+        timestamp: now,
+      });
+      if (type === "reset") {
+        resetSeq = lastSeq;
+      } else if (type === "session") {
+        lastSession = { seq: lastSeq, timestamp: now, message };
+      }
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { lastSeq, resetSeq, lastSession, updatedAt: now });
+    } else {
+      await ctx.db.insert("liveFeedChannels", {
+        channel: args.channel,
+        lastSeq,
+        resetSeq,
+        lastSession,
+        updatedAt: now,
+      });
+    }
+
+    const stale = await ctx.db
+      .query("liveFeedEvents")
+      .withIndex("by_channel_seq", (q) =>
+        q.eq("channel", args.channel).lte("seq", lastSeq - RETAINED_EVENTS)
+      )
+      .take(TRIM_BATCH_SIZE);
+    for (const event of stale) {
+      await ctx.db.delete(event._id);
+    }
+
+    return { accepted: true, lastSeq };
+  },
+});
+
+export const history = query({
+  args: {
+    channel: v.string(),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertBrokerSecret(args.secret);
+
+    const state = await ctx.db
+      .query("liveFeedChannels")
+      .withIndex("by_channel", (q) => q.eq("channel", args.channel))
+      .first();
+
+    if (!state) {
+      return { entries: [], lastSession: null, lastId: 0 };
+    }
+
+    const events = await ctx.db
+      .query("liveFeedEvents")
+      .withIndex("by_channel_seq", (q) =>
+        q.eq("channel", args.channel).gt("seq", state.resetSeq)
+      )
+      .order("desc")
+      .take(HISTORY_LIMIT);
+
+    return {
+      entries: events
+        .reverse()
+        .filter((event) => event.type !== undefined)
+        .map((event) => ({ id: event.seq, timestamp: event.timestamp, message: event.message })),
+      lastSession: state.lastSession
+        ? {
+            id: state.lastSession.seq,
+            timestamp: state.lastSession.timestamp,
+            message: state.lastSession.message,
+          }
+        : null,
+      lastId: state.lastSeq,
+    };
+  },
+});
+
+export const eventsSince = query({
+  args: {
+    channel: v.string(),
+    afterSeq: v.number(),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertBrokerSecret(args.secret);
+
+    const events = await ctx.db
+      .query("liveFeedEvents")
+      .withIndex("by_channel_seq", (q) =>
+        q.eq("channel", args.channel).gt("seq", args.afterSeq)
+      )
+      .take(EVENTS_PAGE_SIZE);
+
+    return events.map((event) => ({
+      id: event.seq,
+      timestamp: event.timestamp,
+      message: event.message,
+    }));
+  },
+});
+
+export const replaySince = query({
+  args: {
+    channel: v.string(),
+    afterSeq: v.number(),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertBrokerSecret(args.secret);
+
+    const state = await ctx.db
+      .query("liveFeedChannels")
+      .withIndex("by_channel", (q) => q.eq("channel", args.channel))
+      .first();
+    const lastId = state?.lastSeq ?? 0;
+
+    if (args.afterSeq === lastId) {
+      return { entries: [], complete: true, lastId };
+    }
+    if (args.afterSeq > lastId) {
+      return { entries: [], complete: false, lastId };
+    }
+
+    const events = await ctx.db
+      .query("liveFeedEvents")
+      .withIndex("by_channel_seq", (q) =>
+        q.eq("channel", args.channel).gt("seq", args.afterSeq)
+      )
+      .take(RETAINED_EVENTS);
+
+    // The oldest missed event must still be retained, otherwise there is a gap.
+    const complete = events.length > 0 && events[0].seq === args.afterSeq + 1;
+    return {
+      entries: complete
+        ? events.map((event) => ({
+            id: event.seq,
+            timestamp: event.timestamp,
+            message: event.message,
+          }))
+        : [],
+      complete,
+      lastId,
+    };
+  },
+});
@@ -0,0 +1,126 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 90;
+// Both limits keep a single purge mutation well inside Convex's per-transaction
+// read/write budgets; larger backlogs continue in follow-up mutations.
+const PURGE_BATCH_SIZE = 500;
+const PURGE_STREAM_SCAN_LIMIT = 100;
+
+export const purgeExpiredMessages = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ scheduled: number }> => {
+    const now = Date.now();
+    const workspaces = await ctx.db.query("workspaces").collect();
+
+    for (const workspace of workspaces) {
+      const retentionDays =
+        workspace.retentionDays > 0 ? workspace.retentionDays : DEFAULT_RETENTION_DAYS;
+
+      await ctx.scheduler.runAfter(0, internal.retention.purgeWorkspaceMessages, {
+        workspaceId: workspace._id,
+        cutoff: now - retentionDays * DAY_MS,
+        retentionDays,
+        startedAt: now,
+        deletedCount: 0,
+      });
+    }
+
+    return { scheduled: workspaces.length };
+  },
+});
+
+export const purgeWorkspaceMessages = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    cutoff: v.number(),
+    retentionDays: v.number(),
+    startedAt: v.number(),
+    deletedCount: v.number(),
+    resumeFromStartedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ deleted: number; done: boolean }> => {
+    // Only raw chat is purged; windows, spikes and stream totals stay as the
+    // long-term record of the session. Streams already emptied by an earlier
+    // run carry `rawPurgedAt` and fall outside this range.
+    const streams = await ctx.db
+      .query("streams")
+      .withIndex("by_workspace_purged_started", (q) => {
+        const scoped = q.eq("workspaceId", args.workspaceId).eq("rawPurgedAt", undefined);
+        return args.resumeFromStartedAt !== undefined
+          ? scoped.gte("startedAt", args.resumeFromStartedAt).lt("startedAt", args.cutoff)
+          : scoped.lt("startedAt", args.cutoff);
+      })
+      .take(PURGE_STREAM_SCAN_LIMIT);
+
+    let deleted = 0;
+    let resumeFromStartedAt: number | undefined;
+
+    for (const stream of streams) {
+      const budget = PURGE_BATCH_SIZE - deleted;
+      const expired = await ctx.db
+        .query("chatMessages")
+        .withIndex("by_stream_time", (q) =>
+          q.eq("streamId", stream._id).lt("postedAt", args.cutoff)
+        )
+        .take(budget);
+
+      for (const message of expired) {
+        await ctx.db.delete(message._id);
+      }
+      deleted += expired.length;
+
+      if (expired.length === budget) {
+        // This stream may still hold expired messages; pick up from it next time.
+        resumeFromStartedAt = stream.startedAt;
+        break;
+      }
+
+      // Nothing newer than the cutoff can still arrive for a stream whose last
+      // activity predates it, so it is empty for good.
+      const lastActivityAt = stream.endedAt ?? stream.lastWindowAt ?? stream.startedAt;
+      if (lastActivityAt < args.cutoff) {
+        await ctx.db.patch(stream._id, { rawPurgedAt: Date.now() });
+      }
+    }
+
+    if (resumeFromStartedAt === undefined && streams.length === PURGE_STREAM_SCAN_LIMIT) {
+      const last = streams[streams.length - 1];
+      // Streams sharing the last start time are re-checked, which is harmless.
+      resumeFromStartedAt = last.startedAt;
+    }
+
+    const deletedCount = args.deletedCount + deleted;
+    const canResume =
+      resumeFromStartedAt !== undefined &&
+      (deleted > 0 || resumeFromStartedAt !== args.resumeFromStartedAt);
+
+    if (canResume) {
+      await ctx.scheduler.runAfter(0, internal.retention.purgeWorkspaceMessages, {
+        ...args,
+        deletedCount,
+        resumeFromStartedAt,
+      });
+      return { deleted, done: false };
+    }
+
+    if (deletedCount === 0) {
+      return { deleted, done: true };
+    }
+
+    const completedAt = Date.now();
+    await ctx.db.insert("purgeAudits", {
+      workspaceId: args.workspaceId,
+      cutoff: args.cutoff,
+      retentionDays: args.retentionDays,
+      deletedCount,
+      startedAt: args.startedAt,
+      completedAt,
+      durationMs: completedAt - args.startedAt,
+    });
+
+    return { deleted, done: true };
+  },
+});
@@ -15,6 +15,7 @@ export default defineSchema({
     name: v.string(),
     region: v.literal("eu"),
     retentionDays: v.number(),
+    rawMessageCap: v.optional(v.number()),
     ingestionStatus: v.optional(
       v.union(v.literal("idle"), v.literal("listening"), v.literal("errored"))
     ),
@@ -30,7 +31,7 @@ export default defineSchema({
 
   integrations: defineTable({
     workspaceId: v.id("workspaces"),
-    provider: v.literal("twitch"),
+    provider: v.union(v.literal("twitch"), v.literal("youtube")),
     channelId: v.string(),
     channelLogin: v.string(),
     channelDisplayName: v.string(),
@@ -41,16 +42,24 @@ export default defineSchema({
     ),
     connectedAt: v.optional(v.number()),
     disconnectedAt: v.optional(v.number()),
+    // Start/Stop Listening from the dashboard; unset means listening.
+    listeningEnabled: v.optional(v.boolean()),
+    listeningRequestedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_workspace", ["workspaceId"])
-    .index("by_channel_login", ["channelLogin"]),
+    .index("by_workspace_channel_login", ["workspaceId", "channelLogin"])
+    .index("by_channel_login", ["channelLogin"])
+    .index("by_channel_id", ["channelId"])
+    .index("by_listening_requested_at", ["listeningRequestedAt"])
+    .index("by_connected_at", ["connectedAt"])
+    .index("by_disconnected_at", ["disconnectedAt"]),
 
   streams: defineTable({
     workspaceId: v.id("workspaces"),
     integrationId: v.id("integrations"),
-    platform: v.literal("twitch"),
+    platform: v.union(v.literal("twitch"), v.literal("youtube")),
     streamId: v.string(),
     title: v.optional(v.string()),
     startedAt: v.number(),
@@ -61,21 +70,35 @@ export default defineSchema({
       v.literal("completed")
     ),
     messageCount: v.optional(v.number()),
+    // Sum of the stream's window counts; takes over the total once raw chat is capped.
+    windowedMessageCount: v.optional(v.number()),
     uniqueChatters: v.optional(v.number()),
     spikeCount: v.optional(v.number()),
     averageSentiment: v.optional(v.number()),
     lastWindowAt: v.optional(v.number()),
+    rawCapped: v.optional(v.boolean()),
+    rawCappedAt: v.optional(v.number()),
+    // Set once retention has deleted all of the stream's raw chat, so later runs skip it.
+    rawPurgedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_workspace", ["workspaceId"])
+    .index("by_workspace_started", ["workspaceId", "startedAt"])
+    .index("by_workspace_purged_started", ["workspaceId", "rawPurgedAt", "startedAt"])
+    .index("by_workspace_messages", ["workspaceId", "messageCount"])
+    .index("by_workspace_sentiment", ["workspaceId", "averageSentiment"])
+    .index("by_workspace_spikes", ["workspaceId", "spikeCount"])
     .index("by_integration", ["integrationId"]),
 
   chatMessages: defineTable({
     streamId: v.id("streams"),
     messageId: v.string(),
+    // Absent on rows written before simulcast ingestion; those are Twitch.
+    platform: v.optional(v.union(v.literal("twitch"), v.literal("youtube"))),
     authorDisplay: v.optional(v.string()),
     authorHash: v.string(),
+    authorHashVersion: v.optional(v.number()),
     text: v.string(),
     emotes: v.array(
       v.object({
@@ -104,9 +127,14 @@ export default defineSchema({
     ),
     toneConfidence: v.optional(v.number()),
     toneRationale: v.optional(v.string()),
+    moderatedAt: v.optional(v.number()),
+    moderationReason: v.optional(
+      v.union(v.literal("deleted"), v.literal("timeout"), v.literal("ban"))
+    ),
   })
     .index("by_stream_time", ["streamId", "postedAt"])
-    .index("by_stream_message", ["streamId", "messageId"]),
+    .index("by_stream_message", ["streamId", "messageId"])
+    .index("by_stream_author", ["streamId", "authorHash", "postedAt"]),
 
   windows: defineTable({
     streamId: v.id("streams"),
@@ -146,6 +174,104 @@ export default defineSchema({
     createdAt: v.number(),
   }).index("by_stream_time", ["streamId", "windowStart"]),
 
+  channelEvents: defineTable({
+    streamId: v.id("streams"),
+    kind: v.union(
+      v.literal("sub"),
+      v.literal("resub"),
+      v.literal("subgift"),
+      v.literal("submysterygift"),
+      v.literal("raid"),
+      v.literal("cheer"),
+      v.literal("announcement")
+    ),
+    messageId: v.string(),
+    occurredAt: v.number(),
+    actorDisplay: v.optional(v.string()),
+    gifterHash: v.optional(v.string()),
+    amount: v.optional(v.number()),
+    tier: v.optional(
+      v.union(v.literal("prime"), v.literal("1000"), v.literal("2000"), v.literal("3000"))
+    ),
+    viewerCount: v.optional(v.number()),
+    recipientDisplay: v.optional(v.string()),
+    message: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_stream_time", ["streamId", "occurredAt"])
+    .index("by_stream_message", ["streamId", "messageId"]),
+
+  timelineAnnotations: defineTable({
+    streamId: v.id("streams"),
+    kind: v.union(
+      v.literal("slow-mode"),
+      v.literal("emote-only"),
+      v.literal("followers-only"),
+      v.literal("subs-only"),
+      v.literal("unique-chat"),
+      v.literal("chat-cleared")
+    ),
+    enabled: v.boolean(),
+    // Slow-mode delay in seconds or followers-only minimum age in minutes.
+    value: v.optional(v.number()),
+    occurredAt: v.number(),
+    createdAt: v.number(),
+  }).index("by_stream_time", ["streamId", "occurredAt"]),
+
+  emoteCatalogs: defineTable({
+    channelId: v.string(),
+    emotes: v.array(
+      v.object({
+        code: v.string(),
+        id: v.string(),
+        imageUrl: v.string(),
+        provider: v.union(v.literal("twitch"), v.literal("7tv"), v.literal("bttv"), v.literal("ffz")),
+      })
+    ),
+    // Per-provider outcome of the last refresh; failed providers keep their previous emotes.
+    providers: v.array(
+      v.object({
+        provider: v.union(v.literal("twitch"), v.literal("7tv"), v.literal("bttv"), v.literal("ffz")),
+        count: v.number(),
+        error: v.optional(v.string()),
+      })
+    ),
+    fetchedAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_channel", ["channelId"]),
+
+  // One row per channel, overwritten by the worker's ingest unit every few seconds.
+  ingestionHeartbeats: defineTable({
+    // Unset for the TWITCH_CHANNEL fallback, which belongs to no workspace.
+    workspaceId: v.optional(v.id("workspaces")),
+    channelLogin: v.string(),
+    connectionState: v.union(
+      v.literal("connecting"),
+      v.literal("connected"),
+      v.literal("disconnected"),
+      v.literal("stopped")
+    ),
+    authMode: v.optional(v.union(v.literal("oauth"), v.literal("anonymous"))),
+    lastChatAt: v.optional(v.number()),
+    buildVersion: v.string(),
+    workerId: v.string(),
+    beatAt: v.number(),
+  }).index("by_workspace_channel_login", ["workspaceId", "channelLogin"]),
+
+  // One row per dashboard per minute: chat send-to-render latency as the streamer saw it.
+  latencySamples: defineTable({
+    workspaceId: v.id("workspaces"),
+    channelLogin: v.string(),
+    windowStart: v.number(),
+    windowEnd: v.number(),
+    sampleCount: v.number(),
+    p50Ms: v.number(),
+    p95Ms: v.number(),
+    maxMs: v.number(),
+    clockOffsetMs: v.number(),
+    createdAt: v.number(),
+  }).index("by_workspace_channel_window", ["workspaceId", "channelLogin", "windowEnd"]),
+
   exports: defineTable({
     streamId: v.id("streams"),
     workspaceId: v.id("workspaces"),
@@ -157,10 +283,71 @@ export default defineSchema({
       v.literal("failed")
     ),
     downloadUrl: v.optional(v.string()),
+    storageId: v.optional(v.id("_storage")),
+    fileName: v.optional(v.string()),
+    error: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index("by_stream", ["streamId"]),
 
+  purgeAudits: defineTable({
+    workspaceId: v.id("workspaces"),
+    cutoff: v.number(),
+    retentionDays: v.number(),
+    deletedCount: v.number(),
+    startedAt: v.number(),
+    completedAt: v.number(),
+    durationMs: v.number(),
+  }).index("by_workspace", ["workspaceId", "completedAt"]),
+
+  shareTokens: defineTable({
+    workspaceId: v.id("workspaces"),
+    tokenHash: v.string(),
+    label: v.optional(v.string()),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_workspace", ["workspaceId"]),
+
+  liveFeedChannels: defineTable({
+    channel: v.string(),
+    lastSeq: v.number(),
+    resetSeq: v.number(),
+    lastSession: v.optional(
+      v.object({
+        seq: v.number(),
+        timestamp: v.number(),
+        message: v.any(),
+      })
+    ),
+    updatedAt: v.number(),
+  }).index("by_channel", ["channel"]),
+
+  liveFeedEvents: defineTable({
+    channel: v.string(),
+    seq: v.number(),
+    type: v.optional(v.string()),
+    message: v.any(),
+    timestamp: v.number(),
+  }).index("by_channel_seq", ["channel", "seq"]),
+
+  liveFeedNonces: defineTable({
+    nonce: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_nonce", ["nonce"])
+    .index("by_expiry", ["expiresAt"]),
+
+  eventSubMessages: defineTable({
+    messageId: v.string(),
+    subscriptionType: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_message", ["messageId"])
+    .index("by_expiry", ["expiresAt"]),
+
   integrationTokens: defineTable({
     integrationId: v.id("integrations"),
     accessToken: v.string(),
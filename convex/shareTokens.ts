@@ -0,0 +1,165 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { findWorkspaceForClerkUser, findWorkspaceIntegration } from "./helpers/workspace";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MIN_SHARE_TTL_HOURS = 1;
+const MAX_SHARE_TTL_HOURS = 24 * 30;
+const SHARE_TOKEN_BYTES = 24;
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Only the digest is stored, so a leaked table row can't be replayed as a link.
+async function hashShareToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+function assertWorkspaceSecret(secret: string | undefined) {
+  const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+  if (expectedSecret && secret !== expectedSecret) {
+    throw new Error("Unauthorized share token request");
+  }
+}
+
+export const authorizeLiveFeedSubscriber = query({
+  args: {
+    channelLogin: v.string(),
+    clerkUserId: v.optional(v.string()),
+    shareToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // Resolve the channel inside the caller's workspace (or the share's), never
+    // by login alone: another workspace may hold an integration with the same login.
+    const channelLogin = args.channelLogin.toLowerCase();
+
+    if (args.clerkUserId) {
+      const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+      if (workspace && (await findWorkspaceIntegration(ctx, workspace._id, channelLogin))) {
+        return { allowed: true as const, via: "owner" as const };
+      }
+    }
+
+    if (args.shareToken) {
+      const tokenHash = await hashShareToken(args.shareToken);
+      const share = await ctx.db
+        .query("shareTokens")
+        .withIndex("by_token_hash", (q) => q.eq("tokenHash", tokenHash))
+        .unique();
+
+      if (
+        share &&
+        share.revokedAt === undefined &&
+        share.expiresAt > Date.now() &&
+        (await findWorkspaceIntegration(ctx, share.workspaceId, channelLogin))
+      ) {
+        return { allowed: true as const, via: "share" as const, expiresAt: share.expiresAt };
+      }
+    }
+
+    return { allowed: false as const, reason: "forbidden" };
+  },
+});
+
+export const listShareTokens = query({
+  args: {
+    clerkUserId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+    if (!workspace) {
+      return [];
+    }
+
+    const now = Date.now();
+    const tokens = await ctx.db
+      .query("shareTokens")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", workspace._id))
+      .order("desc")
+      .take(50);
+
+    return tokens.map((token) => ({
+      id: token._id,
+      label: token.label ?? null,
+      createdAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      status:
+        token.revokedAt !== undefined
+          ? ("revoked" as const)
+          : token.expiresAt <= now
+            ? ("expired" as const)
+            : ("active" as const),
+    }));
+  },
+});
+
+export const createShareToken = mutation({
+  args: {
+    clerkUserId: v.string(),
+    label: v.optional(v.string()),
+    expiresInHours: v.number(),
+    secret: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    assertWorkspaceSecret(args.secret);
+
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+    if (!workspace) {
+      throw new Error("Workspace not found");
+    }
+
+    if (
+      !Number.isFinite(args.expiresInHours) ||
+      args.expiresInHours < MIN_SHARE_TTL_HOURS ||
+      args.expiresInHours > MAX_SHARE_TTL_HOURS
+    ) {
+      throw new Error(
+        `expiresInHours must be between ${MIN_SHARE_TTL_HOURS} and ${MAX_SHARE_TTL_HOURS}`
+      );
+    }
+
+    const bytes = new Uint8Array(SHARE_TOKEN_BYTES);
+    crypto.getRandomValues(bytes);
+    const token = toHex(bytes);
+    const now = Date.now();
+    const expiresAt = now + Math.round(args.expiresInHours * HOUR_MS);
+    const label = args.label?.trim();
+
+    await ctx.db.insert("shareTokens", {
+      workspaceId: workspace._id,
+      tokenHash: await hashShareToken(token),
+      label: label ? label.slice(0, 80) : undefined,
+      createdAt: now,
+      expiresAt,
+    });
+
+    return { token, expiresAt };
+  },
+});
+
+export const revokeShareToken = mutation({
+  args: {
+    clerkUserId: v.string(),
+    tokenId: v.string(),
+    secret: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    assertWorkspaceSecret(args.secret);
+
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+    const tokenId = ctx.db.normalizeId("shareTokens", args.tokenId);
+    const token = tokenId ? await ctx.db.get(tokenId) : null;
+
+    if (!workspace || !token || token.workspaceId !== workspace._id) {
+      throw new Error("Share token not found");
+    }
+
+    if (token.revokedAt === undefined) {
+      await ctx.db.patch(token._id, { revokedAt: Date.now() });
+    }
+
+    return { revoked: true };
+  },
+});
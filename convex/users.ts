@@ -1,6 +1,12 @@
 import { mutation, internalMutation, query } from "./_generated/server";
 import { v } from "convex/values";
-import { ensureWorkspace as ensureWorkspaceHelper } from "./helpers/workspace";
+import {
+  ensureWorkspace as ensureWorkspaceHelper,
+  findWorkspaceForClerkUser,
+  MAX_RAW_MESSAGE_CAP,
+  MIN_RAW_MESSAGE_CAP,
+  resolveRawMessageCap,
+} from "./helpers/workspace";
 
 export const ensureWorkspace = internalMutation({
   args: {
@@ -9,6 +15,7 @@ export const ensureWorkspace = internalMutation({
     channelId: v.string(),
     channelLogin: v.string(),
     channelDisplayName: v.string(),
+    reconnect: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const identityKeys = [args.clerkUserId, args.fallbackClerkUserId].filter(Boolean);
@@ -18,12 +25,14 @@ export const ensureWorkspace = internalMutation({
       channelId: args.channelId,
       channelLogin: args.channelLogin,
       channelDisplayName: args.channelDisplayName,
+      reconnect: args.reconnect,
     });
 
     return {
       workspaceId: result.workspaceId,
       integrationId: result.integrationId,
       userId: result.userId,
+      connected: result.connected,
     };
   },
 });
@@ -35,6 +44,7 @@ export const ensureWorkspaceFromServer = mutation({
     channelId: v.string(),
     channelLogin: v.string(),
     channelDisplayName: v.string(),
+    reconnect: v.optional(v.boolean()),
     secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -50,12 +60,14 @@ export const ensureWorkspaceFromServer = mutation({
       channelId: args.channelId,
       channelLogin: args.channelLogin,
       channelDisplayName: args.channelDisplayName,
+      reconnect: args.reconnect,
     });
 
     return {
       workspaceId: result.workspaceId,
       integrationId: result.integrationId,
       userId: result.userId,
+      connected: result.connected,
     };
   },
 });
@@ -65,19 +77,7 @@ export const getWorkspaceSummary = query({
     clerkUserId: v.string(),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_user", (q) => q.eq("clerkUserId", args.clerkUserId))
-      .unique();
-
-    if (!user) {
-      return null;
-    }
-
-    const workspace = await ctx.db
-      .query("workspaces")
-      .withIndex("by_owner", (q) => q.eq("ownerId", user._id))
-      .first();
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
 
     if (!workspace) {
       return null;
@@ -93,9 +93,19 @@ export const getWorkspaceSummary = query({
         workspaceId: workspace._id,
         channel: null,
         ingestionStatus: workspace.ingestionStatus ?? "idle",
+        heartbeat: null,
+        listening: { enabled: true, requestedAt: null },
+        rawMessageCap: resolveRawMessageCap(workspace),
       };
     }
 
+    const heartbeat = await ctx.db
+      .query("ingestionHeartbeats")
+      .withIndex("by_workspace_channel_login", (q) =>
+        q.eq("workspaceId", workspace._id).eq("channelLogin", integration.channelLogin.toLowerCase())
+      )
+      .unique();
+
     return {
       workspaceId: workspace._id,
       channel: {
@@ -105,6 +115,58 @@ export const getWorkspaceSummary = query({
         connectedAt: integration.connectedAt ?? null,
       },
       ingestionStatus: workspace.ingestionStatus ?? "idle",
+      // Staleness is judged by the caller; a query has no stable notion of "now".
+      heartbeat: heartbeat
+        ? {
+            connectionState: heartbeat.connectionState,
+            authMode: heartbeat.authMode ?? null,
+            lastChatAt: heartbeat.lastChatAt ?? null,
+            buildVersion: heartbeat.buildVersion,
+            beatAt: heartbeat.beatAt,
+          }
+        : null,
+      listening: {
+        // A disconnected or revoked channel has no worker to expect, paused or not.
+        enabled: integration.status === "connected" && (integration.listeningEnabled ?? true),
+        requestedAt: integration.listeningRequestedAt ?? null,
+      },
+      rawMessageCap: resolveRawMessageCap(workspace),
     };
   },
 });
+
+export const updateWorkspaceSettings = mutation({
+  args: {
+    clerkUserId: v.string(),
+    rawMessageCap: v.number(),
+    secret: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const expectedSecret = process.env.WORKSPACE_CONNECT_SECRET;
+    if (expectedSecret && args.secret !== expectedSecret) {
+      throw new Error("Unauthorized workspace settings request");
+    }
+
+    const workspace = await findWorkspaceForClerkUser(ctx, args.clerkUserId);
+    if (!workspace) {
+      throw new Error("Workspace not found");
+    }
+
+    if (
+      !Number.isInteger(args.rawMessageCap) ||
+      args.rawMessageCap < MIN_RAW_MESSAGE_CAP ||
+      args.rawMessageCap > MAX_RAW_MESSAGE_CAP
+    ) {
+      throw new Error(
+        `rawMessageCap must be an integer between ${MIN_RAW_MESSAGE_CAP} and ${MAX_RAW_MESSAGE_CAP}`
+      );
+    }
+
+    await ctx.db.patch(workspace._id, {
+      rawMessageCap: args.rawMessageCap,
+      updatedAt: Date.now(),
+    });
+
+    return { rawMessageCap: args.rawMessageCap };
+  },
+});
@@ -8,6 +8,21 @@ const nextConfig: NextConfig = {
         hostname: "static-cdn.jtvnw.net",
         pathname: "/emoticons/**",
       },
+      {
+        protocol: "https",
+        hostname: "cdn.7tv.app",
+        pathname: "/emote/**",
+      },
+      {
+        protocol: "https",
+        hostname: "cdn.betterttv.net",
+        pathname: "/emote/**",
+      },
+      {
+        protocol: "https",
+        hostname: "cdn.frankerfacez.com",
+        pathname: "/emote/**",
+      },
     ],
   },
 };
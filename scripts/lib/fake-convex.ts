@@ -0,0 +1,116 @@
+import type { MutationCtx } from "../../convex/_generated/server";
+
+type Row = Record<string, unknown> & { _id: string; _creationTime: number };
+
+/**
+ * Just enough of Convex's `ctx.db` for the helpers under test: equality index
+ * lookups in creation order, and get/insert/patch/delete. Index names aren't
+ * checked; the `q.eq` calls alone decide what matches.
+ */
+export function createFakeDb() {
+  const tables = new Map<string, Map<string, Row>>();
+  let nextId = 0;
+
+  const table = (name: string) => {
+    let rows = tables.get(name);
+    if (!rows) {
+      rows = new Map();
+      tables.set(name, rows);
+    }
+    return rows;
+  };
+
+  const locate = (id: string) => {
+    for (const rows of tables.values()) {
+      const row = rows.get(id);
+      if (row) {
+        return { rows, row };
+      }
+    }
+    return null;
+  };
+
+  const query = (name: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let direction: "asc" | "desc" = "asc";
+
+    const results = () => {
+      const matched = [...table(name).values()].filter((row) =>
+        filters.every(([field, value]) => row[field] === value)
+      );
+      matched.sort((a, b) =>
+        direction === "asc" ? a._creationTime - b._creationTime : b._creationTime - a._creationTime
+      );
+      return matched;
+    };
+
+    const builder = {
+      withIndex(_index: string, range?: (q: any) => unknown) {
+        const q = {
+          eq(field: string, value: unknown) {
+            filters.push([field, value]);
+            return q;
+          },
+        };
+        range?.(q);
+        return builder;
+      },
+      order(order: "asc" | "desc") {
+        direction = order;
+        return builder;
+      },
+      async collect() {
+        return results();
+      },
+      async take(count: number) {
+        return results().slice(0, count);
+      },
+      async first() {
+        return results()[0] ?? null;
+      },
+      async unique() {
+        const matched = results();
+        if (matched.length > 1) {
+          throw new Error(`unique() matched ${matched.length} rows in ${name}`);
+        }
+        return matched[0] ?? null;
+      },
+    };
+
+    return builder;
+  };
+
+  const db = {
+    query,
+    async get(id: string) {
+      return locate(id)?.row ?? null;
+    },
+    async insert(name: string, doc: Record<string, unknown>) {
+      nextId += 1;
+      const _id = `${name}:${nextId}`;
+      table(name).set(_id, { ...doc, _id, _creationTime: nextId });
+      return _id;
+    },
+    async patch(id: string, fields: Record<string, unknown>) {
+      const found = locate(id);
+      if (!found) {
+        throw new Error(`patch: no document ${id}`);
+      }
+      const next = { ...found.row, ...fields };
+      for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) {
+          delete next[key];
+        }
+      }
+      found.rows.set(id, next);
+    },
+    async delete(id: string) {
+      locate(id)?.rows.delete(id);
+    },
+  };
+
+  return {
+    ctx: { db } as unknown as MutationCtx,
+    rows: (name: string) => [...table(name).values()],
+  };
+}
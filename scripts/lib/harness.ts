@@ -0,0 +1,22 @@
+/**
+ * Shared harness for the `scripts/test-*.ts` suites: run each case in order,
+ * print ok/not ok per case, and exit non-zero on the first failure.
+ */
+export function runTest(name: string, test: () => void | Promise<void>) {
+  return Promise.resolve()
+    .then(test)
+    .then(
+      () => console.log(`ok - ${name}`),
+      (error) => {
+        console.error(`not ok - ${name}`);
+        throw error;
+      }
+    );
+}
+
+export function runSuite(main: () => Promise<void>) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,37 @@
+import { ConvexHttpClient } from "convex/browser";
+
+// Usage: tsx scripts/rekey-author-hashes.ts <streamId>
+// Kicks off the Convex job that re-keys legacy unsalted author hashes for one
+// stream; remaining batches continue server-side via the scheduler.
+async function main() {
+  const streamId = process.argv[2];
+  if (!streamId) {
+    console.error("Usage: tsx scripts/rekey-author-hashes.ts <streamId>");
+    process.exit(1);
+  }
+
+  const url = process.env.NEXT_PUBLIC_CONVEX_URL ?? process.env.CONVEX_URL;
+  const adminKey = process.env.CONVEX_ADMIN_KEY;
+  if (!url || !adminKey) {
+    console.error("Missing Convex connection info");
+    process.exit(1);
+  }
+
+  const client = new ConvexHttpClient(url);
+  (client as any).setAdminAuth?.(adminKey, undefined);
+
+  const result = await (client as any).mutation(
+    "ingestion/authorHashes:rekeyStreamAuthorHashes",
+    { streamId }
+  );
+  console.log(
+    result.done
+      ? `Re-keyed ${result.rekeyed} messages.`
+      : `Re-keyed ${result.rekeyed} messages so far; remaining batches are scheduled.`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
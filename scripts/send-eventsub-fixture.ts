@@ -0,0 +1,135 @@
+import { config as loadEnv } from "dotenv";
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { buildSignedEventSubRequest } from "../src/lib/twitch/eventsub";
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+const FIXTURES = path.join(process.cwd(), "scripts/fixtures/eventsub");
+const USAGE = `Usage: npx tsx scripts/send-eventsub-fixture.ts <fixture> [options]
+
+Fixtures: verification, stream-online, stream-offline, authorization-revoke
+
+Options:
+  --url <url>          Webhook URL (default http://localhost:3000/api/twitch/eventsub)
+  --user-id <id>       Broadcaster / user id to put in the event
+  --login <login>      Broadcaster / user login to put in the event
+  --message-id <id>    Reuse a message id to exercise duplicate handling
+  --stale              Sign with a timestamp 11 minutes in the past`;
+
+type Options = {
+  fixture: string;
+  url: string;
+  userId?: string;
+  login?: string;
+  messageId: string;
+  stale: boolean;
+};
+
+function parseArgs(argv: string[]): Options | null {
+  const [fixture, ...rest] = argv;
+  if (!fixture || fixture.startsWith("--")) {
+    return null;
+  }
+  const options: Options = {
+    fixture,
+    url: "http://localhost:3000/api/twitch/eventsub",
+    messageId: randomUUID(),
+    stale: false,
+  };
+  for (let index = 0; index < rest.length; index += 1) {
+    const flag = rest[index];
+    const value = rest[index + 1];
+    switch (flag) {
+      case "--url":
+        options.url = value;
+        index += 1;
+        break;
+      case "--user-id":
+        options.userId = value;
+        index += 1;
+        break;
+      case "--login":
+        options.login = value?.toLowerCase();
+        index += 1;
+        break;
+      case "--message-id":
+        options.messageId = value;
+        index += 1;
+        break;
+      case "--stale":
+        options.stale = true;
+        break;
+      default:
+        return null;
+    }
+  }
+  return options;
+}
+
+function applyOverrides(payload: Record<string, any>, options: Options) {
+  const event = payload.event as Record<string, unknown> | undefined;
+  const condition = payload.subscription?.condition as Record<string, unknown> | undefined;
+  if (options.userId) {
+    if (event && "broadcaster_user_id" in event) event.broadcaster_user_id = options.userId;
+    if (event && "user_id" in event) event.user_id = options.userId;
+    if (condition && "broadcaster_user_id" in condition) condition.broadcaster_user_id = options.userId;
+  }
+  if (options.login) {
+    if (event && "broadcaster_user_login" in event) event.broadcaster_user_login = options.login;
+    if (event && "user_login" in event) event.user_login = options.login;
+  }
+  if (event && "started_at" in event) {
+    event.started_at = new Date().toISOString();
+  }
+  return payload;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const secret = process.env.TWITCH_EVENTSUB_SECRET;
+  if (!secret) {
+    console.error("TWITCH_EVENTSUB_SECRET must be set (the same value the app uses).");
+    process.exit(1);
+  }
+
+  const payload = applyOverrides(
+    JSON.parse(readFileSync(path.join(FIXTURES, `${options.fixture}.json`), "utf8")),
+    options
+  );
+  const messageType = "challenge" in payload ? "webhook_callback_verification" : "notification";
+  const request = buildSignedEventSubRequest({
+    secret,
+    messageId: options.messageId,
+    messageType,
+    subscriptionType: payload.subscription.type,
+    payload,
+    now: options.stale ? Date.now() - 11 * 60 * 1000 : Date.now(),
+  });
+
+  const response = await fetch(options.url, {
+    method: "POST",
+    headers: request.headers,
+    body: request.body,
+  });
+  const text = await response.text();
+
+  console.log(`${messageType} ${payload.subscription.type} (${options.messageId})`);
+  console.log(`→ ${response.status} ${text || "(empty body)"}`);
+  if (messageType === "webhook_callback_verification" && text !== payload.challenge) {
+    console.error("Challenge response did not echo the challenge.");
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
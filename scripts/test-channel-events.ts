@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import {
+  describeChannelEvent,
+  parseCheer,
+  parseUserNotice,
+} from "../src/lib/twitch/channel-events";
+import { runSuite, runTest } from "./lib/harness";
+
+const SENT_AT = Date.parse("2026-03-14T19:00:00.000Z");
+
+// Raw IRC tags as tmi's `raw_message` hands them over: still escaped.
+function notice(msgId: string, tags: Record<string, string> = {}) {
+  return {
+    "msg-id": msgId,
+    id: `${msgId}-1`,
+    login: "gifter",
+    "display-name": "Gifter",
+    "user-id": "1001",
+    "tmi-sent-ts": String(SENT_AT),
+    ...tags,
+  };
+}
+
+async function main() {
+  await runTest("subs and resubs carry tier, months and the payer", () => {
+    const resub = parseUserNotice(
+      notice("resub", { "msg-param-cumulative-months": "14", "msg-param-sub-plan": "2000" }),
+      " still here "
+    );
+    assert.deepEqual(resub, {
+      kind: "resub",
+      messageId: "resub-1",
+      occurredAt: SENT_AT,
+      actorDisplay: "Gifter",
+      gifter: { userId: "1001", login: "gifter" },
+      amount: 14,
+      tier: "2000",
+      viewerCount: null,
+      recipientDisplay: null,
+      message: "still here",
+    });
+    assert.equal(parseUserNotice(notice("sub", { "msg-param-sub-plan": "Prime" }), null)?.tier, "prime");
+  });
+
+  await runTest("a gift bomb is one event, not one per recipient", () => {
+    const communityGiftId = "8254385217417216452";
+    const bomb = parseUserNotice(
+      notice("submysterygift", {
+        "msg-param-mass-gift-count": "100",
+        "msg-param-community-gift-id": communityGiftId,
+        "msg-param-sub-plan": "1000",
+      }),
+      null
+    );
+    assert.equal(bomb?.kind, "submysterygift");
+    assert.equal(bomb?.amount, 100);
+
+    const recipients = Array.from({ length: 100 }, (_, index) =>
+      parseUserNotice(
+        notice("subgift", {
+          id: `subgift-${index}`,
+          "msg-param-community-gift-id": communityGiftId,
+          "msg-param-recipient-display-name": `Viewer${index}`,
+        }),
+        null
+      )
+    );
+    assert.deepEqual(new Set(recipients), new Set([null]));
+  });
+
+  await runTest("a standalone gift keeps its recipient", () => {
+    const gift = parseUserNotice(
+      notice("subgift", { "msg-param-recipient-display-name": "Lucky\\sOne" }),
+      null
+    );
+    assert.equal(gift?.amount, 1);
+    assert.equal(gift?.recipientDisplay, "Lucky One");
+    assert.deepEqual(describeChannelEvent(gift!), {
+      title: "Gift sub",
+      detail: "Gifter gifted a sub to Lucky One",
+    });
+  });
+
+  await runTest("anonymous gifts and raids don't name a payer", () => {
+    const anonymous = parseUserNotice(
+      notice("anonsubmysterygift", { "msg-param-mass-gift-count": "5" }),
+      null
+    );
+    assert.equal(anonymous?.actorDisplay, null);
+    assert.equal(anonymous?.gifter, null);
+    assert.equal(describeChannelEvent(anonymous!).detail, "An anonymous viewer gifted 5 subs");
+
+    const raid = parseUserNotice(notice("raid", { "msg-param-viewerCount": "1234" }), null);
+    assert.equal(raid?.viewerCount, 1234);
+    assert.equal(raid?.gifter, null);
+  });
+
+  await runTest("untracked notices and messages without bits are ignored", () => {
+    assert.equal(parseUserNotice(notice("ritual"), null), null);
+    assert.equal(parseUserNotice({ "msg-id": "sub" }, null), null, "no message id");
+    assert.equal(parseCheer({ id: "m1", bits: "0" }, "hi"), null);
+
+    const cheer = parseCheer({ id: "m1", bits: "500", username: "fan", "display-name": "Fan" }, "cheer500 ");
+    assert.equal(cheer?.amount, 500);
+    assert.equal(cheer?.message, "cheer500");
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,193 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { ChannelSupervisor } from "../worker/src/channel-supervisor";
+import {
+  IrcConnectionPool,
+  SlidingWindowLimiter,
+  type IrcChannelListener,
+  type IrcClient,
+  type IrcIdentity,
+} from "../worker/src/irc-pool";
+import { runSuite, runTest } from "./lib/harness";
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Stands in for tmi.Client: records calls and echoes our own JOINs back. */
+class FakeIrcClient extends EventEmitter implements IrcClient {
+  readonly identity: IrcIdentity | null;
+  readonly joined: string[] = [];
+  connected = false;
+  failLogin = false;
+
+  constructor(identity: IrcIdentity | null) {
+    super();
+    this.identity = identity;
+  }
+
+  async connect() {
+    if (this.failLogin) {
+      throw new Error("Login authentication failed");
+    }
+    this.connected = true;
+  }
+
+  async disconnect() {
+    this.connected = false;
+  }
+
+  async join(channel: string) {
+    this.joined.push(channel);
+    this.emit("join", channel, this.identity?.username ?? "justinfan123", true);
+  }
+
+  async part(channel: string) {
+    this.joined.splice(this.joined.indexOf(channel), 1);
+  }
+}
+
+function recordingListener(events: string[]): IrcChannelListener {
+  return {
+    joined: () => events.push("joined"),
+    disconnected: (reason) => events.push(`disconnected:${reason}`),
+    message: (_tags, message) => events.push(`message:${message}`),
+    cheer: () => events.push("cheer"),
+    raw: (raw) => events.push(`raw:${raw.command}`),
+  };
+}
+
+async function main() {
+  await runTest("limiter holds callers past the window budget", async () => {
+    const limiter = new SlidingWindowLimiter(2, 80);
+    const startedAt = Date.now();
+    const granted: number[] = [];
+    await Promise.all(
+      [0, 1, 2].map(() => limiter.acquire().then(() => granted.push(Date.now() - startedAt)))
+    );
+    assert.ok(granted[0] < 40 && granted[1] < 40, "first two go straight through");
+    assert.ok(granted[2] >= 70, `third waits for the window (${granted[2]}ms)`);
+    assert.equal(limiter.queued, 0);
+  });
+
+  await runTest("pool shares a connection per identity and routes by channel", async () => {
+    const clients: FakeIrcClient[] = [];
+    const pool = new IrcConnectionPool({
+      createClient: (identity) => {
+        const client = new FakeIrcClient(identity);
+        clients.push(client);
+        return client;
+      },
+      channelsPerConnection: 2,
+    });
+    const alpha: string[] = [];
+    const beta: string[] = [];
+    const gamma: string[] = [];
+
+    await Promise.all([
+      pool.join("Alpha", null, recordingListener(alpha)),
+      pool.join("beta", null, recordingListener(beta)),
+      pool.join("gamma", null, recordingListener(gamma)),
+    ]);
+    assert.equal(clients.length, 2, "third anonymous channel overflows onto a second socket");
+    assert.deepEqual(clients[0].joined, ["#alpha", "#beta"]);
+
+    clients[0].emit("message", "#beta", {}, "hi", false);
+    clients[0].emit("raw_message", {}, { command: "CLEARCHAT", params: ["#alpha"] });
+    clients[0].emit("disconnected", "Connection closed.");
+    assert.deepEqual(alpha, ["joined", "raw:CLEARCHAT", "disconnected:Connection closed."]);
+    assert.deepEqual(beta, ["joined", "message:hi", "disconnected:Connection closed."]);
+    assert.deepEqual(gamma, ["joined"]);
+
+    await pool.leave("gamma");
+    assert.equal(clients[1].connected, false, "empty connections are closed");
+    assert.deepEqual(
+      pool.stats().connections.map((connection) => connection.channels),
+      [["#alpha", "#beta"]]
+    );
+    await pool.closeAll();
+  });
+
+  await runTest("pool rejects joins when a new connection cannot log in", async () => {
+    const pool = new IrcConnectionPool({
+      createClient: (identity) => {
+        const client = new FakeIrcClient(identity);
+        client.failLogin = true;
+        return client;
+      },
+    });
+    const identity = { username: "pulsebot", getToken: () => "expired" };
+    await assert.rejects(pool.join("alpha", identity, recordingListener([])), /authentication failed/);
+    assert.deepEqual(pool.stats().connections, [], "the failed connection is not reused");
+  });
+
+  await runTest("supervisor restarts failed units with backoff", async () => {
+    const starts: number[] = [];
+    let stops = 0;
+    let failUnit: (error: unknown) => void = () => {};
+    const supervisor = new ChannelSupervisor<string, { stop: () => Promise<void> }>({
+      start: async (_spec, fail) => {
+        starts.push(Date.now());
+        failUnit = fail;
+        return {
+          stop: async () => {
+            stops += 1;
+          },
+        };
+      },
+      baseBackoffMs: 40,
+    });
+
+    supervisor.ensure("alpha", "spec");
+    await sleep(5);
+    assert.equal(supervisor.status().alpha.state, "running");
+
+    failUnit(new Error("boom"));
+    await sleep(5);
+    assert.equal(supervisor.status().alpha.state, "backoff");
+    assert.equal(supervisor.status().alpha.lastError, "boom");
+    assert.equal(stops, 1, "the failed unit is stopped before restarting");
+
+    await sleep(60);
+    assert.equal(starts.length, 2);
+    assert.equal(supervisor.status().alpha.state, "running");
+
+    await supervisor.stopAll();
+    assert.equal(stops, 2);
+    assert.equal(supervisor.size, 0);
+  });
+
+  await runTest("supervisor parks a channel that exhausts its crash budget", async () => {
+    let attempts = 0;
+    const supervisor = new ChannelSupervisor<string, { stop: () => Promise<void> }>({
+      start: async () => {
+        attempts += 1;
+        throw new Error("cannot join");
+      },
+      baseBackoffMs: 1,
+      maxBackoffMs: 2,
+      crashBudget: 2,
+      crashWindowMs: 60_000,
+    });
+    const healthy = new ChannelSupervisor<string, { stop: () => Promise<void> }>({
+      start: async () => ({ stop: async () => {} }),
+    });
+
+    supervisor.ensure("broken", "spec");
+    healthy.ensure("fine", "spec");
+    await sleep(50);
+
+    const status = supervisor.status().broken;
+    assert.equal(status.state, "parked");
+    assert.equal(attempts, 3, "initial start plus two restarts");
+    assert.ok(status.restartAt !== null && status.restartAt > Date.now());
+    assert.equal(healthy.status().fine.state, "running");
+
+    supervisor.ensure("broken", "spec");
+    assert.equal(attempts, 3, "stays parked until the window passes");
+    await supervisor.stopAll();
+    await healthy.stopAll();
+  });
+}
+
+runSuite(main);
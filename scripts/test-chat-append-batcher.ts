@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { ChatAppendBatcher } from "../worker/src/chat-append-batcher";
+import { runSuite, runTest } from "./lib/harness";
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function recordingBatcher(options: { maxBatchSize?: number; maxDelayMs?: number } = {}) {
+  const batches: Array<{ streamId: string; messages: number[] }> = [];
+  const batcher = new ChatAppendBatcher<number>({
+    ...options,
+    flush: async (streamId, messages) => {
+      batches.push({ streamId, messages });
+    },
+  });
+  return { batcher, batches };
+}
+
+async function main() {
+  await runTest("flushes as soon as a batch is full", async () => {
+    const { batcher, batches } = recordingBatcher({ maxBatchSize: 3, maxDelayMs: 10_000 });
+    for (const message of [1, 2, 3, 4]) {
+      batcher.add("stream-a", message);
+    }
+    await sleep(0);
+    assert.deepEqual(batches, [{ streamId: "stream-a", messages: [1, 2, 3] }]);
+    await batcher.flush();
+    assert.deepEqual(batches[1], { streamId: "stream-a", messages: [4] });
+  });
+
+  await runTest("flushes a partial batch after the delay", async () => {
+    const { batcher, batches } = recordingBatcher({ maxBatchSize: 50, maxDelayMs: 20 });
+    batcher.add("stream-a", 1);
+    batcher.add("stream-a", 2);
+    assert.equal(batches.length, 0);
+    await sleep(40);
+    assert.deepEqual(batches, [{ streamId: "stream-a", messages: [1, 2] }]);
+  });
+
+  await runTest("a new stream flushes the previous stream's batch first", async () => {
+    const { batcher, batches } = recordingBatcher({ maxDelayMs: 10_000 });
+    batcher.add("stream-a", 1);
+    batcher.add("stream-b", 2);
+    await batcher.flush();
+    assert.deepEqual(batches, [
+      { streamId: "stream-a", messages: [1] },
+      { streamId: "stream-b", messages: [2] },
+    ]);
+  });
+
+  await runTest("flushes run one at a time and survive a failed batch", async () => {
+    const order: string[] = [];
+    let release: () => void = () => {};
+    const batcher = new ChatAppendBatcher<number>({
+      maxBatchSize: 1,
+      flush: async (_streamId, messages) => {
+        order.push(`start ${messages[0]}`);
+        if (messages[0] === 1) {
+          await new Promise<void>((resolve) => {
+            release = resolve;
+          });
+          throw new Error("convex unavailable");
+        }
+        order.push(`end ${messages[0]}`);
+      },
+    });
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      batcher.add("stream-a", 1);
+      batcher.add("stream-a", 2);
+      await sleep(0);
+      assert.deepEqual(order, ["start 1"], "the second batch waits for the first");
+      release();
+      await batcher.flush();
+      assert.deepEqual(order, ["start 1", "start 2", "end 2"]);
+    } finally {
+      console.error = originalError;
+    }
+  });
+}
+
+runSuite(main);
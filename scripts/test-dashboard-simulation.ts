@@ -1,7 +1,9 @@
 import { POST as coachSummary } from "../src/app/api/coach-summary/route";
 import { POST as liveFeed } from "../src/app/api/live-feed/route";
+import { buildSignedLiveFeedRequest } from "../src/lib/live-feed-signature";
 
 const SIM_CHANNEL = (process.env.SIM_CHANNEL ?? "simulation-channel").toLowerCase();
+const LIVE_FEED_SECRET = (process.env.LIVE_FEED_SECRET ||= "simulation-live-feed-secret");
 
 process.env.VERCEL_AI_API_KEY = "";
 
@@ -150,12 +152,11 @@ async function callCoachSummary(
 }
 
 async function callLiveFeed(updates: unknown[]) {
+  const signed = buildSignedLiveFeedRequest(LIVE_FEED_SECRET, { channel: SIM_CHANNEL, updates });
   const request = new Request("http://localhost/api/live-feed", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ channel: SIM_CHANNEL, updates }),
+    headers: signed.headers,
+    body: signed.body,
   });
   await liveFeed(request);
 }
@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  EmoteCatalog,
+  mergeEmoteCatalog,
+  parseBttvEmotes,
+  parseFfzEmotes,
+  parseSevenTvEmotes,
+  parseTwitchChannelEmotes,
+} from "../src/lib/twitch/emote-catalog";
+import {
+  EmoteCatalogService,
+  type EmoteCatalogSnapshot,
+  type EmoteProviderAdapter,
+} from "../worker/src/emote-catalog-service";
+import { runSuite, runTest } from "./lib/harness";
+
+const FIXTURES = path.join(process.cwd(), "scripts/fixtures/emote-catalog");
+
+function fixture(name: string): unknown {
+  return JSON.parse(readFileSync(path.join(FIXTURES, name), "utf8"));
+}
+
+function fixtureAdapters(failing: () => Set<string> = () => new Set()): EmoteProviderAdapter[] {
+  const sources = {
+    twitch: { channel: parseTwitchChannelEmotes(fixture("twitch-channel.json")), global: [] },
+    "7tv": {
+      channel: parseSevenTvEmotes(fixture("7tv-user.json")),
+      global: parseSevenTvEmotes(fixture("7tv-global.json")),
+    },
+    bttv: {
+      channel: parseBttvEmotes(fixture("bttv-user.json")),
+      global: parseBttvEmotes(fixture("bttv-global.json")),
+    },
+    ffz: {
+      channel: parseFfzEmotes(fixture("ffz-room.json")),
+      global: parseFfzEmotes(fixture("ffz-global.json")),
+    },
+  } as const;
+
+  return (Object.keys(sources) as Array<keyof typeof sources>).map((provider) => ({
+    provider,
+    fetchEmotes: async () => {
+      if (failing().has(provider)) {
+        throw new Error(`${provider} responded with 503`);
+      }
+      return { channel: [...sources[provider].channel], global: [...sources[provider].global] };
+    },
+  }));
+}
+
+async function main() {
+  await runTest("parses Helix channel emotes", () => {
+    const emotes = parseTwitchChannelEmotes(fixture("twitch-channel.json"));
+    assert.deepEqual(
+      emotes.map((emote) => emote.code),
+      ["pulseHype", "pulseWave"]
+    );
+    assert.equal(
+      emotes[1].imageUrl,
+      "https://static-cdn.jtvnw.net/emoticons/v2/305954156/default/dark/2.0"
+    );
+  });
+
+  await runTest("parses 7TV user and global sets", () => {
+    const channel = parseSevenTvEmotes(fixture("7tv-user.json"));
+    assert.deepEqual(
+      channel.map((emote) => emote.code),
+      ["catJAM", "KEKW", "pulseHype"]
+    );
+    assert.equal(channel[0].imageUrl, "https://cdn.7tv.app/emote/60ae4bb30e35477634610fda/2x.webp");
+    // No host block: falls back to the CDN path built from the id.
+    assert.equal(channel[2].imageUrl, "https://cdn.7tv.app/emote/63071b80942ffb69e13d700f/2x.webp");
+    assert.deepEqual(
+      parseSevenTvEmotes(fixture("7tv-global.json")).map((emote) => emote.code),
+      ["EZ"]
+    );
+    assert.deepEqual(parseSevenTvEmotes(null), []);
+  });
+
+  await runTest("parses BTTV channel, shared and global emotes", () => {
+    const channel = parseBttvEmotes(fixture("bttv-user.json"));
+    assert.deepEqual(
+      channel.map((emote) => emote.code),
+      ["pulseDance", "KEKW", "Clap"]
+    );
+    assert.equal(channel[0].imageUrl, "https://cdn.betterttv.net/emote/5f1b0186cf6d2144653d2970/2x");
+    assert.deepEqual(
+      parseBttvEmotes(fixture("bttv-global.json")).map((emote) => emote.code),
+      ["OhMyGoodness", "D:"]
+    );
+  });
+
+  await runTest("parses FFZ rooms and only default global sets", () => {
+    const channel = parseFfzEmotes(fixture("ffz-room.json"));
+    assert.deepEqual(
+      channel.map((emote) => [emote.code, emote.id, emote.imageUrl]),
+      [
+        ["OMEGALUL", "381875", "https://cdn.frankerfacez.com/emote/381875/2"],
+        ["monkaS", "128054", "https://cdn.frankerfacez.com/emote/128054/1"],
+      ]
+    );
+    assert.deepEqual(
+      parseFfzEmotes(fixture("ffz-global.json")).map((emote) => emote.code),
+      ["CatBag"]
+    );
+  });
+
+  await runTest("merges with channel and provider precedence", () => {
+    const merged = mergeEmoteCatalog([
+      parseTwitchChannelEmotes(fixture("twitch-channel.json")),
+      parseSevenTvEmotes(fixture("7tv-user.json")),
+      parseBttvEmotes(fixture("bttv-user.json")),
+    ]);
+    const catalog = new EmoteCatalog(merged);
+    assert.equal(catalog.lookup("pulseHype")?.provider, "twitch");
+    assert.equal(catalog.lookup("KEKW")?.provider, "7tv");
+    assert.equal(catalog.lookup("Clap")?.provider, "bttv");
+    assert.equal(mergeEmoteCatalog([merged], 2).length, 2);
+  });
+
+  await runTest("matches exact codes with character ranges", () => {
+    const catalog = new EmoteCatalog([
+      ...parseSevenTvEmotes(fixture("7tv-user.json")),
+      ...parseBttvEmotes(fixture("bttv-global.json")),
+    ]);
+    const message = "KEKW that was wild catJAM kekw D: KEKW";
+    const matches = catalog.match(message);
+    assert.deepEqual(
+      matches.map((match) => [match.code, match.start, match.end]),
+      [
+        ["KEKW", 0, 3],
+        ["catJAM", 19, 24],
+        ["D:", 31, 32],
+        ["KEKW", 34, 37],
+      ]
+    );
+    matches.forEach((match) => {
+      assert.equal(message.slice(match.start, match.end + 1), match.code);
+    });
+  });
+
+  await runTest("refresh keeps a failed provider's previous emotes", async () => {
+    const saved: EmoteCatalogSnapshot[] = [];
+    let failing = new Set<string>();
+    const service = new EmoteCatalogService({
+      channelId: "123456789",
+      channelLogin: "pulsechannel",
+      adapters: fixtureAdapters(() => failing),
+      loadSnapshot: async () => null,
+      saveSnapshot: async (snapshot) => {
+        saved.push(snapshot);
+      },
+    });
+    await service.refresh();
+    assert.equal(service.catalog.lookup("OMEGALUL")?.provider, "ffz");
+    assert.equal(service.catalog.lookup("CatBag")?.provider, "ffz");
+    assert.equal(saved.length, 1);
+
+    failing = new Set(["ffz"]);
+    await service.refresh();
+    assert.equal(service.catalog.lookup("OMEGALUL")?.provider, "ffz");
+    const ffzStatus = saved[1].providers.find((status) => status.provider === "ffz");
+    assert.equal(ffzStatus?.error, "ffz responded with 503");
+
+    failing = new Set(["twitch", "7tv", "bttv", "ffz"]);
+    await service.refresh();
+    assert.equal(saved.length, 2, "a refresh where every provider fails is not stored");
+    assert.equal(service.catalog.lookup("catJAM")?.provider, "7tv");
+  });
+
+  await runTest("start loads the stored snapshot before refreshing", async () => {
+    const stored: EmoteCatalogSnapshot = {
+      emotes: parseBttvEmotes(fixture("bttv-user.json")),
+      providers: [{ provider: "bttv", count: 3 }],
+      fetchedAt: Date.now(),
+    };
+    let fetched = 0;
+    const service = new EmoteCatalogService({
+      channelId: "123456789",
+      channelLogin: "pulsechannel",
+      adapters: [
+        {
+          provider: "bttv",
+          fetchEmotes: async () => {
+            fetched += 1;
+            return { channel: [], global: [] };
+          },
+        },
+      ],
+      loadSnapshot: async () => stored,
+      saveSnapshot: async () => {},
+    });
+    await service.start();
+    service.stop();
+    assert.equal(service.catalog.lookup("pulseDance")?.provider, "bttv");
+    assert.equal(fetched, 0, "a fresh snapshot is not re-fetched on start");
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import type { Doc, Id } from "../convex/_generated/dataModel";
+import { buildCsv, buildJson, type ExportContent } from "../convex/helpers/exportFormats";
+import { runSuite, runTest } from "./lib/harness";
+
+const START = Date.parse("2026-03-14T19:00:00.000Z");
+const STREAM_ID = "stream123" as Id<"streams">;
+
+function windowDoc(offsetMs: number, overrides: Partial<Doc<"windows">> = {}): Doc<"windows"> {
+  return {
+    _id: `window-${offsetMs}` as Id<"windows">,
+    _creationTime: START,
+    streamId: STREAM_ID,
+    windowStart: START + offsetMs,
+    windowEnd: START + offsetMs + 5_000,
+    messageCount: 4,
+    uniqueChatters: 3,
+    topTokens: [{ token: "gg", count: 2 }],
+    topEmotes: [{ emote: "Kappa", count: 1 }],
+    sentimentScore: 0.25,
+    sentimentLabel: "positive",
+    sentimentStatus: "ok",
+    createdAt: START,
+    ...overrides,
+  };
+}
+
+function spikeDoc(startOffsetMs: number, endOffsetMs: number, strength: number): Doc<"spikeEvents"> {
+  return {
+    _id: `spike-${startOffsetMs}` as Id<"spikeEvents">,
+    _creationTime: START,
+    streamId: STREAM_ID,
+    windowStart: START + startOffsetMs,
+    windowEnd: START + endOffsetMs,
+    reason: "message_rate",
+    strength,
+    messageCount: 40,
+    createdAt: START,
+  };
+}
+
+function content(windows: Doc<"windows">[], spikes: Doc<"spikeEvents">[]): ExportContent {
+  return {
+    stream: {
+      _id: STREAM_ID,
+      _creationTime: START,
+      workspaceId: "workspace123" as Id<"workspaces">,
+      integrationId: "integration123" as Id<"integrations">,
+      platform: "twitch",
+      streamId: "twitch-42",
+      title: "Speedrun night",
+      status: "completed",
+      startedAt: START,
+      endedAt: START + 60_000,
+      messageCount: 12,
+      uniqueChatters: 5,
+      spikeCount: 1,
+      createdAt: START,
+      updatedAt: START + 60_000,
+    },
+    windows,
+    spikes,
+  };
+}
+
+function csvRows(csv: string) {
+  return csv.trimEnd().split("\r\n").map((line) => line.split(","));
+}
+
+async function main() {
+  await runTest("CSV flags every window a spike overlaps, even off-boundary", () => {
+    // The spike starts 2.3s into the second window and runs into the third.
+    const source = content(
+      [windowDoc(0), windowDoc(5_000), windowDoc(10_000), windowDoc(15_000)],
+      [spikeDoc(7_300, 12_100, 3.14159), spikeDoc(11_000, 14_000, 4.5)]
+    );
+    const [header, ...rows] = csvRows(buildCsv(source));
+    const spikeColumn = header.indexOf("spike");
+    const strengthColumn = header.indexOf("spike_strength");
+    assert.deepEqual(
+      rows.map((row) => [row[spikeColumn], row[strengthColumn]]),
+      [
+        ["false", ""],
+        ["true", "3.142"],
+        ["true", "4.5"],
+        ["false", ""],
+      ]
+    );
+  });
+
+  await runTest("CSV cells are quoted and formula-safe", () => {
+    const source = content(
+      [windowDoc(0, { topTokens: [{ token: "=cmd", count: 1 }, { token: 'say "hi", ok', count: 1 }] })],
+      []
+    );
+    const csv = buildCsv(source);
+    assert.ok(csv.endsWith("\r\n"));
+    assert.ok(csv.includes(`"'=cmd:1 say ""hi"", ok:1"`), csv);
+  });
+
+  await runTest("JSON carries the stream summary, windows and spikes", () => {
+    const source = content([windowDoc(0)], [spikeDoc(1_000, 4_000, 2)]);
+    const parsed = JSON.parse(buildJson(source, START + 120_000));
+    assert.equal(parsed.stream.platformStreamId, "twitch-42");
+    assert.equal(parsed.stream.endedAt, "2026-03-14T19:01:00.000Z");
+    assert.deepEqual(parsed.windows[0].topEmotes, [{ emote: "Kappa", count: 1 }]);
+    assert.equal(parsed.spikes[0].windowStart, "2026-03-14T19:00:01.000Z");
+    assert.equal(parsed.generatedAt, "2026-03-14T19:02:00.000Z");
+  });
+}
+
+runSuite(main);
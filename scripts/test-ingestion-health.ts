@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import {
+  LISTENING_CONFIRM_TIMEOUT_MS,
+  WORKER_HEARTBEAT_STALE_MS,
+  resolveListeningControl,
+  resolveSessionStatus,
+  type WorkerHeartbeat,
+} from "../src/lib/ingestion-health";
+import { runSuite, runTest } from "./lib/harness";
+
+const NOW = Date.parse("2026-03-14T19:00:00.000Z");
+
+function heartbeat(overrides: Partial<WorkerHeartbeat> = {}): WorkerHeartbeat {
+  return {
+    connectionState: "connected",
+    authMode: "oauth",
+    lastChatAt: NOW - 5_000,
+    buildVersion: "abc1234",
+    beatAt: NOW - 10_000,
+    ...overrides,
+  };
+}
+
+async function main() {
+  await runTest("a fresh heartbeat passes the workspace status through", () => {
+    assert.equal(resolveSessionStatus("listening", heartbeat(), NOW), "listening");
+    assert.equal(resolveSessionStatus("idle", heartbeat({ connectionState: "disconnected" }), NOW), "idle");
+  });
+
+  await runTest("a stale heartbeat means the worker is gone, live or not", () => {
+    const stale = heartbeat({ beatAt: NOW - WORKER_HEARTBEAT_STALE_MS - 1 });
+    assert.equal(resolveSessionStatus("listening", stale, NOW), "unreachable");
+    assert.equal(resolveSessionStatus("idle", stale, NOW), "unreachable");
+    assert.equal(
+      resolveSessionStatus("idle", heartbeat({ beatAt: NOW - WORKER_HEARTBEAT_STALE_MS }), NOW),
+      "idle",
+      "exactly at the threshold is still fresh"
+    );
+  });
+
+  await runTest("a stopped unit is unreachable straight away", () => {
+    assert.equal(resolveSessionStatus("idle", heartbeat({ connectionState: "stopped" }), NOW), "unreachable");
+  });
+
+  await runTest("no heartbeat is only suspicious while listening", () => {
+    assert.equal(resolveSessionStatus("listening", null, NOW), "unreachable");
+    assert.equal(resolveSessionStatus("idle", null, NOW), "idle");
+    assert.equal(resolveSessionStatus("errored", null, NOW), "errored");
+  });
+
+  await runTest("a paused channel is never unreachable", () => {
+    assert.equal(resolveSessionStatus("idle", heartbeat({ connectionState: "stopped" }), NOW, false), "idle");
+    assert.equal(resolveSessionStatus("idle", null, NOW, false), "idle");
+  });
+
+  await runTest("a toggle is confirmed by a later heartbeat in the requested state", () => {
+    const requestedAt = NOW - 3_000;
+    const started = heartbeat({ connectionState: "connecting", beatAt: NOW - 1_000 });
+    const stopped = heartbeat({ connectionState: "stopped", beatAt: NOW - 1_000 });
+    assert.equal(resolveListeningControl({ enabled: true, requestedAt }, started, NOW), "confirmed");
+    assert.equal(resolveListeningControl({ enabled: false, requestedAt }, stopped, NOW), "confirmed");
+    assert.equal(
+      resolveListeningControl({ enabled: false, requestedAt }, started, NOW),
+      "pending",
+      "still running after a stop"
+    );
+    assert.equal(
+      resolveListeningControl({ enabled: true, requestedAt }, heartbeat({ beatAt: requestedAt - 1 }), NOW),
+      "pending",
+      "a beat from before the request proves nothing"
+    );
+    assert.equal(resolveListeningControl({ enabled: true, requestedAt: null }, null, NOW), "confirmed");
+  });
+
+  await runTest("a toggle the worker never acknowledges fails", () => {
+    const requestedAt = NOW - LISTENING_CONFIRM_TIMEOUT_MS - 1;
+    assert.equal(resolveListeningControl({ enabled: true, requestedAt }, null, NOW), "failed");
+    assert.equal(
+      resolveListeningControl({ enabled: false, requestedAt }, heartbeat({ beatAt: NOW }), NOW),
+      "failed"
+    );
+  });
+}
+
+runSuite(main);
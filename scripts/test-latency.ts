@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import {
+  MAX_PLAUSIBLE_LATENCY_MS,
+  latencySentAt,
+  measureClockOffset,
+  parseServerTime,
+  percentile,
+  pickClockOffset,
+  rateLatency,
+  receiveLatency,
+  summarizeLatency,
+} from "../src/lib/latency";
+import { runSuite, runTest } from "./lib/harness";
+
+const NOW = Date.parse("2026-03-14T19:00:00.000Z");
+
+async function main() {
+  await runTest("clock offset assumes the server stamped the midpoint of the round trip", () => {
+    // Browser runs 3s behind the server; 200ms round trip.
+    const sample = measureClockOffset(NOW, NOW + 200, NOW + 3_000 + 100);
+    assert.equal(sample.offsetMs, 3_000);
+    assert.equal(sample.roundTripMs, 200);
+  });
+
+  await runTest("the fastest probe wins", () => {
+    assert.equal(
+      pickClockOffset([
+        { offsetMs: 900, roundTripMs: 1_800 },
+        { offsetMs: 40, roundTripMs: 60 },
+        { offsetMs: -300, roundTripMs: 400 },
+      ]),
+      40
+    );
+    assert.equal(pickClockOffset([]), null);
+  });
+
+  await runTest("receive latency corrects for skew and drops implausible samples", () => {
+    // Rendered at browser NOW, browser 2s slow: server-clock render time is NOW + 2s.
+    assert.equal(receiveLatency(NOW + 1_200, NOW, 2_000), 800);
+    assert.equal(receiveLatency(NOW + 1_500, NOW, 0), null, "1.5s in the future is a bad offset");
+    assert.equal(receiveLatency(NOW + 200, NOW, 0), 0, "small negatives are clock jitter");
+    assert.equal(receiveLatency(NOW - MAX_PLAUSIBLE_LATENCY_MS - 1, NOW, 0), null);
+  });
+
+  await runTest("percentiles use nearest rank", () => {
+    const sorted = Array.from({ length: 100 }, (_, index) => index + 1);
+    assert.equal(percentile(sorted, 0.5), 50);
+    assert.equal(percentile(sorted, 0.95), 95);
+    assert.equal(percentile([7], 0.95), 7);
+    assert.equal(percentile([], 0.5), null);
+  });
+
+  await runTest("summaries and ratings", () => {
+    assert.equal(summarizeLatency([]), null);
+    assert.deepEqual(summarizeLatency([900, 300, 1_800, 600]), {
+      count: 4,
+      p50Ms: 600,
+      p95Ms: 1_800,
+      maxMs: 1_800,
+    });
+    assert.equal(rateLatency(1_500), "good");
+    assert.equal(rateLatency(2_400), "slow");
+    assert.equal(rateLatency(3_001), "poor");
+    assert.equal(parseServerTime(String(NOW)), NOW);
+    assert.equal(parseServerTime("soon"), null);
+    assert.equal(parseServerTime(null), null);
+  });
+
+  await runTest("only live Twitch lines are sampled", () => {
+    assert.equal(latencySentAt({ platform: "twitch", sentAt: NOW }), NOW);
+    assert.equal(latencySentAt({ sentAt: NOW }), NOW, "older workers only sent Twitch");
+    assert.equal(latencySentAt({ platform: "youtube", sentAt: NOW }), null);
+    assert.equal(latencySentAt({ platform: "twitch", sentAt: null }), null);
+  });
+}
+
+runSuite(main);
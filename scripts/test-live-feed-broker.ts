@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import {
+  LIVE_FEED_HISTORY_LIMIT,
+  LIVE_FEED_NONCE_TTL_MS,
+  type LiveFeedEntry,
+} from "../src/lib/live-feed/broker";
+import { InMemoryLiveFeedBroker } from "../src/lib/live-feed/memory-broker";
+import { runSuite, runTest } from "./lib/harness";
+
+let nonceCounter = 0;
+
+function publish(broker: InMemoryLiveFeedBroker, channel: string, messages: unknown[]) {
+  nonceCounter += 1;
+  return broker.publish(channel, messages, { nonce: `nonce-${nonceCounter}` });
+}
+
+async function main() {
+  await runTest("ids increase and subscribers receive each entry", async () => {
+    const broker = new InMemoryLiveFeedBroker();
+    const received: LiveFeedEntry[] = [];
+    const unsubscribe = broker.subscribe("alpha", 0, (entry) => received.push(entry));
+
+    await publish(broker, "alpha", [{ type: "chat", text: "hi" }, { type: "chat", text: "yo" }]);
+    unsubscribe();
+    await publish(broker, "alpha", [{ type: "chat", text: "missed" }]);
+
+    assert.equal(received.length, 2);
+    assert.equal(received[1].id, received[0].id + 1);
+  });
+
+  await runTest("history restarts at reset and keeps the latest session", async () => {
+    const broker = new InMemoryLiveFeedBroker();
+    await publish(broker, "alpha", [{ type: "session", live: true }, { type: "metrics", n: 1 }]);
+    await publish(broker, "alpha", [{ type: "reset" }, { type: "metrics", n: 2 }]);
+
+    const history = await broker.history("alpha");
+    assert.deepEqual(
+      history.entries.map((entry) => entry.message),
+      [{ type: "metrics", n: 2 }]
+    );
+    assert.deepEqual(history.lastSession?.message, { type: "session", live: true });
+  });
+
+  await runTest("replay resumes after Last-Event-ID while the gap is still buffered", async () => {
+    const broker = new InMemoryLiveFeedBroker();
+    await publish(broker, "alpha", [{ type: "chat", n: 1 }, { type: "chat", n: 2 }, { type: "chat", n: 3 }]);
+    const { lastId } = await broker.history("alpha");
+
+    const resumed = await broker.replay("alpha", lastId - 2);
+    assert.equal(resumed.complete, true);
+    assert.deepEqual(
+      resumed.entries.map((entry) => entry.message),
+      [{ type: "chat", n: 2 }, { type: "chat", n: 3 }]
+    );
+
+    const upToDate = await broker.replay("alpha", lastId);
+    assert.deepEqual(upToDate, { entries: [], complete: true, lastId });
+  });
+
+  await runTest("replay reports a gap once the buffer has moved on", async () => {
+    const broker = new InMemoryLiveFeedBroker();
+    await publish(broker, "alpha", [{ type: "chat", n: 0 }]);
+    const { lastId: firstId } = await broker.history("alpha");
+    const overflow = Array.from({ length: LIVE_FEED_HISTORY_LIMIT + 1 }, (_, n) => ({ type: "chat", n }));
+    await publish(broker, "alpha", overflow);
+
+    const replay = await broker.replay("alpha", firstId);
+    assert.equal(replay.complete, false);
+    assert.deepEqual(replay.entries, []);
+  });
+
+  await runTest("a nonce is accepted once until it expires", async () => {
+    const broker = new InMemoryLiveFeedBroker();
+    const realNow = Date.now;
+    let now = realNow();
+    Date.now = () => now;
+    try {
+      assert.deepEqual(await broker.publish("alpha", [], { nonce: "nonce-a" }), { accepted: true });
+      now += 1_000;
+      assert.deepEqual(await broker.publish("alpha", [], { nonce: "nonce-b" }), { accepted: true });
+      assert.deepEqual(await broker.publish("bravo", [], { nonce: "nonce-a" }), { accepted: false });
+
+      // Only nonce-a has aged out; nonce-b is still remembered.
+      now += LIVE_FEED_NONCE_TTL_MS;
+      assert.deepEqual(await broker.publish("alpha", [], { nonce: "nonce-a" }), { accepted: true });
+      assert.deepEqual(await broker.publish("alpha", [], { nonce: "nonce-b" }), { accepted: false });
+    } finally {
+      Date.now = realNow;
+    }
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import {
+  LiveFeedOutbox,
+  type LiveFeedDeliveryResult,
+  type LiveFeedOutboxOptions,
+} from "../worker/src/live-feed-outbox";
+import { runSuite, runTest } from "./lib/harness";
+
+type Delivery = { channel: string; updates: Record<string, unknown>[] };
+
+function update(type: string, id?: string) {
+  return id === undefined ? { type } : { type, id };
+}
+
+function recordingOutbox(
+  options: Partial<LiveFeedOutboxOptions> = {},
+  respond: (delivery: Delivery) => LiveFeedDeliveryResult | Promise<LiveFeedDeliveryResult> = () => ({
+    ok: true,
+  })
+) {
+  const deliveries: Delivery[] = [];
+  const outbox = new LiveFeedOutbox({
+    flushIntervalMs: 60_000,
+    ...options,
+    deliver: async (channel, updates) => {
+      const delivery = { channel, updates };
+      deliveries.push(delivery);
+      return respond(delivery);
+    },
+  });
+  return { outbox, deliveries };
+}
+
+function queued(outbox: LiveFeedOutbox, channel: string) {
+  return outbox.stats().channels[channel]?.depth ?? 0;
+}
+
+async function quietly<T>(run: () => Promise<T>) {
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    return await run();
+  } finally {
+    console.warn = originalWarn;
+  }
+}
+
+async function main() {
+  await runTest("overflow drops superseded snapshots, then chat, then anything unprotected", async () => {
+    const { outbox, deliveries } = recordingOutbox({ maxQueueSize: 4 });
+    outbox.enqueue("alpha", [
+      update("session"),
+      update("metrics", "m1"),
+      update("chat", "c1"),
+      update("metrics", "m2"),
+    ]);
+    outbox.enqueue("alpha", [update("chat", "c2")]);
+    outbox.enqueue("alpha", [update("chat", "c3")]);
+    outbox.enqueue("alpha", [update("alert", "a1")]);
+    outbox.enqueue("alpha", [update("reset")]);
+    outbox.stop();
+
+    assert.deepEqual(outbox.stats().dropped, { superseded: 1, overflow: 3, rejected: 0 });
+    await outbox.flush();
+    assert.deepEqual(deliveries[0].updates, [
+      update("session"),
+      update("metrics", "m2"),
+      update("alert", "a1"),
+      update("reset"),
+    ]);
+  });
+
+  await runTest("reset and session survive until nothing else is left", async () => {
+    const { outbox, deliveries } = recordingOutbox({ maxQueueSize: 2 });
+    outbox.enqueue("alpha", [update("reset"), update("session")]);
+    outbox.enqueue("bravo", [update("tokens")]);
+    assert.equal(queued(outbox, "alpha"), 2, "bravo's snapshot goes before alpha's session");
+    assert.equal(queued(outbox, "bravo"), 0);
+
+    outbox.enqueue("bravo", [update("session", "newer")]);
+    outbox.stop();
+    assert.equal(outbox.stats().queueDepth, 2);
+    await outbox.flush();
+    assert.deepEqual(
+      deliveries.map((delivery) => delivery.updates),
+      [[update("session")], [update("session", "newer")]],
+      "with only protected updates left, the oldest one is dropped"
+    );
+  });
+
+  await runTest("updates evicted while their batch is in flight aren't counted twice", async () => {
+    let release: (result: LiveFeedDeliveryResult) => void = () => {};
+    const { outbox, deliveries } = recordingOutbox({ maxQueueSize: 3 }, (delivery) =>
+      delivery.updates.length === 3
+        ? new Promise((resolve) => {
+            release = resolve;
+          })
+        : { ok: true }
+    );
+    outbox.enqueue("alpha", [update("chat", "c1"), update("chat", "c2"), update("chat", "c3")]);
+    const flushing = outbox.flush();
+    outbox.enqueue("alpha", [update("chat", "c4")]);
+    outbox.stop();
+    assert.equal(outbox.stats().dropped.overflow, 1, "c1 was evicted mid-flight");
+
+    release({ ok: true });
+    await flushing;
+    let stats = outbox.stats();
+    assert.equal(stats.delivered, 2, "c1 was already gone when the batch landed");
+    assert.equal(stats.queueDepth, 1);
+
+    await outbox.flush();
+    assert.deepEqual(deliveries[1].updates, [update("chat", "c4")]);
+    stats = outbox.stats();
+    assert.equal(stats.delivered, 3);
+    assert.equal(stats.queueDepth, 0);
+  });
+
+  await runTest("retryable failures back off with jitter; rejected batches are dropped", async () => {
+    const results: LiveFeedDeliveryResult[] = [
+      { ok: false, retryable: true, status: 503 },
+      { ok: false, retryable: false, status: 400, error: "bad update" },
+    ];
+    const { outbox, deliveries } = recordingOutbox({ baseBackoffMs: 1_000 }, () => {
+      const result = results.shift();
+      if (!result) {
+        throw new Error("socket hang up");
+      }
+      return result;
+    });
+
+    await quietly(async () => {
+      outbox.enqueue("alpha", [update("chat", "c1")]);
+      outbox.stop();
+      const failedAt = Date.now();
+      await outbox.flush(failedAt);
+      const retry = outbox.stats().channels.alpha;
+      assert.equal(retry.attempts, 1);
+      assert.equal(retry.depth, 1);
+      assert.ok(retry.nextAttemptAt !== null);
+      assert.ok(retry.nextAttemptAt >= failedAt + 500 && retry.nextAttemptAt <= Date.now() + 1_000);
+
+      await outbox.flush(retry.nextAttemptAt - 1);
+      assert.equal(deliveries.length, 1, "nothing is sent before the backoff elapses");
+
+      await outbox.flush(retry.nextAttemptAt);
+      assert.equal(deliveries.length, 2);
+      const stats = outbox.stats();
+      assert.equal(stats.queueDepth, 0);
+      assert.deepEqual(stats.dropped, { superseded: 0, overflow: 0, rejected: 1 });
+      assert.equal(stats.channels.alpha.attempts, 0);
+
+      outbox.enqueue("alpha", [update("chat", "c2")]);
+      outbox.stop();
+      await outbox.flush();
+      assert.equal(outbox.stats().channels.alpha.depth, 1, "a thrown delivery is retried");
+      assert.equal(outbox.stats().failedAttempts, 2);
+    });
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import {
+  LIVE_FEED_MAX_SKEW_MS,
+  LIVE_FEED_SIGNATURE_HEADER,
+  LIVE_FEED_TIMESTAMP_HEADER,
+  buildSignedLiveFeedRequest,
+  signLiveFeedBody,
+  verifyLiveFeedRequest,
+} from "../src/lib/live-feed-signature";
+import { runSuite, runTest } from "./lib/harness";
+
+const SECRET = "live-feed-secret";
+const NOW = Date.parse("2026-03-14T19:00:00.000Z");
+
+/** Signs `rawBody` as-is so tests can hand the verifier bodies the worker would never build. */
+function signed(rawBody: string, timestamp = NOW) {
+  return {
+    secret: SECRET,
+    rawBody,
+    timestampHeader: String(timestamp),
+    signatureHeader: signLiveFeedBody(SECRET, timestamp, rawBody),
+    now: NOW,
+  };
+}
+
+async function main() {
+  await runTest("a request built by the worker verifies", () => {
+    const { body, headers } = buildSignedLiveFeedRequest(SECRET, { channel: "alpha", updates: [] }, NOW);
+    const result = verifyLiveFeedRequest({
+      secret: SECRET,
+      rawBody: body,
+      timestampHeader: headers[LIVE_FEED_TIMESTAMP_HEADER],
+      signatureHeader: headers[LIVE_FEED_SIGNATURE_HEADER],
+      now: NOW,
+    });
+    assert.ok(result.ok);
+    assert.equal(result.body.channel, "alpha");
+    assert.equal(result.timestamp, NOW);
+    assert.equal(result.nonce, JSON.parse(body).nonce);
+  });
+
+  await runTest("timestamps outside the allowed skew are expired", () => {
+    const rawBody = JSON.stringify({ nonce: "nonce-0001" });
+    assert.equal(verifyLiveFeedRequest(signed(rawBody, NOW - LIVE_FEED_MAX_SKEW_MS)).ok, true);
+    assert.deepEqual(verifyLiveFeedRequest(signed(rawBody, NOW - LIVE_FEED_MAX_SKEW_MS - 1)), {
+      ok: false,
+      reason: "expired",
+    });
+    assert.deepEqual(verifyLiveFeedRequest(signed(rawBody, NOW + LIVE_FEED_MAX_SKEW_MS + 1)), {
+      ok: false,
+      reason: "expired",
+    });
+    assert.deepEqual(verifyLiveFeedRequest({ ...signed(rawBody), timestampHeader: "yesterday" }), {
+      ok: false,
+      reason: "expired",
+    });
+  });
+
+  await runTest("missing headers and bad signatures are rejected", () => {
+    const request = signed(JSON.stringify({ nonce: "nonce-0001" }));
+    assert.deepEqual(verifyLiveFeedRequest({ ...request, signatureHeader: null }), {
+      ok: false,
+      reason: "missing_signature",
+    });
+    assert.deepEqual(verifyLiveFeedRequest({ ...request, timestampHeader: null }), {
+      ok: false,
+      reason: "missing_signature",
+    });
+
+    const badSignature = { ok: false, reason: "bad_signature" };
+    assert.deepEqual(verifyLiveFeedRequest({ ...request, secret: "other-secret" }), badSignature);
+    assert.deepEqual(
+      verifyLiveFeedRequest({ ...request, rawBody: JSON.stringify({ nonce: "nonce-0002" }) }),
+      badSignature,
+      "the body was changed after signing"
+    );
+    assert.deepEqual(
+      verifyLiveFeedRequest({ ...request, timestampHeader: String(NOW - 1) }),
+      badSignature,
+      "the timestamp is part of the signature"
+    );
+    assert.deepEqual(verifyLiveFeedRequest({ ...request, signatureHeader: "v1=abc" }), badSignature);
+  });
+
+  await runTest("signed bodies that aren't an object with a nonce are invalid", () => {
+    for (const rawBody of [
+      "not json",
+      JSON.stringify([{ nonce: "nonce-0001" }]),
+      JSON.stringify(null),
+      JSON.stringify({ channel: "alpha" }),
+      JSON.stringify({ nonce: "short" }),
+      JSON.stringify({ nonce: 12345678 }),
+    ]) {
+      assert.deepEqual(verifyLiveFeedRequest(signed(rawBody)), { ok: false, reason: "invalid_body" }, rawBody);
+    }
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import {
+  applyRoomState,
+  describeAnnotation,
+  diffRoomState,
+  parseClearChat,
+  parseClearMsg,
+} from "../src/lib/twitch/moderation";
+import { runSuite, runTest } from "./lib/harness";
+
+const SENT_AT = Date.parse("2026-03-14T19:00:00.000Z");
+
+async function main() {
+  await runTest("CLEARMSG needs a target message id", () => {
+    assert.deepEqual(
+      parseClearMsg({ "target-msg-id": "msg-1", login: "viewer", "tmi-sent-ts": String(SENT_AT) }),
+      { type: "delete", messageId: "msg-1", login: "viewer", occurredAt: SENT_AT }
+    );
+    assert.equal(parseClearMsg({ login: "viewer" }), null);
+  });
+
+  await runTest("CLEARCHAT tells timeouts, bans and /clear apart", () => {
+    const tags = { "target-user-id": "42", "tmi-sent-ts": String(SENT_AT) };
+    assert.deepEqual(parseClearChat({ ...tags, "ban-duration": "600" }, " Viewer "), {
+      type: "timeout",
+      targetUserId: "42",
+      targetLogin: "viewer",
+      durationSeconds: 600,
+      occurredAt: SENT_AT,
+    });
+    const ban = parseClearChat(tags, "viewer");
+    assert.equal(ban.type, "ban");
+    assert.deepEqual(parseClearChat(tags, null), { type: "clear", occurredAt: SENT_AT });
+  });
+
+  await runTest("ROOMSTATE updates keep modes that weren't mentioned", () => {
+    const joined = applyRoomState(null, {
+      slow: "0",
+      "emote-only": "0",
+      "followers-only": "-1",
+      "subs-only": "0",
+      r9k: "0",
+    });
+    assert.deepEqual(diffRoomState(null, joined), []);
+
+    const slowed = applyRoomState(joined, { slow: "30" });
+    const followers = applyRoomState(slowed, { "followers-only": "10", "emote-only": true });
+    assert.deepEqual(followers, {
+      slowSeconds: 30,
+      emoteOnly: true,
+      followersOnlyMinutes: 10,
+      subsOnly: false,
+      uniqueChat: false,
+    });
+    assert.deepEqual(diffRoomState(slowed, followers), [
+      { kind: "emote-only", enabled: true, value: null },
+      { kind: "followers-only", enabled: true, value: 10 },
+    ]);
+    assert.deepEqual(diffRoomState(joined, slowed), [
+      { kind: "slow-mode", enabled: true, value: 30 },
+    ]);
+    assert.deepEqual(diffRoomState(followers, applyRoomState(followers, { slow: "0" })), [
+      { kind: "slow-mode", enabled: false, value: null },
+    ]);
+  });
+
+  await runTest("annotations describe the new mode", () => {
+    assert.deepEqual(describeAnnotation({ kind: "slow-mode", enabled: true, value: 30 }), {
+      title: "Slow mode on",
+      detail: "Viewers can send one message every 30s.",
+    });
+    assert.equal(
+      describeAnnotation({ kind: "followers-only", enabled: false, value: null }).title,
+      "Followers-only mode off"
+    );
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { TwitchGlobalEmotes } from "../worker/src/twitch-global-emotes";
+import { runSuite, runTest } from "./lib/harness";
+
+/** Answers Helix by bearer token: "expired" is rejected, anything else gets the fixture pages. */
+function stubHelixFetch() {
+  const tokens: string[] = [];
+  const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+    const token = String((init?.headers as Record<string, string>).Authorization).replace("Bearer ", "");
+    tokens.push(token);
+    if (token === "expired") {
+      return new Response(JSON.stringify({ message: "Invalid OAuth token" }), { status: 401 });
+    }
+    const after = new URL(String(input)).searchParams.get("after");
+    const body = after
+      ? { data: [{ id: "25", name: "Kappa" }] }
+      : { data: [{ id: "354", name: "4Head" }], pagination: { cursor: "page-2" } };
+    return new Response(JSON.stringify(body), { status: 200 });
+  }) as typeof fetch;
+  return { fetchImpl, tokens };
+}
+
+async function quietly<T>(run: () => Promise<T>) {
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    return await run();
+  } finally {
+    console.warn = originalWarn;
+  }
+}
+
+async function main() {
+  await runTest("loads every page once for the whole process", async () => {
+    const { fetchImpl, tokens } = stubHelixFetch();
+    const emotes = new TwitchGlobalEmotes({ clientId: "client-123", fetch: fetchImpl });
+    assert.equal(await emotes.ensureLoaded("token-a", "alpha"), "loaded");
+    assert.equal(await emotes.ensureLoaded("token-b", "bravo"), "loaded");
+    assert.deepEqual(tokens, ["token-a", "token-a"]);
+    assert.equal(emotes.resolveId("kappa"), "25");
+    assert.equal(emotes.resolveId("4HEAD"), "354");
+    assert.equal(emotes.resolveId("PogChamp"), null);
+  });
+
+  await runTest("one channel's rejected token doesn't block the others", async () => {
+    const { fetchImpl, tokens } = stubHelixFetch();
+    const emotes = new TwitchGlobalEmotes({ clientId: "client-123", fetch: fetchImpl });
+    const [alpha, bravo] = await quietly(() =>
+      Promise.all([emotes.ensureLoaded("expired", "alpha"), emotes.ensureLoaded("token-b", "bravo")])
+    );
+    assert.equal(alpha, "unauthorized");
+    assert.equal(bravo, "loaded", "bravo retried with its own token after alpha's load failed");
+    assert.deepEqual(tokens, ["expired", "token-b", "token-b"]);
+    assert.equal(emotes.isLoaded, true);
+  });
+}
+
+runSuite(main);
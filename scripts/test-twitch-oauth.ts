@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import {
+  TWITCH_REVOKE_URL,
+  TWITCH_VALIDATE_URL,
+  createTwitchOAuthClient,
+  revokeTwitchTokens,
+  validateTwitchToken,
+} from "../src/lib/twitch/oauth";
+import { runSuite, runTest } from "./lib/harness";
+
+/** Answers revocations by token instead of calling id.twitch.tv. */
+function stubRevokeFetch(responses: Record<string, { status: number; body?: string } | Error>) {
+  const requests: Array<{ url: string; clientId: string | null; token: string | null }> = [];
+  const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+    const params = new URLSearchParams(String(init?.body ?? ""));
+    const token = params.get("token");
+    requests.push({ url: String(input), clientId: params.get("client_id"), token });
+    const response = token ? responses[token] : undefined;
+    assert.ok(response, `unexpected revocation for ${token}`);
+    if (response instanceof Error) {
+      throw response;
+    }
+    return new Response(response.body ?? "", { status: response.status });
+  }) as typeof fetch;
+  return { fetchImpl, requests };
+}
+
+async function main() {
+  await runTest("revokes with the client id as a form POST", async () => {
+    const { fetchImpl, requests } = stubRevokeFetch({ access: { status: 200 } });
+    const client = createTwitchOAuthClient({ clientId: "client-123", fetch: fetchImpl });
+    assert.deepEqual(await client.revokeToken("access"), { ok: true, outcome: "revoked" });
+    assert.deepEqual(requests, [{ url: TWITCH_REVOKE_URL, clientId: "client-123", token: "access" }]);
+  });
+
+  await runTest("an already invalid token counts as revoked", async () => {
+    const { fetchImpl } = stubRevokeFetch({
+      stale: { status: 400, body: JSON.stringify({ status: 400, message: "Invalid token" }) },
+    });
+    const client = createTwitchOAuthClient({ clientId: "client-123", fetch: fetchImpl });
+    assert.deepEqual(await client.revokeToken("stale"), { ok: true, outcome: "already_invalid" });
+  });
+
+  await runTest("other failures are reported, not thrown", async () => {
+    const { fetchImpl } = stubRevokeFetch({
+      mismatch: { status: 400, body: JSON.stringify({ status: 400, message: "Invalid client id" }) },
+      down: { status: 503, body: "unavailable" },
+      offline: new Error("getaddrinfo ENOTFOUND id.twitch.tv"),
+    });
+    const client = createTwitchOAuthClient({ clientId: "client-123", fetch: fetchImpl });
+    const mismatch = await client.revokeToken("mismatch");
+    assert.equal(mismatch.ok, false);
+    assert.equal(!mismatch.ok && mismatch.status, 400);
+    assert.deepEqual(await client.revokeToken("down"), {
+      ok: false,
+      status: 503,
+      message: "unavailable",
+    });
+    assert.deepEqual(await client.revokeToken("offline"), {
+      ok: false,
+      status: null,
+      message: "getaddrinfo ENOTFOUND id.twitch.tv",
+    });
+  });
+
+  await runTest("revokes each stored token once and collects failures", async () => {
+    const { fetchImpl, requests } = stubRevokeFetch({
+      access: { status: 200 },
+      refresh: { status: 503, body: "unavailable" },
+    });
+    const client = createTwitchOAuthClient({ clientId: "client-123", fetch: fetchImpl });
+    const result = await revokeTwitchTokens(client, ["access", "refresh", "access", ""]);
+    assert.equal(result.ok, false);
+    assert.equal(result.failures.length, 1);
+    assert.deepEqual(
+      requests.map((request) => request.token),
+      ["access", "refresh"]
+    );
+    assert.deepEqual(await revokeTwitchTokens(client, []), { ok: true, failures: [] });
+  });
+
+  await runTest("validation tells a live token from a revoked one", async () => {
+    const requests: Array<{ url: string; authorization: string }> = [];
+    const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+      const authorization = String((init?.headers as Record<string, string>).Authorization);
+      requests.push({ url: String(input), authorization });
+      if (authorization === "OAuth revoked") {
+        return new Response(JSON.stringify({ status: 401, message: "invalid access token" }), {
+          status: 401,
+        });
+      }
+      return new Response(
+        JSON.stringify({ client_id: "client-123", login: "alpha", user_id: "1001", expires_in: 3600 }),
+        { status: 200 }
+      );
+    }) as typeof fetch;
+
+    assert.deepEqual(await validateTwitchToken("live", { fetch: fetchImpl }), {
+      ok: true,
+      userId: "1001",
+      login: "alpha",
+      expiresIn: 3600,
+    });
+    const revoked = await validateTwitchToken("revoked", { fetch: fetchImpl });
+    assert.equal(revoked.ok, false);
+    assert.equal(!revoked.ok && revoked.status, 401);
+    assert.deepEqual(requests[0], { url: TWITCH_VALIDATE_URL, authorization: "OAuth live" });
+
+    const offline = (async () => {
+      throw new Error("getaddrinfo ENOTFOUND id.twitch.tv");
+    }) as typeof fetch;
+    assert.deepEqual(await validateTwitchToken("live", { fetch: offline }), {
+      ok: false,
+      status: null,
+      message: "getaddrinfo ENOTFOUND id.twitch.tv",
+    });
+  });
+}
+
+runSuite(main);
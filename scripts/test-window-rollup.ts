@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import {
+  WINDOW_LATE_RETENTION_MS,
+  WINDOW_MS,
+  WindowRollup,
+  type WindowRecord,
+} from "../worker/src/window-rollup";
+import { runSuite, runTest } from "./lib/harness";
+
+// Aligned to a window boundary so offsets below land where they say.
+const START = Math.floor(Date.parse("2026-03-14T19:00:00.000Z") / WINDOW_MS) * WINDOW_MS;
+
+function record(offsetMs: number, authorHash: string, text = "hype"): WindowRecord {
+  return {
+    timestamp: START + offsetMs,
+    authorHash,
+    tokens: text.split(" "),
+    emotes: [],
+    sentiment: 0.5,
+  };
+}
+
+async function main() {
+  await runTest("windows close after the grace period with their summaries", () => {
+    const rollup = new WindowRollup();
+    rollup.add(record(100, "a", "gg wp"));
+    rollup.add(record(2_000, "b", "gg"));
+    rollup.add(record(WINDOW_MS + 100, "a"));
+
+    assert.deepEqual(rollup.closeExpired(START + WINDOW_MS), [], "still inside the grace period");
+    const [first, ...rest] = rollup.closeExpired(START + WINDOW_MS + 1_000);
+    assert.equal(rest.length, 0);
+    assert.equal(first.windowStart, START);
+    assert.equal(first.messageCount, 2);
+    assert.equal(first.uniqueChatters, 2);
+    assert.deepEqual(first.topTokens[0], { token: "gg", count: 2 });
+    assert.equal(first.sentimentLabel, "positive");
+    assert.equal(rollup.uniqueChatters, 2);
+  });
+
+  await runTest("a delayed YouTube batch reopens and re-emits closed windows", () => {
+    const rollup = new WindowRollup();
+    rollup.add(record(500, "twitch-a"));
+    rollup.add(record(WINDOW_MS + 500, "twitch-b"));
+    const onTime = rollup.closeExpired(START + 2 * WINDOW_MS + 1_000);
+    assert.deepEqual(
+      onTime.map((window) => window.messageCount),
+      [1, 1]
+    );
+
+    // One poll later: lines sent 8-11s ago, into both closed windows and one
+    // that had no Twitch chat at all.
+    rollup.add(record(1_000, "youtube-a"));
+    rollup.add(record(WINDOW_MS + 1_000, "youtube-b"));
+    rollup.add(record(WINDOW_MS + 2_000, "youtube-c"));
+    rollup.add(record(2 * WINDOW_MS + 500, "youtube-a"));
+    const late = rollup.closeExpired(START + 3 * WINDOW_MS + 1_000);
+    assert.deepEqual(
+      late.map((window) => [window.windowStart - START, window.messageCount, window.uniqueChatters]),
+      [
+        [0, 2, 2],
+        [WINDOW_MS, 3, 3],
+        [2 * WINDOW_MS, 1, 1],
+      ]
+    );
+    assert.equal(rollup.uniqueChatters, 5);
+  });
+
+  await runTest("lines older than the retention span are dropped", () => {
+    const rollup = new WindowRollup();
+    rollup.add(record(0, "a"));
+    const later = WINDOW_LATE_RETENTION_MS + 2 * WINDOW_MS;
+    rollup.add(record(later, "b"));
+    rollup.closeAll();
+
+    rollup.add(record(100, "late"));
+    assert.deepEqual(rollup.closeAll(), []);
+    assert.equal(rollup.uniqueChatters, 2);
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { MetricsRegistry } from "../worker/src/metrics-registry";
+import { startObservabilityServer, type HealthReport } from "../worker/src/observability-server";
+import { runSuite, runTest } from "./lib/harness";
+
+async function main() {
+  await runTest("renders counters, gauges and cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const events = registry.counter("test_events_total", "Events.");
+    const depth = registry.gauge("test_depth", "Depth.");
+    const latency = registry.histogram("test_latency_seconds", "Latency.", [0.1, 1]);
+
+    events.inc({ channel: "alpha", event: "message" });
+    events.inc({ event: "message", channel: "alpha" }, 2);
+    depth.set({ channel: 'we"ird\\name' }, 4);
+    latency.observe({ channel: "alpha" }, 0.05);
+    latency.observe({ channel: "alpha" }, 0.5);
+    latency.observe({ channel: "alpha" }, 3);
+
+    assert.equal(
+      registry.render(),
+      [
+        "# HELP test_events_total Events.",
+        "# TYPE test_events_total counter",
+        'test_events_total{channel="alpha",event="message"} 3',
+        "# HELP test_depth Depth.",
+        "# TYPE test_depth gauge",
+        'test_depth{channel="we\\"ird\\\\name"} 4',
+        "# HELP test_latency_seconds Latency.",
+        "# TYPE test_latency_seconds histogram",
+        'test_latency_seconds_bucket{channel="alpha",le="0.1"} 1',
+        'test_latency_seconds_bucket{channel="alpha",le="1"} 2',
+        'test_latency_seconds_bucket{channel="alpha",le="+Inf"} 3',
+        'test_latency_seconds_sum{channel="alpha"} 3.55',
+        'test_latency_seconds_count{channel="alpha"} 3',
+        "",
+      ].join("\n")
+    );
+  });
+
+  await runTest("time() records outcome and forget() drops a channel", async () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram("test_call_seconds", "Calls.");
+    let collected = 0;
+    const stopCollecting = registry.onCollect(() => {
+      collected += 1;
+    });
+
+    await latency.time({ channel: "alpha" }, async () => "done");
+    await assert.rejects(latency.time({ channel: "beta" }, async () => Promise.reject(new Error("nope"))));
+
+    const output = registry.render();
+    assert.match(output, /test_call_seconds_count\{channel="alpha",outcome="ok"\} 1/);
+    assert.match(output, /test_call_seconds_count\{channel="beta",outcome="error"\} 1/);
+
+    registry.forget({ channel: "alpha" });
+    stopCollecting();
+    const after = registry.render();
+    assert.doesNotMatch(after, /channel="alpha"/);
+    assert.match(after, /channel="beta"/);
+    assert.equal(collected, 1, "removed collectors no longer run");
+  });
+
+  await runTest("serves /metrics behind a token and /healthz by lifecycle", async () => {
+    const registry = new MetricsRegistry();
+    registry.counter("test_up_total", "Up.").inc();
+    let report: HealthReport = { status: "starting" };
+    const server = await startObservabilityServer({
+      port: 0,
+      host: "127.0.0.1",
+      registry,
+      health: () => report,
+      metricsToken: "s3cret",
+    });
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      assert.equal((await fetch(`${base}/metrics`)).status, 401);
+      const metrics = await fetch(`${base}/metrics`, { headers: { Authorization: "Bearer s3cret" } });
+      assert.equal(metrics.status, 200);
+      assert.match(metrics.headers.get("content-type") ?? "", /^text\/plain; version=0\.0\.4/);
+      assert.match(await metrics.text(), /^test_up_total 1$/m);
+
+      assert.equal((await fetch(`${base}/healthz`)).status, 503);
+      report = { status: "degraded", channels: { parked: 1 } };
+      const healthz = await fetch(`${base}/healthz`);
+      assert.equal(healthz.status, 200, "a parked channel should not restart the worker");
+      assert.deepEqual(await healthz.json(), report);
+
+      assert.equal((await fetch(`${base}/nope`)).status, 404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+}
+
+runSuite(main);
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { ensureWorkspace } from "../convex/helpers/workspace";
+import { createFakeDb } from "./lib/fake-convex";
+import { runSuite, runTest } from "./lib/harness";
+
+const CHANNEL = {
+  identityKeys: ["user_123", "twitch:alpha"],
+  channelId: "1001",
+  channelLogin: "alpha",
+  channelDisplayName: "Alpha",
+};
+
+async function linkedWorkspace() {
+  const fake = createFakeDb();
+  // The first link logs the new owner; keep the test output to ok/not ok lines.
+  const originalInfo = console.info;
+  console.info = () => {};
+  try {
+    const linked = await ensureWorkspace(fake.ctx, { ...CHANNEL, now: 1_000 });
+    return { ...fake, integrationId: linked.integrationId };
+  } finally {
+    console.info = originalInfo;
+  }
+}
+
+async function main() {
+  await runTest("a page render leaves a revoked or disconnected channel alone", async () => {
+    for (const status of ["revoked", "disconnected"] as const) {
+      const { ctx, integrationId } = await linkedWorkspace();
+      await ctx.db.patch(integrationId, { status, disconnectedAt: 2_000 });
+
+      const result = await ensureWorkspace(ctx, { ...CHANNEL, now: 3_000 });
+      assert.equal(result.connected, false, status);
+      const integration = await ctx.db.get(integrationId);
+      assert.equal(integration?.status, status);
+      assert.equal(integration?.disconnectedAt, 2_000);
+    }
+  });
+
+  await runTest("an explicit reconnect revives the same integration", async () => {
+    const { ctx, integrationId, rows } = await linkedWorkspace();
+    await ctx.db.patch(integrationId, { status: "revoked", disconnectedAt: 2_000 });
+
+    const result = await ensureWorkspace(ctx, { ...CHANNEL, reconnect: true, now: 3_000 });
+    assert.equal(result.connected, true);
+    assert.equal(result.integrationId, integrationId);
+    const integration = await ctx.db.get(integrationId);
+    assert.equal(integration?.status, "connected");
+    assert.equal(integration?.connectedAt, 3_000);
+    assert.equal(integration?.disconnectedAt, undefined);
+    assert.equal(rows("integrations").length, 1);
+  });
+}
+
+runSuite(main);
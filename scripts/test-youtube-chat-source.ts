@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  extractShortcodeEmotes,
+  isLiveChatEndedError,
+  parseActiveLiveChatId,
+  parseLiveChatPage,
+  parseLiveVideoId,
+} from "../src/lib/youtube/live-chat";
+import type { ChatSourceHandlers, ChatSourceMessage } from "../worker/src/chat-source";
+import { YouTubeChatSource } from "../worker/src/youtube-chat-source";
+import { runSuite, runTest } from "./lib/harness";
+
+const FIXTURES = path.join(process.cwd(), "scripts/fixtures/youtube");
+const LIVE_CHAT_ID = "KicKGFVDRXhSeW1oVGhHazdDcDlyZjhza1Y1QRILTWhWWWZOTmtqV1Jr";
+
+function fixture(name: string): unknown {
+  return JSON.parse(readFileSync(path.join(FIXTURES, name), "utf8"));
+}
+
+/** Serves fixtures by API resource instead of hitting googleapis.com. */
+function stubFetch(routes: Record<string, { status: number; body: unknown }>) {
+  const original = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const resource = url.pathname.replace("/youtube/v3/", "");
+    requested.push(resource);
+    const route = routes[resource];
+    assert.ok(route, `unexpected request to ${resource}`);
+    return new Response(JSON.stringify(route.body), { status: route.status });
+  }) as typeof fetch;
+  return {
+    requested,
+    restore: () => {
+      globalThis.fetch = original;
+    },
+  };
+}
+
+async function main() {
+  await runTest("parses chat messages, super chats, badges and emotes", () => {
+    const page = parseLiveChatPage(fixture("live-chat-page.json"));
+    assert.equal(page.nextPageToken, "GO3yw6Gq1YgDELvs0ZKr1YgD");
+    assert.equal(page.pollingIntervalMillis, 5116);
+    assert.equal(page.ended, false);
+    assert.deepEqual(
+      page.messages.map((message) => [message.authorDisplay, message.text]),
+      [
+        ["pixelmoth", "hello from youtube :hand-pink-waving:"],
+        ["StreamerPulse Demo", "welcome in everyone"],
+        ["Lantern Fox", "great run so far"],
+        ["cheap views 4u", "buy followers at spam dot example"],
+      ],
+      "super chats without a comment and mode changes are not chat lines"
+    );
+
+    const [member, owner] = page.messages;
+    assert.equal(member.authorId, "youtube:UCq5vSxhPvZ0Xz9m1dn7xNtw");
+    assert.equal(member.authorLogin, "pixelmoth");
+    assert.equal(member.timestamp, Date.parse("2026-03-14T19:02:11.482Z"));
+    assert.deepEqual(member.badges, ["subscriber"]);
+    assert.deepEqual(owner.badges, ["broadcaster", "verified"]);
+    assert.deepEqual(member.emotes, [
+      { code: ":hand-pink-waving:", id: null, imageUrl: null, start: 19, end: 36 },
+    ]);
+  });
+
+  await runTest("maps deletions and timeouts onto moderation actions", () => {
+    const page = parseLiveChatPage(fixture("live-chat-page.json"));
+    assert.deepEqual(page.moderation, [
+      {
+        type: "delete",
+        messageId:
+          "LCC.CjgKDQoLbXZZZk5Oa2pXUmsqJwoYVUNrMWJ6ZE5wYkJ4cU9VbTlHeTFKYmRREgtNaFZZZk5Oa2pXUms",
+        login: null,
+        occurredAt: Date.parse("2026-03-14T19:02:20.001Z"),
+      },
+      {
+        type: "timeout",
+        targetUserId: "youtube:UCk1bzdNpbBxqOUm9Gy1JbdQ",
+        targetLogin: "cheap views 4u",
+        durationSeconds: 300,
+        occurredAt: Date.parse("2026-03-14T19:02:20.450Z"),
+      },
+    ]);
+    const spammer = page.messages.find((message) => message.text.startsWith("buy followers"));
+    const timeout = page.moderation[1];
+    assert.equal(timeout.type === "timeout" && timeout.targetUserId, spammer?.authorId);
+  });
+
+  await runTest("detects the end of a chat", () => {
+    const page = parseLiveChatPage(fixture("live-chat-ended.json"));
+    assert.equal(page.ended, true);
+    assert.equal(page.messages.length, 0);
+    assert.equal(isLiveChatEndedError(fixture("live-chat-ended-error.json")), true);
+    assert.equal(isLiveChatEndedError(fixture("quota-exceeded-error.json")), false);
+  });
+
+  await runTest("resolves the live chat id from search and videos responses", () => {
+    assert.equal(parseLiveVideoId(fixture("search-live.json")), "MhVYfNNkjWRk");
+    assert.equal(parseLiveVideoId({ items: [] }), null);
+    assert.equal(parseActiveLiveChatId(fixture("videos-live.json")), LIVE_CHAT_ID);
+    assert.equal(parseActiveLiveChatId(fixture("videos-ended.json")), null);
+  });
+
+  await runTest("shortcodes need a leading letter or underscore", () => {
+    assert.deepEqual(
+      extractShortcodeEmotes("at 12:30:45 :_pulseHype: :yt:").map((emote) => emote.code),
+      [":_pulseHype:", ":yt:"]
+    );
+  });
+
+  await runTest("source resolves the broadcast and reports a closed chat", async () => {
+    const fetchStub = stubFetch({
+      search: { status: 200, body: fixture("search-live.json") },
+      videos: { status: 200, body: fixture("videos-live.json") },
+      "liveChat/messages": { status: 403, body: fixture("live-chat-ended-error.json") },
+    });
+    const received: ChatSourceMessage[] = [];
+    const events: string[] = [];
+    const source = new YouTubeChatSource({
+      channel: "pulsechannel",
+      apiKey: "test-key",
+      youtubeChannelId: "UCDxOngrqbMjCgLmxYfuVWwg",
+    });
+
+    try {
+      await new Promise<void>((resolve) => {
+        const handlers: ChatSourceHandlers = {
+          connected: () => {
+            events.push("connected");
+          },
+          disconnected: () => {
+            events.push("disconnected");
+            resolve();
+          },
+          message: (message) => {
+            received.push(message);
+          },
+          moderation: () => {},
+        };
+        void source.connect(handlers);
+      });
+    } finally {
+      await source.disconnect();
+      fetchStub.restore();
+    }
+
+    assert.deepEqual(fetchStub.requested, ["search", "videos", "liveChat/messages"]);
+    assert.deepEqual(events, ["connected", "disconnected"]);
+    assert.equal(received.length, 0);
+  });
+}
+
+runSuite(main);
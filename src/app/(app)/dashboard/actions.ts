@@ -0,0 +1,28 @@
+'use server';
+
+import { auth } from "@clerk/nextjs/server";
+import { fetchMutation } from "convex/nextjs";
+import { api } from "../../../../convex/_generated/api";
+import { readEnv } from "@/lib/env";
+
+export async function setListening(listening: boolean) {
+  const { userId } = await auth();
+  if (!userId) {
+    return { ok: false as const, error: "Sign in to control listening." };
+  }
+
+  try {
+    const result = await fetchMutation(api.listening.setListening, {
+      clerkUserId: userId,
+      listening,
+      secret: readEnv().CONVEX_WORKSPACE_SECRET,
+    });
+    return { ok: true as const, listening: result.listening, requestedAt: result.requestedAt };
+  } catch (error) {
+    console.error("[dashboard] Failed to set listening state", error);
+    return {
+      ok: false as const,
+      error: listening ? "We couldn't start listening." : "We couldn't stop listening.",
+    };
+  }
+}
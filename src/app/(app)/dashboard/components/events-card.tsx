@@ -7,8 +7,18 @@ type EventItem = {
 
 type EventsCardProps = {
   events: EventItem[];
+  title?: string;
+  description?: string;
+  emptyLabel?: string;
+  timestampMode?: "relative" | "absolute";
 };
 
+const absoluteTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
 function formatRelativeTime(timestamp: number) {
   const diff = Date.now() - timestamp;
   const minutes = Math.floor(diff / 60000);
@@ -32,15 +42,19 @@ function formatRelativeTime(timestamp: number) {
   return days === 1 ? "1 day ago" : `${days} days ago`;
 }
 
-export default function EventsCard({ events }: EventsCardProps) {
+export default function EventsCard({
+  events,
+  title = "Events feed",
+  description = "Spike detections and notable shifts will stream here during a broadcast.",
+  emptyLabel,
+  timestampMode = "relative",
+}: EventsCardProps) {
   const hasEvents = events.length > 0;
 
   return (
     <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
-      <h2 className="text-xl font-semibold text-slate-100">Events feed</h2>
-      <p className="mt-1 text-xs text-slate-500">
-        Spike detections and notable shifts will stream here during a broadcast.
-      </p>
+      <h2 className="text-xl font-semibold text-slate-100">{title}</h2>
+      <p className="mt-1 text-xs text-slate-500">{description}</p>
       {hasEvents ? (
         <div className="mt-4 space-y-3">
           {events.map((event) => (
@@ -51,7 +65,9 @@ export default function EventsCard({ events }: EventsCardProps) {
               <div className="flex items-start justify-between gap-3">
                 <p className="text-sm font-medium text-slate-200">{event.title}</p>
                 <span className="text-xs text-slate-500">
-                  {formatRelativeTime(event.timestamp)}
+                  {timestampMode === "absolute"
+                    ? absoluteTimeFormatter.format(new Date(event.timestamp))
+                    : formatRelativeTime(event.timestamp)}
                 </span>
               </div>
               <p className="mt-2 text-xs text-slate-500">{event.detail}</p>
@@ -60,8 +76,12 @@ export default function EventsCard({ events }: EventsCardProps) {
         </div>
       ) : (
         <div className="mt-4 rounded-xl border border-dashed border-slate-800 bg-slate-950/40 p-6 text-xs text-slate-500">
-          No spike events detected yet. We&apos;ll surface emote spikes, sentiment swings,
-          and volume surges here in real time.
+          {emptyLabel ?? (
+            <>
+              No spike events detected yet. We&apos;ll surface emote spikes, sentiment swings,
+              and volume surges here in real time.
+            </>
+          )}
         </div>
       )}
     </div>
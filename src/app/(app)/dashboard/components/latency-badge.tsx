@@ -0,0 +1,33 @@
+import {
+  E2E_LATENCY_TARGET_MS,
+  formatLatency,
+  rateLatency,
+  type LatencySummary,
+} from "@/lib/latency";
+
+const RATING_TONE = {
+  good: "border-emerald-500/40 text-emerald-300",
+  slow: "border-amber-500/40 text-amber-300",
+  poor: "border-rose-500/40 text-rose-300",
+} as const;
+
+type LatencyBadgeProps = {
+  summary: LatencySummary | null;
+};
+
+export default function LatencyBadge({ summary }: LatencyBadgeProps) {
+  if (!summary) {
+    return null;
+  }
+
+  const rating = rateLatency(summary.p95Ms);
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-semibold ${RATING_TONE[rating]}`}
+      title={`Chat send-to-screen latency over the last ${summary.count} messages. Target: p95 under ${formatLatency(E2E_LATENCY_TARGET_MS)}.`}
+    >
+      <span className="text-slate-400">p50</span> {formatLatency(summary.p50Ms)}
+      <span className="text-slate-400">· p95</span> {formatLatency(summary.p95Ms)}
+    </span>
+  );
+}
@@ -0,0 +1,68 @@
+import type { ListeningControlState } from "@/lib/ingestion-health";
+
+export type ListeningToggleProps = {
+  /** The state we asked for: true once Start has been pressed. */
+  target: boolean;
+  /** False until the first toggle, so there is nothing to confirm yet. */
+  requested: boolean;
+  state: ListeningControlState;
+  error?: string | null;
+  onToggle: () => void;
+};
+
+export default function ListeningToggle({
+  target,
+  requested,
+  state,
+  error,
+  onToggle,
+}: ListeningToggleProps) {
+  const label =
+    state === "pending"
+      ? target
+        ? "Starting…"
+        : "Stopping…"
+      : target
+        ? "Stop listening"
+        : "Start listening";
+
+  const detail =
+    state === "pending"
+      ? "Waiting for the ingestion worker…"
+      : state === "failed"
+        ? error ??
+          (target
+            ? "The worker hasn't started listening yet. Try again."
+            : "The worker hasn't stopped listening yet. Try again.")
+        : requested
+          ? target
+            ? "Worker confirmed: listening."
+            : "Worker confirmed: paused."
+          : null;
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={onToggle}
+        disabled={state === "pending"}
+        aria-pressed={target}
+        className={`inline-flex items-center rounded-full border px-4 py-2 text-xs font-semibold transition disabled:cursor-wait disabled:opacity-60 ${
+          target
+            ? "border-rose-500/40 text-rose-200 hover:bg-rose-500/10"
+            : "border-emerald-500/40 text-emerald-200 hover:bg-emerald-500/10"
+        }`}
+      >
+        {label}
+      </button>
+      {detail && (
+        <p
+          role={state === "failed" ? "alert" : "status"}
+          className={`text-xs ${state === "failed" ? "text-rose-300" : "text-slate-500"}`}
+        >
+          {detail}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import Link from "next/link";
-
-type SessionStatus = "idle" | "listening" | "errored";
+import type { SessionStatus } from "@/lib/ingestion-health";
+import type { LatencySummary } from "@/lib/latency";
+import LatencyBadge from "./latency-badge";
+import ListeningToggle, { type ListeningToggleProps } from "./listening-toggle";
 
 type SessionStatusCardProps = {
   status: SessionStatus;
   channel?: string | null;
   startedAt?: number | null;
   ingestionConnected?: boolean;
+  latency?: LatencySummary | null;
+  listening?: ListeningToggleProps | null;
 };
 
 export default function SessionStatusCard({
@@ -14,9 +18,21 @@ export default function SessionStatusCard({
   channel,
   startedAt,
   ingestionConnected = false,
+  latency = null,
+  listening = null,
 }: SessionStatusCardProps) {
+  const paused = listening !== null && !listening.target && status === "idle";
+
   const statusLabel =
-    status === "listening" ? "Live" : status === "errored" ? "Error" : "Idle";
+    status === "listening"
+      ? "Live"
+      : status === "errored"
+        ? "Error"
+        : status === "unreachable"
+          ? "Unreachable"
+          : paused
+            ? "Paused"
+            : "Idle";
 
   const heading =
     status === "listening"
@@ -25,16 +41,22 @@ export default function SessionStatusCard({
         : "Monitoring active"
       : status === "errored"
         ? "Connection issue"
-        : channel
-          ? `${channel} is ready`
-          : "Channel disconnected";
+        : status === "unreachable"
+          ? "Ingestion worker unreachable"
+          : channel
+            ? `${channel} is ready`
+            : "Channel disconnected";
 
   const description =
     status === "listening"
       ? "Metrics are updating in real time. Stop the session when your broadcast ends."
       : status === "errored"
         ? "We lost connection to Twitch. We will retry automatically, or you can reconnect in Settings."
-        : "Connect Twitch to start monitoring. We watch your channel in real time and update these metrics every few seconds.";
+        : status === "unreachable"
+          ? "The ingestion worker has stopped checking in. Your stream may still be live; metrics resume once the worker is back."
+          : paused
+            ? "Listening is paused. Start listening to resume ingestion for your channel."
+            : "Connect Twitch to start monitoring. We watch your channel in real time and update these metrics every few seconds.";
 
   const startedLabel =
     status === "listening" && startedAt
@@ -59,17 +81,23 @@ export default function SessionStatusCard({
             )}
           </div>
         </div>
-        <span
-          className={`inline-flex h-10 items-center rounded-full border border-slate-800 px-4 text-xs font-semibold ${
-            status === "listening"
-              ? "text-emerald-300"
-              : status === "errored"
-                ? "text-rose-300"
-                : "text-slate-400"
-          }`}
-        >
-          {statusLabel}
-        </span>
+        <div className="flex flex-col items-end gap-2">
+          <span
+            className={`inline-flex h-10 items-center rounded-full border border-slate-800 px-4 text-xs font-semibold ${
+              status === "listening"
+                ? "text-emerald-300"
+                : status === "errored"
+                  ? "text-rose-300"
+                  : status === "unreachable"
+                    ? "text-amber-300"
+                    : "text-slate-400"
+            }`}
+          >
+            {statusLabel}
+          </span>
+          {status === "listening" && <LatencyBadge summary={latency} />}
+          {listening && <ListeningToggle {...listening} />}
+        </div>
       </div>
 
       <div className="mt-6 grid gap-3 text-sm">
@@ -81,9 +109,11 @@ export default function SessionStatusCard({
           to connect it.
         </p>
         <p className="text-xs text-slate-500">
-          {ingestionConnected
-            ? "Ingestion worker is connected and relaying live chat events."
-            : "Waiting for the ingestion worker to connect to your Twitch channel."}
+          {status === "unreachable"
+            ? "No heartbeat from the ingestion worker in the last minute."
+            : ingestionConnected
+              ? "Ingestion worker is connected and relaying live chat events."
+              : "Waiting for the ingestion worker to connect to your Twitch channel."}
         </p>
       </div>
     </div>
@@ -1,36 +1,97 @@
 type TimelinePoint = {
   timestamp: number;
   velocity: number;
+  sentiment?: number | null;
+};
+
+type TimelineMarker = {
+  id: string;
+  start: number;
+  end: number;
+  label?: string;
 };
 
 type TimelineCardProps = {
   points: TimelinePoint[];
+  markers?: TimelineMarker[];
+  selectedTimestamp?: number | null;
+  title?: string;
+  description?: string;
+  rangeLabel?: string;
 };
 
-export default function TimelineCard({ points }: TimelineCardProps) {
+const CHART_LEFT = 20;
+const CHART_WIDTH = 360;
+const CHART_BOTTOM = 150;
+const CHART_HEIGHT = 110;
+
+export default function TimelineCard({
+  points,
+  markers = [],
+  selectedTimestamp = null,
+  title = "Message velocity",
+  description = "Synthetic preview of messages per minute with sentiment overlay.",
+  rangeLabel = "Last 10 minutes",
+}: TimelineCardProps) {
   const hasPoints = points.length > 0;
   const maxVelocity =
     points.reduce((max, point) => (point.velocity > max ? point.velocity : max), 0) ||
     1;
+  const firstTimestamp = hasPoints ? points[0].timestamp : 0;
+  const lastTimestamp = hasPoints ? points[points.length - 1].timestamp : 0;
+  const span = lastTimestamp - firstTimestamp;
+
+  const toX = (timestamp: number, idx: number) => {
+    const progress =
+      span > 0
+        ? (timestamp - firstTimestamp) / span
+        : points.length > 1
+          ? idx / (points.length - 1)
+          : 0;
+    return CHART_LEFT + Math.min(Math.max(progress, 0), 1) * CHART_WIDTH;
+  };
+
   const coordinates = hasPoints
     ? points.map((point, idx) => {
-        const progress = points.length > 1 ? idx / (points.length - 1) : 0;
-        const x = 20 + progress * 360;
-        const y = 150 - (point.velocity / maxVelocity) * 110;
+        const x = toX(point.timestamp, idx);
+        const y = CHART_BOTTOM - (point.velocity / maxVelocity) * CHART_HEIGHT;
         return { x, y };
       })
     : [];
 
+  const sentimentCoordinates = points
+    .map((point, idx) =>
+      typeof point.sentiment === "number"
+        ? {
+            x: toX(point.timestamp, idx),
+            y: CHART_BOTTOM - ((point.sentiment + 1) / 2) * CHART_HEIGHT,
+          }
+        : null
+    )
+    .filter((value): value is { x: number; y: number } => value !== null);
+
+  const markerRects =
+    hasPoints && span > 0
+      ? markers.map((marker) => {
+          const x = toX(marker.start, 0);
+          const width = Math.max(toX(marker.end, 0) - x, 2);
+          return { ...marker, x, width };
+        })
+      : [];
+
+  const selectedX =
+    hasPoints && span > 0 && typeof selectedTimestamp === "number"
+      ? toX(selectedTimestamp, 0)
+      : null;
+
   return (
     <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
       <div className="flex items-center justify-between gap-4">
         <div>
-          <h2 className="text-xl font-semibold text-slate-100">Message velocity</h2>
-          <p className="mt-1 text-xs text-slate-500">
-            Synthetic preview of messages per minute with sentiment overlay.
-          </p>
+          <h2 className="text-xl font-semibold text-slate-100">{title}</h2>
+          <p className="mt-1 text-xs text-slate-500">{description}</p>
         </div>
-        <span className="text-xs text-slate-500">Last 10 minutes</span>
+        <span className="text-xs text-slate-500">{rangeLabel}</span>
       </div>
 
       <div className="mt-6 h-48 overflow-hidden rounded-xl border border-slate-900 bg-gradient-to-b from-slate-900 via-slate-950 to-slate-950 p-4">
@@ -42,10 +103,26 @@ export default function TimelineCard({ points }: TimelineCardProps) {
                 <stop offset="100%" stopColor="rgba(139, 92, 246, 0)" />
               </linearGradient>
             </defs>
+            {markerRects.map((marker) => (
+              <rect
+                key={marker.id}
+                x={marker.x}
+                y={CHART_BOTTOM - CHART_HEIGHT - 10}
+                width={marker.width}
+                height={CHART_HEIGHT + 10}
+                fill="rgba(251, 191, 36, 0.15)"
+                stroke="rgba(251, 191, 36, 0.6)"
+                strokeWidth={0.5}
+              >
+                {marker.label ? <title>{marker.label}</title> : null}
+              </rect>
+            ))}
             <polyline
               fill="url(#velocityGradient)"
               stroke="none"
-              points={`20,150 ${coordinates.map(({ x, y }) => `${x},${y}`).join(" ")} 380,150`}
+              points={`${CHART_LEFT},${CHART_BOTTOM} ${coordinates
+                .map(({ x, y }) => `${x},${y}`)
+                .join(" ")} ${CHART_LEFT + CHART_WIDTH},${CHART_BOTTOM}`}
             />
             <polyline
               fill="none"
@@ -55,9 +132,32 @@ export default function TimelineCard({ points }: TimelineCardProps) {
               strokeLinejoin="round"
               points={coordinates.map(({ x, y }) => `${x},${y}`).join(" ")}
             />
-            {coordinates.map(({ x, y }, idx) => (
-              <circle key={`point-${idx}`} cx={x} cy={y} r={3} fill="#a855f7" />
-            ))}
+            {sentimentCoordinates.length > 1 ? (
+              <polyline
+                fill="none"
+                stroke="#34d399"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                points={sentimentCoordinates.map(({ x, y }) => `${x},${y}`).join(" ")}
+              />
+            ) : null}
+            {coordinates.length <= 120
+              ? coordinates.map(({ x, y }, idx) => (
+                  <circle key={`point-${idx}`} cx={x} cy={y} r={3} fill="#a855f7" />
+                ))
+              : null}
+            {selectedX !== null ? (
+              <line
+                x1={selectedX}
+                x2={selectedX}
+                y1={CHART_BOTTOM - CHART_HEIGHT - 10}
+                y2={CHART_BOTTOM}
+                stroke="#e2e8f0"
+                strokeWidth={1}
+              />
+            ) : null}
           </svg>
         ) : (
           <div className="flex h-full items-center justify-center text-xs text-slate-500">
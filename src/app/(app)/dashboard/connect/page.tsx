@@ -12,7 +12,10 @@ export default async function DashboardConnectPage() {
     redirect("/sign-in");
   }
 
-  await ensureWorkspace(userId);
+  const result = await ensureWorkspace(userId, { reconnect: true });
+  if (result?.reconnectBlocked) {
+    redirect(`/settings?twitch=${result.reconnectBlocked}`);
+  }
 
   redirect("/dashboard");
 }
@@ -7,6 +7,10 @@ import LiveChatFeed from "./components/live-chat-feed";
 import MetricCard from "./components/metric-card";
 import SessionStatusCard from "./components/session-status-card";
 import TopTokensCard from "./components/top-tokens-card";
+import { useEndToEndLatency } from "./use-end-to-end-latency";
+import { useListeningControl, type ListeningControl } from "./use-listening-control";
+import { useWorkerReachability } from "./use-worker-reachability";
+import { latencySentAt } from "@/lib/latency";
 
 type SessionStatus = "idle" | "listening" | "errored";
 
@@ -39,6 +43,7 @@ type ChatMessage = {
   author: string;
   text: string;
   timestamp: number;
+  sentAt?: number | null;
   emotes?: {
     code: string;
     id?: string | null;
@@ -131,6 +136,14 @@ type LiveUpdate =
             events: EventItem[];
           };
     }
+  | {
+      type: "channel-event" | "annotation";
+      payload: { event?: EventItem; annotation?: EventItem };
+    }
+  | {
+      type: "moderation";
+      payload: { messageIds: string[] };
+    }
   | {
       type: "tokens";
       payload: {
@@ -153,6 +166,7 @@ type LiveUpdate =
   | {
       type: "chat";
       payload: ChatMessage;
+      replayed?: boolean;
     }
   | {
       type: "reset";
@@ -203,6 +217,8 @@ const MAX_EVENTS = 20;
 type DashboardShellAlphaProps = {
   initialState?: Partial<LiveState>;
   initialIngestionConnected?: boolean;
+  initialWorkerUnreachable?: boolean;
+  initialListening?: ListeningControl | null;
   channelLogin?: string | null;
   viewerId?: string | null;
 };
@@ -311,6 +327,8 @@ function normalizeEmoteRows(input: unknown): EmoteRow[] {
 export default function DashboardShellAlpha({
   initialState: initialOverrides,
   initialIngestionConnected,
+  initialWorkerUnreachable = false,
+  initialListening = null,
   channelLogin,
   viewerId,
 }: DashboardShellAlphaProps) {
@@ -345,7 +363,15 @@ export default function DashboardShellAlpha({
     const status = initialOverrides?.session?.status;
     return status === "listening";
   });
-  const effectiveStatus = computeEffectiveStatus(state.session, ingestionConnected, state.chat);
+  const workerUnreachable = useWorkerReachability(initialWorkerUnreachable, Boolean(viewerId));
+  const { summary: latencySummary, recordSentAt } = useEndToEndLatency(
+    channelLogin?.toLowerCase() ?? null,
+    Boolean(viewerId)
+  );
+  const listening = useListeningControl(initialListening);
+  const effectiveStatus = workerUnreachable
+    ? "unreachable"
+    : computeEffectiveStatus(state.session, ingestionConnected, state.chat);
 
   useEffect(() => {
     if (typeof initialIngestionConnected === "boolean") {
@@ -461,6 +487,23 @@ export default function DashboardShellAlpha({
           }
           return prev;
         }
+        case "channel-event":
+        case "annotation": {
+          // The alpha layout has no timeline, so these share the spike feed.
+          const item = update.payload.event ?? update.payload.annotation;
+          if (!item) {
+            return prev;
+          }
+          const filtered = prev.events.filter((event) => event.id !== item.id);
+          const next = [item, ...filtered]
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, MAX_EVENTS);
+          return { ...prev, events: next };
+        }
+        case "moderation": {
+          const removed = new Set(update.payload.messageIds);
+          return { ...prev, chat: prev.chat.filter((message) => !removed.has(message.id)) };
+        }
         case "tokens": {
           const nextEmotes =
             typeof update.payload.emotes === "undefined"
@@ -553,6 +596,11 @@ export default function DashboardShellAlpha({
         try {
           const update = JSON.parse(event.data) as LiveUpdate;
           handleUpdate(update);
+          const sentAt =
+            update.type === "chat" && !update.replayed ? latencySentAt(update.payload) : null;
+          if (sentAt !== null) {
+            recordSentAt(sentAt);
+          }
           if (update.type === "session") {
             const connected =
               typeof update.payload.ingestionConnected === "boolean"
@@ -583,7 +631,7 @@ export default function DashboardShellAlpha({
         clearTimeout(retryTimer);
       }
     };
-  }, [handleUpdate, channelKey]);
+  }, [handleUpdate, recordSentAt, channelKey]);
 
   const metricCards = useMemo(() => {
     const messageRateValue =
@@ -626,7 +674,14 @@ export default function DashboardShellAlpha({
       },
       {
         label: "Active session",
-        value: effectiveStatus === "listening" ? "Live" : effectiveStatus === "errored" ? "Error" : "Idle",
+        value:
+          effectiveStatus === "listening"
+            ? "Live"
+            : effectiveStatus === "errored"
+              ? "Error"
+              : effectiveStatus === "unreachable"
+                ? "Unreachable"
+                : "Idle",
         helper: sessionHelper,
       },
     ];
@@ -649,6 +704,8 @@ export default function DashboardShellAlpha({
           channel={state.session.channel}
           startedAt={state.session.startedAt}
           ingestionConnected={ingestionConnected}
+          latency={latencySummary}
+          listening={listening}
         />
         <AudienceCard
           uniqueChatters={state.audience.uniqueChatters}
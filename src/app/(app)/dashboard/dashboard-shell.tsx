@@ -4,10 +4,23 @@ import Image from "next/image";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import AlertList from "./components/alert-list";
 import { ChatMessageText } from "./components/chat-message-text";
+import EventsCard from "./components/events-card";
+import LatencyBadge from "./components/latency-badge";
+import ListeningToggle from "./components/listening-toggle";
+import TimelineCard from "./components/timeline-card";
+import { useEndToEndLatency } from "./use-end-to-end-latency";
+import { useListeningControl, type ListeningControl } from "./use-listening-control";
+import { useWorkerReachability } from "./use-worker-reachability";
 import type { ChatTone } from "@/lib/ai/chat-tone";
+import { CHAT_PLATFORM_LABELS, type ChatPlatform } from "@/lib/chat-platforms";
+import { latencySentAt } from "@/lib/latency";
+import type { ChannelEventKind } from "@/lib/twitch/channel-events";
+import type { AnnotationKind } from "@/lib/twitch/moderation";
 import { getTwitchEmoteImageUrl } from "@/lib/twitch/emotes";
 
 type SessionStatus = "idle" | "listening" | "errored";
+// What the header shows; "unreachable" comes from the worker heartbeat, not the live feed.
+type DisplayStatus = SessionStatus | "unreachable";
 
 type TimelinePoint = {
   timestamp: number;
@@ -41,11 +54,31 @@ type EventItem = {
   timestamp: number;
 };
 
+type ChannelEventItem = EventItem & {
+  kind: ChannelEventKind;
+};
+
+type PlatformBreakdown = {
+  platform: ChatPlatform;
+  messageRate: number;
+  uniqueChatters: number;
+};
+
+type AnnotationItem = EventItem & {
+  kind: AnnotationKind;
+  enabled: boolean;
+  value: number | null;
+};
+
 type ChatMessage = {
   id: string;
+  /** Missing on updates from workers that predate simulcast ingestion. */
+  platform?: ChatPlatform;
   author: string;
   text: string;
   timestamp: number;
+  /** Platform send time; absent from older workers. */
+  sentAt?: number | null;
   tone: ChatTone;
   toneConfidence: number | null;
   toneRationale: string | null;
@@ -74,9 +107,12 @@ type LiveState = {
       uniqueChatters: BaselineSnapshot | null;
       newcomers: BaselineSnapshot | null;
     };
+    platforms: PlatformBreakdown[];
   };
   timeline: TimelinePoint[];
   events: EventItem[];
+  channelEvents: ChannelEventItem[];
+  annotations: AnnotationItem[];
   tokens: {
     tokens: TokenRow[];
     emotes: EmoteRow[];
@@ -91,6 +127,9 @@ type LiveState = {
     };
   };
   chat: ChatMessage[];
+  rawCapped: {
+    cappedAt: number;
+  } | null;
   moodAnalysis: {
     moodScore: number;
     moodBalance: {
@@ -133,6 +172,7 @@ type LiveUpdate =
           uniqueChatters?: BaselineSnapshot | null;
           newcomers?: BaselineSnapshot | null;
         } | null;
+        platforms?: PlatformBreakdown[];
       };
     }
   | {
@@ -151,6 +191,18 @@ type LiveUpdate =
             events: EventItem[];
           };
     }
+  | {
+      type: "channel-event";
+      payload: { event: ChannelEventItem };
+    }
+  | {
+      type: "annotation";
+      payload: { annotation: AnnotationItem };
+    }
+  | {
+      type: "moderation";
+      payload: { messageIds: string[] };
+    }
   | {
       type: "tokens";
       payload: {
@@ -173,6 +225,14 @@ type LiveUpdate =
   | {
       type: "chat";
       payload: ChatMessage;
+      /** Backlog sent on (re)connect rather than a live delivery. */
+      replayed?: boolean;
+    }
+  | {
+      type: "raw-capped";
+      payload: {
+        cappedAt: number;
+      };
     }
   | {
       type: "ai-mood";
@@ -216,9 +276,12 @@ const initialState: LiveState = {
       uniqueChatters: null,
       newcomers: null,
     },
+    platforms: [],
   },
   timeline: [],
   events: [],
+  channelEvents: [],
+  annotations: [],
   tokens: {
     tokens: [],
     emotes: [],
@@ -233,6 +296,7 @@ const initialState: LiveState = {
     },
   },
   chat: [],
+  rawCapped: null,
   moodAnalysis: null,
 };
 
@@ -253,6 +317,10 @@ type DashboardAlert = {
 
 const ALERT_FETCH_INTERVAL_MS = 1500;
 const ALERT_HISTORY_WINDOW_MS = 2 * 60 * 1000;
+// Dropped streams follow the server's `retry:` hint; these only pace new
+// attempts after the server refused the connection outright.
+const LIVE_FEED_REFUSED_RETRY_MS = 5_000;
+const LIVE_FEED_REFUSED_RETRY_MAX_MS = 60_000;
 const TONE_RECENT_WINDOW = 12;
 const POSITIVE_TONE_SET: ChatTone[] = ["hype", "supportive", "humor", "constructive"];
 const NEGATIVE_TONE_SET: ChatTone[] = ["critical", "sarcastic", "toxic"];
@@ -264,8 +332,12 @@ const CALM_ALERT_MESSAGE = "All Calm: Chat is steady—no notable shifts yet.";
 type DashboardShellProps = {
   initialState?: Partial<LiveState>;
   initialIngestionConnected?: boolean;
+  initialWorkerUnreachable?: boolean;
+  /** Owners only; share viewers get no Start/Stop control. */
+  initialListening?: ListeningControl | null;
   channelLogin?: string | null;
   viewerId?: string | null;
+  shareToken?: string | null;
 };
 
 const timeFormatter = new Intl.DateTimeFormat(undefined, {
@@ -289,6 +361,8 @@ function createInitialState(overrides?: Partial<LiveState>): LiveState {
     },
     timeline: overrides.timeline ?? initialState.timeline,
     events: overrides.events ?? initialState.events,
+    channelEvents: overrides.channelEvents ?? initialState.channelEvents,
+    annotations: overrides.annotations ?? initialState.annotations,
     tokens: {
       tokens: overrides.tokens?.tokens ?? initialState.tokens.tokens,
       emotes: normalizeEmoteRows(overrides.tokens?.emotes ?? initialState.tokens.emotes),
@@ -302,6 +376,7 @@ function createInitialState(overrides?: Partial<LiveState>): LiveState {
       },
     },
     chat: overrides.chat ?? initialState.chat,
+    rawCapped: overrides.rawCapped ?? initialState.rawCapped,
     moodAnalysis: overrides.moodAnalysis ?? initialState.moodAnalysis,
   };
 }
@@ -461,7 +536,7 @@ function computeEngagementScore({
   return { score, mood };
 }
 
-function describeStatus(status: SessionStatus) {
+function describeStatus(status: DisplayStatus) {
   if (status === "listening") {
     return {
       label: "Live",
@@ -470,6 +545,14 @@ function describeStatus(status: SessionStatus) {
     };
   }
 
+  if (status === "unreachable") {
+    return {
+      label: "Worker unreachable",
+      helper: "The ingestion worker stopped checking in. Metrics resume once it is back.",
+      badgeTone: "bg-amber-500/10 text-amber-300 border border-amber-500/40",
+    };
+  }
+
   return {
     label: "Offline",
     helper: "Start the ingestion worker to begin streaming insights.",
@@ -516,8 +599,11 @@ function formatEventTimestamp(timestamp: number) {
 export default function DashboardShell({
   initialState: initialOverrides,
   initialIngestionConnected,
+  initialWorkerUnreachable = false,
+  initialListening = null,
   channelLogin,
   viewerId,
+  shareToken = null,
 }: DashboardShellProps) {
   const [state, setState] = useState<LiveState>(() => {
     const baseOverrides = initialOverrides ?? {};
@@ -550,6 +636,7 @@ export default function DashboardShell({
     const status = initialOverrides?.session?.status;
     return status === "listening";
   });
+  const [dismissedRawCapAt, setDismissedRawCapAt] = useState<number | null>(null);
   const [alerts, setAlerts] = useState<DashboardAlert[]>(() => {
     if (typeof window === "undefined") {
       return [];
@@ -573,7 +660,18 @@ export default function DashboardShell({
     }
     return [];
   });
-  const effectiveStatus = computeEffectiveStatus(state.session, ingestionConnected, state.chat);
+  const workerUnreachable = useWorkerReachability(
+    initialWorkerUnreachable,
+    Boolean(viewerId) && !shareToken
+  );
+  const { summary: latencySummary, recordSentAt } = useEndToEndLatency(
+    channelLogin?.toLowerCase() ?? null,
+    Boolean(viewerId) && !shareToken
+  );
+  const listening = useListeningControl(shareToken ? null : initialListening);
+  const effectiveStatus: DisplayStatus = workerUnreachable
+    ? "unreachable"
+    : computeEffectiveStatus(state.session, ingestionConnected, state.chat);
   const alertsFingerprintRef = useRef<string | null>(null);
   const alertsRef = useRef<DashboardAlert[]>(alerts);
   const alertsFetchInFlightRef = useRef(false);
@@ -624,10 +722,14 @@ export default function DashboardShell({
     }
 
     const sessionStatus = effectiveStatus;
-    const fallbackId = sessionStatus === "errored" ? "ingestion-error" : "monitoring-idle";
+    const fallbackId =
+      sessionStatus === "errored" || sessionStatus === "unreachable" ? "ingestion-error" : "monitoring-idle";
     const fallbackAlert: DashboardAlert = {
       id: fallbackId,
-      message: "Waiting for you to go live.",
+      message:
+        sessionStatus === "unreachable"
+          ? "The ingestion worker is not responding."
+          : "Waiting for you to go live.",
       tone: "neutral",
       priority: "medium",
       updatedAt: Date.now(),
@@ -744,6 +846,7 @@ export default function DashboardShell({
                     ? prev.metrics.baseline.newcomers
                     : update.payload.baseline?.newcomers ?? null,
               },
+              platforms: update.payload.platforms ?? prev.metrics.platforms,
             },
           };
         }
@@ -782,6 +885,28 @@ export default function DashboardShell({
           }
           return prev;
         }
+        case "channel-event": {
+          const filtered = prev.channelEvents.filter(
+            (event) => event.id !== update.payload.event.id
+          );
+          const next = [update.payload.event, ...filtered]
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, MAX_EVENTS);
+          return { ...prev, channelEvents: next };
+        }
+        case "annotation": {
+          const filtered = prev.annotations.filter(
+            (annotation) => annotation.id !== update.payload.annotation.id
+          );
+          const next = [update.payload.annotation, ...filtered]
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, MAX_EVENTS);
+          return { ...prev, annotations: next };
+        }
+        case "moderation": {
+          const removed = new Set(update.payload.messageIds);
+          return { ...prev, chat: prev.chat.filter((message) => !removed.has(message.id)) };
+        }
         case "tokens": {
           const nextEmotes =
             typeof update.payload.emotes === "undefined"
@@ -829,6 +954,9 @@ export default function DashboardShell({
           const next = [update.payload, ...filtered].slice(0, MAX_CHAT_MESSAGES);
           return { ...prev, chat: next };
         }
+        case "raw-capped": {
+          return { ...prev, rawCapped: { cappedAt: update.payload.cappedAt } };
+        }
         default:
           return prev;
       }
@@ -844,21 +972,43 @@ export default function DashboardShell({
     let eventSource: EventSource | null = null;
     let retryTimer: ReturnType<typeof setTimeout> | null = null;
     let cancelled = false;
+    let refusedAttempts = 0;
+    // A fresh EventSource doesn't carry Last-Event-ID over, so pass it as a
+    // query param and let the server replay only what we missed.
+    let lastEventId: string | null = null;
 
     const connect = () => {
       if (cancelled) {
         return;
       }
-      const url = `/api/live-feed?channel=${encodeURIComponent(channelKey)}`;
-      eventSource = new EventSource(url);
+      const params = new URLSearchParams({ channel: channelKey });
+      if (shareToken) {
+        params.set("share", shareToken);
+      }
+      if (lastEventId) {
+        params.set("lastEventId", lastEventId);
+      }
+      eventSource = new EventSource(`/api/live-feed?${params.toString()}`);
+
+      eventSource.onopen = () => {
+        refusedAttempts = 0;
+      };
 
       eventSource.onmessage = (event) => {
+        if (event.lastEventId) {
+          lastEventId = event.lastEventId;
+        }
         if (!event.data) {
           return;
         }
         try {
           const update = JSON.parse(event.data) as LiveUpdate;
           handleUpdate(update);
+          const sentAt =
+            update.type === "chat" && !update.replayed ? latencySentAt(update.payload) : null;
+          if (sentAt !== null) {
+            recordSentAt(sentAt);
+          }
           if (update.type === "session") {
             const connected =
               typeof update.payload.ingestionConnected === "boolean"
@@ -873,10 +1023,21 @@ export default function DashboardShell({
 
       eventSource.onerror = () => {
         setIngestionConnected(false);
-        eventSource?.close();
-        if (!cancelled) {
-          retryTimer = setTimeout(connect, 2000);
+        // After a dropped stream the browser reconnects on its own, waiting
+        // for the server's `retry:` hint and sending Last-Event-ID. It only
+        // gives up when the server refuses the connection (a 403 for an
+        // expired share link, a 503 while Convex is unreachable).
+        if (cancelled || eventSource?.readyState !== EventSource.CLOSED) {
+          return;
         }
+        refusedAttempts += 1;
+        retryTimer = setTimeout(
+          connect,
+          Math.min(
+            LIVE_FEED_REFUSED_RETRY_MS * 2 ** (refusedAttempts - 1),
+            LIVE_FEED_REFUSED_RETRY_MAX_MS
+          )
+        );
       };
     };
 
@@ -889,7 +1050,7 @@ export default function DashboardShell({
         clearTimeout(retryTimer);
       }
     };
-  }, [handleUpdate, channelKey]);
+  }, [handleUpdate, recordSentAt, channelKey, shareToken]);
 
   const derived = useMemo(() => {
     const messageRate = state.metrics.messageRate ?? 0;
@@ -998,6 +1159,19 @@ export default function DashboardShell({
         timestamp: message.timestamp,
       }));
 
+    const firstTimelineAt = state.timeline[0]?.timestamp ?? null;
+    const timelineMarkers = [...state.channelEvents, ...state.annotations]
+      .filter((event) => firstTimelineAt !== null && event.timestamp >= firstTimelineAt)
+      .map((event) => ({
+        id: event.id,
+        start: event.timestamp,
+        end: event.timestamp,
+        label: event.detail,
+      }));
+    const eventFeed = [...state.channelEvents, ...state.annotations, ...state.events]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, MAX_EVENTS);
+
     const insights = state.events.map((event) => ({
       id: event.id,
       title: event.title,
@@ -1020,6 +1194,8 @@ export default function DashboardShell({
       chatSample,
       questions,
       insights,
+      timelineMarkers,
+      eventFeed,
       baseline: baselineMetrics,
       messageBaselineReady,
       rateDeltaPercent,
@@ -1303,6 +1479,24 @@ export default function DashboardShell({
 
   return (
     <div className="flex flex-col gap-4 lg:gap-5">
+      {state.rawCapped && dismissedRawCapAt !== state.rawCapped.cappedAt ? (
+        <div
+          role="status"
+          className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-100"
+        >
+          <p>
+            This stream reached its raw message cap. Live metrics keep updating, but new chat
+            messages are no longer stored for history or exports.
+          </p>
+          <button
+            type="button"
+            onClick={() => setDismissedRawCapAt(state.rawCapped?.cappedAt ?? null)}
+            className="text-xs font-semibold uppercase tracking-[0.25em] text-amber-200 transition hover:text-amber-100"
+          >
+            Dismiss
+          </button>
+        </div>
+      ) : null}
       <section className="grid gap-4 xl:grid-cols-[minmax(0,2fr)_minmax(0,1.2fr)]">
         <div className="flex h-[36rem] flex-col rounded-3xl border border-slate-800 bg-slate-950/80 p-5 shadow-lg shadow-slate-950/40">
           <header className="flex flex-wrap items-start justify-between gap-3">
@@ -1316,12 +1510,30 @@ export default function DashboardShell({
               >
                 {derived.statusMeta.label}
               </span>
+              <LatencyBadge summary={latencySummary} />
               <span className="rounded-full border border-slate-800 px-3 py-1 text-xs font-semibold text-slate-300">
                 {typeof derived.messageRate === "number"
                   ? `${formatNumber(derived.messageRate, { maximumFractionDigits: 0 })} / min`
                   : "Collecting"}
               </span>
             </div>
+            {listening ? <ListeningToggle {...listening} /> : null}
+            {state.metrics.platforms.length > 1 ? (
+              <ul className="flex w-full flex-wrap gap-2 text-xs text-slate-400">
+                {state.metrics.platforms.map((entry) => (
+                  <li
+                    key={entry.platform}
+                    className="rounded-full border border-slate-800 bg-slate-900/40 px-3 py-1"
+                  >
+                    <span className="font-semibold text-slate-200">
+                      {CHAT_PLATFORM_LABELS[entry.platform]}
+                    </span>{" "}
+                    {formatNumber(entry.messageRate, { maximumFractionDigits: 0 })} / min ·{" "}
+                    {formatNumber(entry.uniqueChatters, { maximumFractionDigits: 0 })} chatters
+                  </li>
+                ))}
+              </ul>
+            ) : null}
           </header>
           <div className="mt-4 flex-1 overflow-y-auto rounded-2xl border border-slate-900 bg-slate-950/40">
             {derived.chatSample.length > 0 ? (
@@ -1331,6 +1543,11 @@ export default function DashboardShell({
                     key={message.id}
                     className="flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-2 text-sm leading-snug"
                   >
+                    {message.platform && message.platform !== "twitch" ? (
+                      <span className="rounded border border-red-500/40 px-1.5 text-[10px] font-semibold uppercase tracking-[0.2em] text-red-300">
+                        {CHAT_PLATFORM_LABELS[message.platform]}
+                      </span>
+                    ) : null}
                     <span className="font-semibold text-slate-300">@{message.author}</span>
                     <ChatMessageText
                       text={message.text}
@@ -1458,6 +1675,21 @@ export default function DashboardShell({
         </div>
       </section>
 
+      <section className="grid gap-4 xl:grid-cols-[minmax(0,2fr)_minmax(0,1.2fr)]">
+        <TimelineCard
+          points={state.timeline}
+          markers={derived.timelineMarkers}
+          title="Message velocity"
+          description="Messages per minute with subs, raids, cheers and chat mode changes marked."
+          rangeLabel="This session"
+        />
+        <EventsCard
+          events={derived.eventFeed}
+          description="Subs, gift subs, raids, cheers, chat mode changes and spike detections stream here during a broadcast."
+          emptyLabel="No channel events yet. Subs, raids, cheers and spikes will show up here as they happen."
+        />
+      </section>
+
     </div>
   );
 }
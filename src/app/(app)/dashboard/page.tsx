@@ -1,6 +1,13 @@
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { fetchQuery } from "convex/nextjs";
 import { api } from "../../../../convex/_generated/api";
+import {
+  resolveListeningControl,
+  resolveSessionStatus,
+  type IngestionStatus,
+  type ListeningState,
+  type WorkerHeartbeat,
+} from "@/lib/ingestion-health";
 import DashboardShellBeta from "./dashboard-shell";
 import DashboardShellAlpha from "./dashboard-shell-alpha";
 
@@ -9,9 +16,35 @@ export const revalidate = 0;
 
 type WorkspaceSummary = {
   channel: { login: string; displayName?: string | null; status: string } | null;
-  ingestionStatus: "idle" | "listening" | "errored";
+  ingestionStatus: IngestionStatus;
+  heartbeat: WorkerHeartbeat | null;
+  listening: ListeningState;
 } | null;
 
+function resolveWorkerState(summary: WorkspaceSummary) {
+  if (!summary) {
+    return { initialWorkerUnreachable: false, initialListening: null };
+  }
+  const now = Date.now();
+  const status = resolveSessionStatus(
+    summary.ingestionStatus,
+    summary.heartbeat,
+    now,
+    summary.listening.enabled
+  );
+  return {
+    initialWorkerUnreachable: status === "unreachable",
+    // Nothing to toggle without a connected channel; Settings handles reconnecting.
+    initialListening:
+      summary.channel?.status === "connected"
+        ? {
+            ...summary.listening,
+            control: resolveListeningControl(summary.listening, summary.heartbeat, now),
+          }
+        : null,
+  };
+}
+
 export default async function DashboardPage() {
   const { userId } = await auth();
 
@@ -54,7 +87,9 @@ export default async function DashboardPage() {
     channelLogin;
 
   const ingestionStatus = summary?.ingestionStatus ?? (channelLogin ? "idle" : "idle");
-  const initialIngestionConnected = summary?.ingestionStatus === "listening";
+  const { initialWorkerUnreachable, initialListening } = resolveWorkerState(summary);
+  const initialIngestionConnected =
+    summary?.ingestionStatus === "listening" && !initialWorkerUnreachable;
 
   const initialState =
     channelLogin || summary
@@ -74,6 +109,8 @@ export default async function DashboardPage() {
     <ShellComponent
       initialState={initialState}
       initialIngestionConnected={initialIngestionConnected}
+      initialWorkerUnreachable={initialWorkerUnreachable}
+      initialListening={initialListening}
       channelLogin={channelLogin}
       viewerId={userId ?? null}
     />
@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  LATENCY_REPORT_INTERVAL_MS,
+  LATENCY_WINDOW_SIZE,
+  SERVER_TIME_HEADER,
+  measureClockOffset,
+  parseServerTime,
+  pickClockOffset,
+  receiveLatency,
+  summarizeLatency,
+  type ClockSample,
+  type LatencySummary,
+} from "@/lib/latency";
+
+const CLOCK_PROBE_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_CLOCK_SAMPLES = 5;
+const SUMMARY_REFRESH_MS = 2_000;
+
+function sameSummary(a: LatencySummary | null, b: LatencySummary | null) {
+  return (
+    a === b ||
+    (a !== null &&
+      b !== null &&
+      a.count === b.count &&
+      a.p50Ms === b.p50Ms &&
+      a.p95Ms === b.p95Ms &&
+      a.maxMs === b.maxMs)
+  );
+}
+
+/**
+ * Measures how long live chat takes from the platform's send time to the
+ * dashboard painting it. The browser clock is corrected against the server's
+ * `X-Server-Time`, and each minute's samples are reported for SLO history.
+ */
+export function useEndToEndLatency(channelLogin: string | null, enabled: boolean) {
+  const [summary, setSummary] = useState<LatencySummary | null>(null);
+  const clockSamplesRef = useRef<ClockSample[]>([]);
+  const offsetRef = useRef<number | null>(null);
+  const windowRef = useRef<number[]>([]);
+  const pendingRef = useRef<{ samples: number[]; startedAt: number | null }>({
+    samples: [],
+    startedAt: null,
+  });
+
+  useEffect(() => {
+    windowRef.current = [];
+    pendingRef.current = { samples: [], startedAt: null };
+    setSummary(null);
+  }, [channelLogin]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let cancelled = false;
+
+    const probe = async () => {
+      const startedAt = Date.now();
+      try {
+        const response = await fetch("/api/latency", { method: "HEAD", cache: "no-store" });
+        const serverTime = parseServerTime(response.headers.get(SERVER_TIME_HEADER));
+        if (cancelled || serverTime === null) {
+          return;
+        }
+        const samples = [
+          ...clockSamplesRef.current,
+          measureClockOffset(startedAt, Date.now(), serverTime),
+        ].slice(-MAX_CLOCK_SAMPLES);
+        clockSamplesRef.current = samples;
+        offsetRef.current = pickClockOffset(samples);
+      } catch {
+        // Keep the previous offset; the next probe will try again.
+      }
+    };
+
+    void probe();
+    const interval = setInterval(probe, CLOCK_PROBE_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const interval = setInterval(() => {
+      const next = summarizeLatency(windowRef.current);
+      setSummary((previous) => (sameSummary(previous, next) ? previous : next));
+    }, SUMMARY_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !channelLogin) {
+      return;
+    }
+
+    const report = () => {
+      const pending = pendingRef.current;
+      const offset = offsetRef.current;
+      const windowSummary = summarizeLatency(pending.samples);
+      if (!windowSummary || pending.startedAt === null || offset === null) {
+        return;
+      }
+      pendingRef.current = { samples: [], startedAt: null };
+      void fetch("/api/latency", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          channel: channelLogin,
+          windowStart: Math.round(pending.startedAt + offset),
+          windowEnd: Math.round(Date.now() + offset),
+          ...windowSummary,
+          clockOffsetMs: Math.round(offset),
+        }),
+        keepalive: true,
+      }).catch(() => {
+        // Historical reporting is best-effort; the live badge doesn't depend on it.
+      });
+    };
+
+    const interval = setInterval(report, LATENCY_REPORT_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      report();
+    };
+  }, [enabled, channelLogin]);
+
+  /** Call when a live (not replayed) chat line arrives; samples once it has painted. */
+  const recordSentAt = useCallback(
+    (sentAt: number) => {
+      if (!enabled) {
+        return;
+      }
+      requestAnimationFrame(() => {
+        const offset = offsetRef.current;
+        if (offset === null) {
+          return;
+        }
+        const latency = receiveLatency(sentAt, Date.now(), offset);
+        if (latency === null) {
+          return;
+        }
+        const recent = windowRef.current;
+        recent.push(latency);
+        if (recent.length > LATENCY_WINDOW_SIZE) {
+          recent.splice(0, recent.length - LATENCY_WINDOW_SIZE);
+        }
+        const pending = pendingRef.current;
+        pending.samples.push(latency);
+        pending.startedAt ??= Date.now();
+      });
+    },
+    [enabled]
+  );
+
+  return { summary, recordSentAt };
+}
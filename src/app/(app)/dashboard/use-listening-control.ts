@@ -0,0 +1,95 @@
+"use client";
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import type { ListeningControlState, ListeningState } from "@/lib/ingestion-health";
+import { setListening } from "./actions";
+
+export type ListeningControl = ListeningState & {
+  control: ListeningControlState;
+};
+
+const CONFIRM_POLL_MS = 2_000;
+
+/**
+ * Start/Stop Listening for the dashboard. A toggle is pending until the worker
+ * heartbeats in the requested state, so poll `/api/ingestion/status` until
+ * the server calls it confirmed or failed.
+ */
+export function useListeningControl(initial: ListeningControl | null) {
+  const [listening, setListeningControl] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, startTransition] = useTransition();
+
+  useEffect(() => {
+    setListeningControl(initial);
+  }, [initial]);
+
+  const awaitingWorker = listening?.control === "pending";
+
+  useEffect(() => {
+    if (!awaitingWorker) {
+      return;
+    }
+    let cancelled = false;
+
+    const check = async () => {
+      try {
+        const response = await fetch("/api/ingestion/status", { cache: "no-store" });
+        if (!response.ok) {
+          return;
+        }
+        const body = (await response.json()) as { listening?: ListeningControl };
+        if (!cancelled && body.listening) {
+          setListeningControl(body.listening);
+        }
+      } catch {
+        // Still pending; the next poll will try again.
+      }
+    };
+
+    const interval = setInterval(check, CONFIRM_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [awaitingWorker]);
+
+  const toggle = useCallback(() => {
+    if (!listening) {
+      return;
+    }
+    const next = !listening.enabled;
+    setError(null);
+    startTransition(async () => {
+      const result = await setListening(next);
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setListeningControl({
+        enabled: result.listening,
+        requestedAt: result.requestedAt,
+        control: "pending",
+      });
+    });
+  }, [listening]);
+
+  if (!listening) {
+    return null;
+  }
+
+  const state: ListeningControlState = submitting
+    ? "pending"
+    : error
+      ? "failed"
+      : listening.control;
+
+  return {
+    // While the request is in flight `enabled` still holds the old value.
+    target: submitting ? !listening.enabled : listening.enabled,
+    requested: listening.requestedAt !== null,
+    state,
+    error,
+    onToggle: toggle,
+  };
+}
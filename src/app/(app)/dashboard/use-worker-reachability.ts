@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { WORKER_HEARTBEAT_INTERVAL_MS } from "@/lib/ingestion-health";
+
+const REACHABILITY_POLL_MS = WORKER_HEARTBEAT_INTERVAL_MS * 2;
+
+/**
+ * Polls `/api/ingestion/status` for the worker heartbeat. The live feed goes
+ * quiet both when a stream ends and when the worker dies, so silence alone
+ * can't tell the dashboard which one happened.
+ */
+export function useWorkerReachability(initialUnreachable: boolean, enabled: boolean) {
+  const [unreachable, setUnreachable] = useState(initialUnreachable);
+
+  useEffect(() => {
+    setUnreachable(initialUnreachable);
+  }, [initialUnreachable]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let cancelled = false;
+
+    const check = async () => {
+      try {
+        const response = await fetch("/api/ingestion/status", { cache: "no-store" });
+        if (!response.ok) {
+          return;
+        }
+        const body = (await response.json()) as { status?: string };
+        if (!cancelled) {
+          setUnreachable(body.status === "unreachable");
+        }
+      } catch {
+        // Keep the last known state; the next poll will try again.
+      }
+    };
+
+    const interval = setInterval(check, REACHABILITY_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled]);
+
+  return unreachable;
+}
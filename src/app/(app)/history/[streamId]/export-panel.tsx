@@ -0,0 +1,169 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+
+type ExportType = "csv" | "json";
+type ExportStatus = "queued" | "processing" | "ready" | "failed";
+
+type ExportRow = {
+  id: string;
+  type: ExportType;
+  status: ExportStatus;
+  downloadUrl: string | null;
+  fileName: string | null;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type ExportPanelProps = {
+  streamId: string;
+};
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_STYLES: Record<ExportStatus, string> = {
+  queued: "text-slate-400",
+  processing: "text-amber-300",
+  ready: "text-emerald-300",
+  failed: "text-rose-300",
+};
+
+const timeFormatter = new Intl.DateTimeFormat(undefined, {
+  day: "2-digit",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+export default function ExportPanel({ streamId }: ExportPanelProps) {
+  const [exports, setExports] = useState<ExportRow[]>([]);
+  const [requesting, setRequesting] = useState<ExportType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExports = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/exports?streamId=${encodeURIComponent(streamId)}`, {
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        return;
+      }
+      const json = await response.json();
+      if (Array.isArray(json?.exports)) {
+        setExports(json.exports as ExportRow[]);
+      }
+    } catch (loadError) {
+      console.warn("[exports] Failed to refresh export status", loadError);
+    }
+  }, [streamId]);
+
+  useEffect(() => {
+    void loadExports();
+  }, [loadExports]);
+
+  const hasPending = exports.some(
+    (row) => row.status === "queued" || row.status === "processing"
+  );
+
+  useEffect(() => {
+    if (!hasPending) {
+      return;
+    }
+    const interval = setInterval(() => {
+      void loadExports();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPending, loadExports]);
+
+  const requestExport = async (type: ExportType) => {
+    setRequesting(type);
+    setError(null);
+    try {
+      const response = await fetch("/api/exports", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ streamId, type }),
+      });
+      if (!response.ok) {
+        setError("We couldn't queue that export. Try again in a moment.");
+        return;
+      }
+      await loadExports();
+    } catch {
+      setError("We couldn't queue that export. Try again in a moment.");
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Exports</h2>
+          <p className="mt-1 text-xs text-slate-500">
+            CSV has one row per 5s window; JSON bundles stream metadata, windows and spikes.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(["csv", "json"] as const).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => void requestExport(type)}
+              disabled={requesting !== null}
+              className="rounded-full border border-violet-500/40 bg-violet-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-violet-200 transition hover:border-violet-400 disabled:opacity-50"
+            >
+              {requesting === type ? "Queuing…" : `Export ${type}`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? <p className="mt-3 text-xs text-rose-300">{error}</p> : null}
+
+      <ul className="mt-4 space-y-2 text-sm">
+        {exports.length === 0 ? (
+          <li className="rounded-lg border border-dashed border-slate-800 bg-slate-900/30 px-3 py-2 text-xs text-slate-500">
+            No exports yet for this stream.
+          </li>
+        ) : (
+          exports.map((row) => (
+            <li
+              key={row.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2"
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-300">
+                  {row.type}
+                </span>
+                <span className="text-xs text-slate-500">
+                  {timeFormatter.format(new Date(row.createdAt))}
+                </span>
+              </div>
+              {row.status === "ready" && row.downloadUrl ? (
+                <a
+                  href={row.downloadUrl}
+                  download={row.fileName ?? undefined}
+                  className="text-xs font-medium text-violet-300 underline underline-offset-4"
+                >
+                  Download
+                </a>
+              ) : (
+                <span
+                  className={`text-xs uppercase tracking-[0.25em] ${STATUS_STYLES[row.status]}`}
+                  title={row.error ?? undefined}
+                >
+                  {row.status}
+                </span>
+              )}
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "../../../../../convex/_generated/api";
+import EventsCard from "@/app/(app)/dashboard/components/events-card";
+import TimelineCard from "@/app/(app)/dashboard/components/timeline-card";
+import TopTokensCard from "@/app/(app)/dashboard/components/top-tokens-card";
+import { ChatMessageText } from "@/app/(app)/dashboard/components/chat-message-text";
+import { describeChannelEvent } from "@/lib/twitch/channel-events";
+import { describeAnnotation } from "@/lib/twitch/moderation";
+import ExportPanel from "./export-panel";
+import { dateTimeFormatter, timeFormatter } from "./formatters";
+import WindowScrubber from "./window-scrubber";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const EXCERPT_LIMIT = 25;
+
+type StreamDetailPageProps = {
+  params: Promise<{ streamId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+type StreamDetail = NonNullable<Awaited<ReturnType<typeof loadStreamDetail>>>;
+type DetailWindow = StreamDetail["windows"][number];
+type ChatExcerpt = {
+  id: string;
+  author: string;
+  text: string;
+  postedAt: number;
+  emotes: Array<{ code: string; id?: string | null; imageUrl?: string | null; count: number }>;
+  moderated: boolean;
+};
+
+function loadStreamDetail(clerkUserId: string, streamId: string) {
+  return fetchQuery(api.history.getStreamDetail, { clerkUserId, streamId });
+}
+
+function formatDuration(durationMs: number | null) {
+  if (durationMs === null) {
+    return "Live";
+  }
+  const minutes = Math.floor(durationMs / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  return `${Math.max(1, minutes)}m`;
+}
+
+function formatSentiment(score: number | null) {
+  if (typeof score !== "number" || Number.isNaN(score)) {
+    return "--";
+  }
+  return new Intl.NumberFormat(undefined, {
+    signDisplay: "exceptZero",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(score);
+}
+
+function pickSelectedWindow(windows: DetailWindow[], at: string | string[] | undefined) {
+  if (windows.length === 0) {
+    return null;
+  }
+
+  const requested = typeof at === "string" ? Number(at) : Number.NaN;
+  if (Number.isFinite(requested)) {
+    const match = windows.find(
+      (window) => requested >= window.windowStart && requested < window.windowEnd
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  // Default to the busiest window so the page opens on the most interesting moment.
+  return windows.reduce((best, window) =>
+    window.messageCount > best.messageCount ? window : best
+  );
+}
+
+export default async function StreamDetailPage({ params, searchParams }: StreamDetailPageProps) {
+  const { userId } = await auth();
+  const { streamId } = await params;
+  const query = await searchParams;
+
+  let detail: StreamDetail | null = null;
+  let loadFailed = false;
+
+  if (userId) {
+    try {
+      detail = await loadStreamDetail(userId, streamId);
+    } catch (error) {
+      console.error("[history] Failed to load stream detail", error);
+      loadFailed = true;
+    }
+  }
+
+  if (!detail) {
+    return (
+      <div className="flex flex-col gap-4">
+        <Link href="/history" className="text-xs text-slate-500 underline underline-offset-4">
+          ← Back to history
+        </Link>
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-10 text-center text-sm text-slate-400">
+          {loadFailed
+            ? "We couldn't load this stream. Refresh to try again."
+            : "This stream doesn't exist or belongs to another workspace."}
+        </div>
+      </div>
+    );
+  }
+
+  const { stream, windows, spikes, channelEvents, annotations } = detail;
+  const selected = pickSelectedWindow(windows, query.at);
+
+  let excerpts: ChatExcerpt[] = [];
+  if (userId && selected) {
+    try {
+      excerpts = await fetchQuery(api.history.getChatExcerpts, {
+        clerkUserId: userId,
+        streamId,
+        from: selected.windowStart,
+        to: selected.windowEnd,
+        limit: EXCERPT_LIMIT,
+      });
+    } catch (error) {
+      console.error("[history] Failed to load chat excerpts", error);
+    }
+  }
+
+  const emoteImages = new Map<string, { id?: string | null; imageUrl?: string | null }>();
+  for (const excerpt of excerpts) {
+    for (const emote of excerpt.emotes) {
+      if (!emoteImages.has(emote.code)) {
+        emoteImages.set(emote.code, { id: emote.id, imageUrl: emote.imageUrl });
+      }
+    }
+  }
+
+  const timelinePoints = windows.map((window) => ({
+    timestamp: window.windowStart,
+    velocity: window.messageCount,
+    sentiment: window.sentimentScore,
+  }));
+
+  const describedChannelEvents = channelEvents.map((event) => ({
+    id: event.id,
+    timestamp: event.occurredAt,
+    ...describeChannelEvent(event),
+  }));
+
+  const describedAnnotations = annotations.map((annotation) => ({
+    id: annotation.id,
+    timestamp: annotation.occurredAt,
+    ...describeAnnotation(annotation),
+  }));
+
+  const timelineMarkers = [
+    ...spikes.map((spike) => ({
+      id: spike.id,
+      start: spike.windowStart,
+      end: spike.windowEnd,
+      label: `z ${spike.strength.toFixed(1)} · ${spike.messageCount.toLocaleString()} msgs`,
+    })),
+    ...[...describedChannelEvents, ...describedAnnotations].map((event) => ({
+      id: event.id,
+      start: event.timestamp,
+      end: event.timestamp,
+      label: event.detail,
+    })),
+  ];
+
+  const spikeEvents = spikes.map((spike) => ({
+    id: spike.id,
+    title: "Volume spike",
+    detail: `${spike.messageCount.toLocaleString()} messages (z ${spike.strength.toFixed(1)})`,
+    timestamp: spike.windowStart,
+  }));
+
+  const stats = [
+    { label: "Duration", value: formatDuration(stream.durationMs) },
+    { label: "Messages", value: stream.messageCount.toLocaleString() },
+    { label: "Chatters", value: stream.uniqueChatters.toLocaleString() },
+    { label: "Avg. sentiment", value: formatSentiment(stream.averageSentiment) },
+    { label: "Spikes", value: stream.spikeCount.toLocaleString() },
+  ];
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section className="flex flex-col gap-3">
+        <Link href="/history" className="text-xs text-slate-500 underline underline-offset-4">
+          ← Back to history
+        </Link>
+        <h1 className="text-3xl font-semibold tracking-tight">
+          {stream.title ?? dateTimeFormatter.format(new Date(stream.startedAt))}
+        </h1>
+        <p className="text-sm text-slate-400">
+          {dateTimeFormatter.format(new Date(stream.startedAt))} UTC
+          {stream.endedAt ? ` – ${dateTimeFormatter.format(new Date(stream.endedAt))} UTC` : " · live"}
+        </p>
+      </section>
+
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4">
+            <dt className="text-xs uppercase tracking-[0.3em] text-slate-500">{stat.label}</dt>
+            <dd className="mt-2 text-xl font-semibold text-slate-100">{stat.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <TimelineCard
+        points={timelinePoints}
+        markers={timelineMarkers}
+        selectedTimestamp={selected?.windowStart ?? null}
+        title="Message rate & sentiment"
+        description="Messages per 5s window, sentiment dashed, spikes, channel events and chat mode changes highlighted."
+        rangeLabel={`${windows.length.toLocaleString()} windows`}
+      />
+
+      <WindowScrubber
+        windows={windows.map(({ windowStart, windowEnd, messageCount }) => ({
+          windowStart,
+          windowEnd,
+          messageCount,
+        }))}
+        selectedStart={selected?.windowStart ?? null}
+      />
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-xl font-semibold text-slate-100">Chat excerpt</h2>
+            {selected ? (
+              <span className="text-xs text-slate-500">
+                {timeFormatter.format(new Date(selected.windowStart))} –{" "}
+                {timeFormatter.format(new Date(selected.windowEnd))} UTC
+              </span>
+            ) : null}
+          </div>
+          <ul className="mt-4 space-y-2 text-sm">
+            {excerpts.length === 0 ? (
+              <li className="rounded-lg border border-dashed border-slate-800 bg-slate-900/30 px-3 py-2 text-xs text-slate-500">
+                {selected ? "No messages stored for this window." : "No windows recorded for this stream."}
+              </li>
+            ) : (
+              excerpts.map((excerpt) => (
+                <li key={excerpt.id} className="flex gap-3 text-slate-300">
+                  <span className="shrink-0 text-xs text-slate-500">
+                    {timeFormatter.format(new Date(excerpt.postedAt))}
+                  </span>
+                  <span className="font-medium text-violet-300">{excerpt.author}</span>
+                  {excerpt.moderated ? (
+                    <span className="italic text-slate-500">Removed by a moderator</span>
+                  ) : (
+                    <ChatMessageText text={excerpt.text} emotes={excerpt.emotes} />
+                  )}
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+
+        <TopTokensCard
+          tokens={(selected?.topTokens ?? []).map((token) => ({
+            name: token.token,
+            count: token.count,
+          }))}
+          emotes={(selected?.topEmotes ?? []).map((emote) => ({
+            code: emote.emote,
+            count: emote.count,
+            ...emoteImages.get(emote.emote),
+          }))}
+        />
+      </div>
+
+      <EventsCard
+        events={spikeEvents}
+        title="Spikes"
+        description="Windows where chat volume jumped well above its rolling baseline."
+        emptyLabel="No spikes detected during this stream."
+        timestampMode="absolute"
+      />
+
+      <EventsCard
+        events={describedChannelEvents}
+        title="Channel events"
+        description="Subs, gift subs, raids, cheers and announcements during this stream."
+        emptyLabel="No subs, raids or cheers recorded for this stream."
+        timestampMode="absolute"
+      />
+
+      <EventsCard
+        events={describedAnnotations}
+        title="Chat modes"
+        description="Slow, emote-only, followers-only and subscriber-only changes that throttle chat."
+        emptyLabel="Chat modes didn't change during this stream."
+        timestampMode="absolute"
+      />
+
+      <ExportPanel streamId={stream.id} />
+    </div>
+  );
+}
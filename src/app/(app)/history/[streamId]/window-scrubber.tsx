@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState, useTransition } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { timeFormatter } from "./formatters";
+
+type ScrubberWindow = {
+  windowStart: number;
+  windowEnd: number;
+  messageCount: number;
+};
+
+type WindowScrubberProps = {
+  windows: ScrubberWindow[];
+  selectedStart: number | null;
+};
+
+export default function WindowScrubber({ windows, selectedStart }: WindowScrubberProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [isPending, startTransition] = useTransition();
+  const selectedIndex = Math.max(
+    0,
+    windows.findIndex((window) => window.windowStart === selectedStart)
+  );
+  const [index, setIndex] = useState(selectedIndex);
+
+  useEffect(() => {
+    setIndex(selectedIndex);
+  }, [selectedIndex]);
+
+  if (windows.length === 0) {
+    return null;
+  }
+
+  const current = windows[Math.min(index, windows.length - 1)];
+
+  const commit = (nextIndex: number) => {
+    const bounded = Math.min(Math.max(nextIndex, 0), windows.length - 1);
+    setIndex(bounded);
+    const target = windows[bounded];
+    if (!target || target.windowStart === selectedStart) {
+      return;
+    }
+    startTransition(() => {
+      router.replace(`${pathname}?at=${target.windowStart}`, { scroll: false });
+    });
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-500">
+        <p className="uppercase tracking-[0.3em]">Window scrubber</p>
+        <p>
+          {timeFormatter.format(new Date(current.windowStart))} –{" "}
+          {timeFormatter.format(new Date(current.windowEnd))} UTC ·{" "}
+          {current.messageCount.toLocaleString()} messages
+          {isPending ? " · loading…" : ""}
+        </p>
+      </div>
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => commit(index - 1)}
+          disabled={index === 0}
+          aria-label="Previous window"
+          className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-300 transition hover:border-violet-500 disabled:opacity-40"
+        >
+          ←
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={windows.length - 1}
+          value={index}
+          aria-label="Scrub through stream windows"
+          onChange={(event) => setIndex(Number(event.target.value))}
+          onPointerUp={(event) => commit(Number((event.target as HTMLInputElement).value))}
+          onKeyUp={(event) => commit(Number((event.target as HTMLInputElement).value))}
+          className="flex-1 accent-violet-500"
+        />
+        <button
+          type="button"
+          onClick={() => commit(index + 1)}
+          disabled={index >= windows.length - 1}
+          aria-label="Next window"
+          className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-300 transition hover:border-violet-500 disabled:opacity-40"
+        >
+          →
+        </button>
+      </div>
+    </div>
+  );
+}
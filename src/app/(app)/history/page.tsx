@@ -0,0 +1,292 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "../../../../convex/_generated/api";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const PAGE_SIZE = 20;
+
+type SortKey = "startedAt" | "messageCount" | "averageSentiment" | "spikeCount";
+type SortOrder = "asc" | "desc";
+
+type HistoryRow = {
+  id: string;
+  title: string | null;
+  status: "pending" | "live" | "completed";
+  startedAt: number;
+  endedAt: number | null;
+  durationMs: number | null;
+  messageCount: number;
+  uniqueChatters: number;
+  spikeCount: number;
+  averageSentiment: number | null;
+};
+
+type HistoryPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const SORT_OPTIONS: Array<{ value: SortKey; label: string }> = [
+  { value: "startedAt", label: "Start time" },
+  { value: "messageCount", label: "Messages" },
+  { value: "averageSentiment", label: "Avg. sentiment" },
+  { value: "spikeCount", label: "Spikes" },
+];
+
+const dateTimeFormatter = new Intl.DateTimeFormat("en-GB", {
+  day: "2-digit",
+  month: "short",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+  timeZone: "UTC",
+});
+
+function readParam(params: Record<string, string | string[] | undefined>, key: string) {
+  const value = params[key];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function parseSortKey(value: string | null): SortKey {
+  return SORT_OPTIONS.some((option) => option.value === value) ? (value as SortKey) : "startedAt";
+}
+
+function parseDateBoundary(value: string | null, boundary: "start" | "end") {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined;
+  }
+  const parsed = Date.parse(`${value}T${boundary === "start" ? "00:00:00.000" : "23:59:59.999"}Z`);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function formatDuration(durationMs: number | null, status: HistoryRow["status"]) {
+  if (durationMs === null) {
+    return status === "live" ? "Live" : "--";
+  }
+  const minutes = Math.floor(durationMs / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  return `${Math.max(1, minutes)}m`;
+}
+
+function formatSentiment(score: number | null) {
+  if (typeof score !== "number" || Number.isNaN(score)) {
+    return { label: "--", tone: "text-slate-500" };
+  }
+  const formatted = new Intl.NumberFormat(undefined, {
+    signDisplay: "exceptZero",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(score);
+  if (score > 0.05) {
+    return { label: formatted, tone: "text-emerald-300" };
+  }
+  if (score < -0.05) {
+    return { label: formatted, tone: "text-rose-300" };
+  }
+  return { label: formatted, tone: "text-amber-300" };
+}
+
+function buildHref(base: Record<string, string | null>, overrides: Record<string, string | null>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...base, ...overrides })) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  const query = params.toString();
+  return query ? `/history?${query}` : "/history";
+}
+
+export default async function HistoryPage({ searchParams }: HistoryPageProps) {
+  const { userId } = await auth();
+  const params = await searchParams;
+
+  const sortBy = parseSortKey(readParam(params, "sort"));
+  const order: SortOrder = readParam(params, "order") === "asc" ? "asc" : "desc";
+  const from = readParam(params, "from");
+  const to = readParam(params, "to");
+  const cursor = readParam(params, "cursor");
+
+  let rows: HistoryRow[] = [];
+  let isDone = true;
+  let continueCursor: string | null = null;
+  let loadFailed = false;
+
+  if (userId) {
+    try {
+      const result = await fetchQuery(api.history.listStreams, {
+        clerkUserId: userId,
+        paginationOpts: { numItems: PAGE_SIZE, cursor },
+        sortBy,
+        order,
+        startedAfter: parseDateBoundary(from, "start"),
+        startedBefore: parseDateBoundary(to, "end"),
+      });
+      rows = result.page;
+      isDone = result.isDone;
+      continueCursor = result.continueCursor;
+    } catch (error) {
+      console.error("[history] Failed to load stream history", error);
+      loadFailed = true;
+    }
+  }
+
+  const baseParams = { sort: sortBy, order, from, to };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section className="flex flex-col gap-3">
+        <h1 className="text-3xl font-semibold tracking-tight">Stream History</h1>
+        <p className="max-w-2xl text-sm text-slate-400">
+          Every session StreamerPulse recorded for your channel. Totals are finalised when the
+          stream ends; live sessions keep updating.
+        </p>
+      </section>
+
+      <form
+        method="get"
+        className="flex flex-wrap items-end gap-4 rounded-2xl border border-slate-800 bg-slate-900/60 p-4 text-sm"
+      >
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.3em] text-slate-500">
+          From
+          <input
+            type="date"
+            name="from"
+            defaultValue={from ?? undefined}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm normal-case tracking-normal text-slate-200"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.3em] text-slate-500">
+          To
+          <input
+            type="date"
+            name="to"
+            defaultValue={to ?? undefined}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm normal-case tracking-normal text-slate-200"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.3em] text-slate-500">
+          Sort by
+          <select
+            name="sort"
+            defaultValue={sortBy}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm normal-case tracking-normal text-slate-200"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.3em] text-slate-500">
+          Order
+          <select
+            name="order"
+            defaultValue={order}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm normal-case tracking-normal text-slate-200"
+          >
+            <option value="desc">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="rounded-full border border-violet-500/40 bg-violet-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-violet-200 transition hover:border-violet-400"
+        >
+          Apply
+        </button>
+        {(from || to || sortBy !== "startedAt" || order !== "desc") && (
+          <Link href="/history" className="text-xs text-slate-500 underline underline-offset-4">
+            Reset
+          </Link>
+        )}
+      </form>
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-800 bg-slate-900/40">
+        <table className="w-full min-w-[48rem] text-left text-sm">
+          <thead className="border-b border-slate-800 text-xs uppercase tracking-[0.25em] text-slate-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Stream</th>
+              <th className="px-4 py-3 font-medium">Started (UTC)</th>
+              <th className="px-4 py-3 font-medium">Ended (UTC)</th>
+              <th className="px-4 py-3 font-medium">Duration</th>
+              <th className="px-4 py-3 text-right font-medium">Messages</th>
+              <th className="px-4 py-3 text-right font-medium">Chatters</th>
+              <th className="px-4 py-3 text-right font-medium">Avg. sentiment</th>
+              <th className="px-4 py-3 text-right font-medium">Spikes</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-900">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-10 text-center text-xs text-slate-500">
+                  {loadFailed
+                    ? "We couldn't load your stream history. Refresh to try again."
+                    : from || to
+                      ? "No streams started in the selected date range."
+                      : "No streams recorded yet. Go live with the ingestion worker running to see sessions here."}
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => {
+                const sentiment = formatSentiment(row.averageSentiment);
+                return (
+                  <tr key={row.id} className="text-slate-300">
+                    <td className="px-4 py-3">
+                      <Link
+                        href={`/history/${row.id}`}
+                        className="block font-medium text-slate-100 underline-offset-4 hover:text-violet-300 hover:underline"
+                      >
+                        {row.title ?? dateTimeFormatter.format(new Date(row.startedAt))}
+                      </Link>
+                      {row.status !== "completed" && (
+                        <p className="mt-1 text-[10px] uppercase tracking-[0.25em] text-emerald-300">
+                          {row.status}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">{dateTimeFormatter.format(new Date(row.startedAt))}</td>
+                    <td className="px-4 py-3">
+                      {row.endedAt ? dateTimeFormatter.format(new Date(row.endedAt)) : "--"}
+                    </td>
+                    <td className="px-4 py-3">{formatDuration(row.durationMs, row.status)}</td>
+                    <td className="px-4 py-3 text-right">{row.messageCount.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right">{row.uniqueChatters.toLocaleString()}</td>
+                    <td className={`px-4 py-3 text-right font-medium ${sentiment.tone}`}>
+                      {sentiment.label}
+                    </td>
+                    <td className="px-4 py-3 text-right">{row.spikeCount.toLocaleString()}</td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <nav className="flex items-center justify-between text-xs text-slate-500">
+        {cursor ? (
+          <Link href={buildHref(baseParams, {})} className="underline underline-offset-4">
+            Back to first page
+          </Link>
+        ) : (
+          <span />
+        )}
+        {!isDone && continueCursor ? (
+          <Link
+            href={buildHref(baseParams, { cursor: continueCursor })}
+            className="rounded-full border border-slate-700 px-4 py-2 font-medium text-slate-300 transition hover:border-violet-500 hover:text-violet-300"
+          >
+            Next page
+          </Link>
+        ) : null}
+      </nav>
+    </div>
+  );
+}
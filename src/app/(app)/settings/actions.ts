@@ -0,0 +1,124 @@
+'use server';
+
+import { auth } from "@clerk/nextjs/server";
+import { fetchMutation } from "convex/nextjs";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { api } from "../../../../convex/_generated/api";
+import { readEnv } from "@/lib/env";
+import { createTwitchOAuthClient, revokeTwitchTokens } from "@/lib/twitch/oauth";
+
+export async function updateRawMessageCap(formData: FormData) {
+  const { userId } = await auth();
+  if (!userId) {
+    redirect("/sign-in");
+  }
+
+  const raw = formData.get("rawMessageCap");
+  const rawMessageCap = typeof raw === "string" ? Number(raw.replace(/[_,\s]/g, "")) : Number.NaN;
+
+  let outcome: "saved" | "invalid" = "saved";
+  try {
+    await fetchMutation(api.users.updateWorkspaceSettings, {
+      clerkUserId: userId,
+      rawMessageCap,
+      secret: readEnv().CONVEX_WORKSPACE_SECRET,
+    });
+  } catch (error) {
+    console.error("[settings] Failed to update raw message cap", error);
+    outcome = "invalid";
+  }
+
+  revalidatePath("/settings");
+  redirect(`/settings?rawCap=${outcome}`);
+}
+
+export async function createShareLink(input: { label: string; expiresInHours: number }) {
+  const { userId } = await auth();
+  if (!userId) {
+    return { ok: false as const, error: "Sign in to create share links." };
+  }
+
+  try {
+    const result = await fetchMutation(api.shareTokens.createShareToken, {
+      clerkUserId: userId,
+      label: input.label,
+      expiresInHours: input.expiresInHours,
+      secret: readEnv().CONVEX_WORKSPACE_SECRET,
+    });
+    revalidatePath("/settings");
+    return { ok: true as const, token: result.token, expiresAt: result.expiresAt };
+  } catch (error) {
+    console.error("[settings] Failed to create share link", error);
+    return { ok: false as const, error: "We couldn't create that share link." };
+  }
+}
+
+export async function revokeShareLink(tokenId: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return { ok: false as const };
+  }
+
+  try {
+    await fetchMutation(api.shareTokens.revokeShareToken, {
+      clerkUserId: userId,
+      tokenId,
+      secret: readEnv().CONVEX_WORKSPACE_SECRET,
+    });
+    revalidatePath("/settings");
+    return { ok: true as const };
+  } catch (error) {
+    console.error("[settings] Failed to revoke share link", error);
+    return { ok: false as const };
+  }
+}
+
+export async function disconnectTwitch() {
+  const { userId } = await auth();
+  if (!userId) {
+    return { ok: false as const, error: "Sign in to manage your Twitch connection." };
+  }
+
+  const env = readEnv();
+  if (!env.CONVEX_WORKSPACE_SECRET) {
+    console.error("[settings] CONVEX_WORKSPACE_SECRET is not configured; cannot disconnect");
+    return { ok: false as const, error: "Disconnecting isn't configured on this server." };
+  }
+
+  let detached: { channelLogin: string; tokens: string[] };
+  try {
+    detached = await fetchMutation(api.integrations.disconnectIntegration, {
+      clerkUserId: userId,
+      secret: env.CONVEX_WORKSPACE_SECRET,
+    });
+  } catch (error) {
+    console.error("[settings] Failed to disconnect Twitch integration", error);
+    return { ok: false as const, error: "We couldn't disconnect your channel." };
+  }
+
+  // The channel is already detached on our side; a failed revocation only
+  // means Twitch may list the app until the tokens expire.
+  let revoked = detached.tokens.length === 0;
+  if (!revoked && env.TWITCH_CLIENT_ID) {
+    const result = await revokeTwitchTokens(
+      createTwitchOAuthClient({ clientId: env.TWITCH_CLIENT_ID }),
+      detached.tokens
+    );
+    revoked = result.ok;
+    if (!result.ok) {
+      console.warn("[settings] Twitch did not confirm token revocation", {
+        channelLogin: detached.channelLogin,
+        failures: result.failures.map(({ status, message }) => ({ status, message })),
+      });
+    }
+  } else if (!revoked) {
+    console.warn("[settings] TWITCH_CLIENT_ID is not configured; skipping token revocation", {
+      channelLogin: detached.channelLogin,
+    });
+  }
+
+  revalidatePath("/settings");
+  revalidatePath("/dashboard");
+  return { ok: true as const, revoked };
+}
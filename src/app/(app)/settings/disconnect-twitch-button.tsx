@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { disconnectTwitch } from "./actions";
+
+type DisconnectTwitchButtonProps = {
+  channelLogin: string;
+};
+
+export default function DisconnectTwitchButton({ channelLogin }: DisconnectTwitchButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDisconnect = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await disconnectTwitch();
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setConfirming(false);
+      router.replace(`/settings?twitch=${result.revoked ? "disconnected" : "unrevoked"}`);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {confirming ? (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-xs text-rose-100">
+          <p>
+            Disconnect #{channelLogin}? Ingestion stops within seconds and StreamerPulse&apos;s
+            access to your Twitch account is revoked. Past streams and metrics are kept.
+          </p>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              onClick={handleDisconnect}
+              disabled={isPending}
+              className="rounded-full border border-rose-500/50 bg-rose-500/20 px-4 py-2 font-semibold uppercase tracking-[0.25em] text-rose-100 transition hover:border-rose-400 disabled:opacity-50"
+            >
+              {isPending ? "Disconnecting…" : "Disconnect"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirming(false)}
+              disabled={isPending}
+              className="rounded-full border border-slate-700 px-4 py-2 font-semibold uppercase tracking-[0.25em] text-slate-300 transition hover:border-slate-500 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setConfirming(true)}
+          className="rounded-full border border-rose-500/40 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-rose-200 transition hover:border-rose-400"
+        >
+          Disconnect Twitch
+        </button>
+      )}
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { fetchQuery } from "convex/nextjs";
 import { api } from "../../../../convex/_generated/api";
+import Link from "next/link";
+import { updateRawMessageCap } from "./actions";
+import DisconnectTwitchButton from "./disconnect-twitch-button";
+import ShareLinksPanel from "./share-links-panel";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -13,14 +17,35 @@ type WorkspaceSummary = {
     connectedAt?: number | null;
   } | null;
   ingestionStatus: "idle" | "listening" | "errored";
+  rawMessageCap: number;
 } | null;
 
 type SummaryChannel = NonNullable<Exclude<WorkspaceSummary, null>>["channel"];
 
-export default async function SettingsPage() {
+const DEFAULT_RAW_MESSAGE_CAP = 200_000;
+
+const CHANNEL_STATUS_LABELS: Record<string, string> = {
+  connected: "Connected",
+  disconnected: "Disconnected",
+  revoked: "Access revoked on Twitch",
+};
+
+function fetchShareLinks(clerkUserId: string) {
+  return fetchQuery(api.shareTokens.listShareTokens, { clerkUserId });
+}
+
+type SettingsPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function SettingsPage({ searchParams }: SettingsPageProps) {
   const [{ userId }, user] = await Promise.all([auth(), currentUser()]);
+  const params = await searchParams;
+  const rawCapOutcome = params.rawCap;
+  const twitchOutcome = params.twitch;
 
   let summary: WorkspaceSummary = null;
+  let shareLinks: Awaited<ReturnType<typeof fetchShareLinks>> = [];
   if (userId) {
     try {
       summary = await fetchQuery(api.users.getWorkspaceSummary, { clerkUserId: userId });
@@ -28,6 +53,11 @@ export default async function SettingsPage() {
       console.error("[settings] Failed to load workspace summary", error);
       summary = null;
     }
+    try {
+      shareLinks = await fetchShareLinks(userId);
+    } catch (error) {
+      console.error("[settings] Failed to load share links", error);
+    }
   }
 
   const twitchAccount = user?.externalAccounts?.find((account) =>
@@ -82,6 +112,42 @@ export default async function SettingsPage() {
               <dd>Raw chat retained 90 days. Aggregates stored indefinitely.</dd>
             </div>
           </dl>
+          <form action={updateRawMessageCap} className="mt-6 space-y-2 text-sm">
+            <label htmlFor="rawMessageCap" className="block font-medium text-slate-300">
+              Raw message cap per stream
+            </label>
+            <p className="text-xs text-slate-500">
+              Once a stream passes this many messages we stop storing raw chat and keep aggregates
+              only. Live metrics are unaffected.
+            </p>
+            <div className="flex items-center gap-3">
+              <input
+                id="rawMessageCap"
+                name="rawMessageCap"
+                type="number"
+                min={1000}
+                max={1000000}
+                step={1000}
+                defaultValue={summary?.rawMessageCap ?? DEFAULT_RAW_MESSAGE_CAP}
+                disabled={!summary}
+                className="w-40 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200"
+              />
+              <button
+                type="submit"
+                disabled={!summary}
+                className="rounded-full border border-violet-500/40 bg-violet-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-violet-200 transition hover:border-violet-400 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            {rawCapOutcome === "saved" ? (
+              <p className="text-xs text-emerald-300">Raw message cap updated.</p>
+            ) : rawCapOutcome === "invalid" ? (
+              <p className="text-xs text-rose-300">
+                Enter a whole number between 1,000 and 1,000,000.
+              </p>
+            ) : null}
+          </form>
         </div>
 
         <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
@@ -97,7 +163,7 @@ export default async function SettingsPage() {
                 <>
                   <p className="mt-1 text-slate-200">#{channel.displayName ?? channel.login}</p>
                   <p className="mt-2 text-xs text-slate-500">
-                    Status: {channel.status === "connected" ? "Connected" : channel.status}
+                    Status: {CHANNEL_STATUS_LABELS[channel.status] ?? channel.status}
                   </p>
                 </>
               ) : (
@@ -114,10 +180,43 @@ export default async function SettingsPage() {
               </p>
             </div>
             <p className="text-xs uppercase tracking-[0.3em] text-violet-300">
-              {channel ? "Connected" : "Not connected"}
+              {channel?.status === "connected" ? "Connected" : "Not connected"}
             </p>
+            {summaryChannel?.status === "connected" ? (
+              <DisconnectTwitchButton channelLogin={summaryChannel.login} />
+            ) : summaryChannel ? (
+              <Link
+                href="/dashboard/connect"
+                className="inline-flex rounded-full border border-violet-500/40 bg-violet-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-violet-200 transition hover:border-violet-400"
+              >
+                Reconnect Twitch
+              </Link>
+            ) : null}
+            {twitchOutcome === "disconnected" ? (
+              <p className="text-xs text-emerald-300">
+                Twitch disconnected and access revoked. Reconnect any time to resume ingestion.
+              </p>
+            ) : twitchOutcome === "unrevoked" ? (
+              <p className="text-xs text-amber-300">
+                Twitch disconnected, but Twitch didn&apos;t confirm the revocation. You can also
+                remove StreamerPulse under Connections in your Twitch settings.
+              </p>
+            ) : twitchOutcome === "reauth_required" ? (
+              <p className="text-xs text-amber-300">
+                Twitch no longer accepts the access it granted before, so your channel is still
+                disconnected. Sign out, sign in with Twitch again to approve StreamerPulse, then
+                reconnect.
+              </p>
+            ) : twitchOutcome === "twitch_unreachable" ? (
+              <p className="text-xs text-amber-300">
+                We couldn&apos;t check your Twitch access, so your channel is still disconnected.
+                Try reconnecting again in a moment.
+              </p>
+            ) : null}
           </div>
         </div>
+
+        <ShareLinksPanel channelLogin={summary?.channel?.login ?? null} links={shareLinks} />
       </div>
     </div>
   );
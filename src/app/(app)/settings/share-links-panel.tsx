@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { createShareLink, revokeShareLink } from "./actions";
+
+type ShareLink = {
+  id: string;
+  label: string | null;
+  createdAt: number;
+  expiresAt: number;
+  status: "active" | "expired" | "revoked";
+};
+
+type ShareLinksPanelProps = {
+  channelLogin: string | null;
+  links: ShareLink[];
+};
+
+const EXPIRY_OPTIONS = [
+  { hours: 6, label: "6 hours" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" },
+];
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  day: "2-digit",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+export default function ShareLinksPanel({ channelLogin, links }: ShareLinksPanelProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [label, setLabel] = useState("");
+  const [expiresInHours, setExpiresInHours] = useState(EXPIRY_OPTIONS[1].hours);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    if (!channelLogin) {
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await createShareLink({ label, expiresInHours });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setCreatedUrl(
+        `${window.location.origin}/share/${encodeURIComponent(channelLogin)}?token=${result.token}`
+      );
+      setLabel("");
+      router.refresh();
+    });
+  };
+
+  const handleRevoke = (id: string) => {
+    startTransition(async () => {
+      const result = await revokeShareLink(id);
+      if (!result.ok) {
+        setError("We couldn't revoke that link. Try again.");
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-xl font-semibold">Share live dashboard</h2>
+      <p className="mt-2 text-sm text-slate-400">
+        Give moderators or editors a read-only link to your live dashboard. Links expire
+        automatically and can be revoked at any time.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.3em] text-slate-500">
+          Label
+          <input
+            value={label}
+            onChange={(event) => setLabel(event.target.value)}
+            placeholder="e.g. Mod team"
+            maxLength={80}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm normal-case tracking-normal text-slate-200"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.3em] text-slate-500">
+          Expires after
+          <select
+            value={expiresInHours}
+            onChange={(event) => setExpiresInHours(Number(event.target.value))}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm normal-case tracking-normal text-slate-200"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.hours} value={option.hours}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={!channelLogin || isPending}
+          className="rounded-full border border-violet-500/40 bg-violet-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-violet-200 transition hover:border-violet-400 disabled:opacity-50"
+        >
+          Create link
+        </button>
+      </div>
+
+      {createdUrl ? (
+        <div className="mt-4 rounded-xl border border-emerald-500/30 bg-emerald-500/10 p-3 text-xs text-emerald-100">
+          <p className="font-medium">Copy this link now — it won&apos;t be shown again.</p>
+          <input
+            readOnly
+            value={createdUrl}
+            onFocus={(event) => event.currentTarget.select()}
+            className="mt-2 w-full rounded-lg border border-emerald-500/30 bg-slate-950 px-3 py-2 text-slate-200"
+          />
+        </div>
+      ) : null}
+      {error ? <p className="mt-3 text-xs text-rose-300">{error}</p> : null}
+
+      <ul className="mt-4 space-y-2 text-sm">
+        {links.length === 0 ? (
+          <li className="rounded-lg border border-dashed border-slate-800 bg-slate-900/30 px-3 py-2 text-xs text-slate-500">
+            No share links yet.
+          </li>
+        ) : (
+          links.map((link) => (
+            <li
+              key={link.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2"
+            >
+              <div>
+                <p className="text-slate-200">{link.label ?? "Untitled link"}</p>
+                <p className="text-xs text-slate-500">
+                  {link.status === "active"
+                    ? `Expires ${dateFormatter.format(new Date(link.expiresAt))}`
+                    : link.status === "expired"
+                      ? "Expired"
+                      : "Revoked"}
+                </p>
+              </div>
+              {link.status === "active" ? (
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(link.id)}
+                  disabled={isPending}
+                  className="text-xs font-medium text-rose-300 underline underline-offset-4 disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+              ) : null}
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+}
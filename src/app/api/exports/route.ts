@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { fetchMutation, fetchQuery } from "convex/nextjs";
+import { z } from "zod";
+import { api } from "../../../../convex/_generated/api";
+import { readEnv } from "@/lib/env";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const ExportRequestSchema = z.object({
+  streamId: z.string().min(1),
+  type: z.enum(["csv", "json"]),
+});
+
+export async function GET(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "unauthenticated" }, { status: 401 });
+  }
+
+  const streamId = new URL(request.url).searchParams.get("streamId");
+  if (!streamId) {
+    return NextResponse.json({ error: "streamId is required" }, { status: 400 });
+  }
+
+  try {
+    const exports = await fetchQuery(api.exports.listStreamExports, {
+      clerkUserId: userId,
+      streamId,
+      secret: readEnv().CONVEX_WORKSPACE_SECRET,
+    });
+    return NextResponse.json({ exports });
+  } catch (error) {
+    console.error("[exports] Failed to list exports", error);
+    return NextResponse.json({ error: "Failed to load exports" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "unauthenticated" }, { status: 401 });
+  }
+
+  let body: z.infer<typeof ExportRequestSchema>;
+  try {
+    body = ExportRequestSchema.parse(await request.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid export request" }, { status: 400 });
+  }
+
+  try {
+    const result = await fetchMutation(api.exports.requestExport, {
+      clerkUserId: userId,
+      streamId: body.streamId,
+      type: body.type,
+      secret: readEnv().CONVEX_WORKSPACE_SECRET,
+    });
+    return NextResponse.json(result, { status: result.reused ? 200 : 202 });
+  } catch (error) {
+    console.error("[exports] Failed to queue export", error);
+    const message = error instanceof Error ? error.message : String(error);
+    const status = message.includes("Stream not found") ? 404 : 500;
+    return NextResponse.json({ error: "Failed to queue export" }, { status });
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { fetchQuery } from "convex/nextjs";
 import { api } from "../../../../../convex/_generated/api";
+import { resolveListeningControl, resolveSessionStatus } from "@/lib/ingestion-health";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -41,8 +42,25 @@ export async function GET() {
       });
     }
 
+    const heartbeat = summary.heartbeat ?? null;
+    const listening = summary.listening;
+    const now = Date.now();
     return NextResponse.json({
-      status: summary.ingestionStatus ?? "idle",
+      status: resolveSessionStatus(summary.ingestionStatus ?? "idle", heartbeat, now, listening.enabled),
+      listening: {
+        enabled: listening.enabled,
+        requestedAt: listening.requestedAt,
+        control: resolveListeningControl(listening, heartbeat, now),
+      },
+      worker: heartbeat
+        ? {
+            connectionState: heartbeat.connectionState,
+            authMode: heartbeat.authMode,
+            lastChatAt: heartbeat.lastChatAt,
+            buildVersion: heartbeat.buildVersion,
+            lastHeartbeatAt: heartbeat.beatAt,
+          }
+        : null,
       channel: summary.channel
         ? {
             login: summary.channel.login,
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { fetchMutation, fetchQuery } from "convex/nextjs";
+import { z } from "zod";
+import { api } from "../../../../convex/_generated/api";
+import { readEnv } from "@/lib/env";
+import { MAX_PLAUSIBLE_LATENCY_MS, SERVER_TIME_HEADER } from "@/lib/latency";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const LatencyMs = z.number().finite().nonnegative().max(MAX_PLAUSIBLE_LATENCY_MS);
+
+const LatencyReportSchema = z.object({
+  channel: z.string().trim().min(1).max(64),
+  windowStart: z.number().int().positive(),
+  windowEnd: z.number().int().positive(),
+  count: z.number().int().positive().max(100_000),
+  p50Ms: LatencyMs,
+  p95Ms: LatencyMs,
+  maxMs: LatencyMs,
+  clockOffsetMs: z.number().finite(),
+});
+
+function serverTimeHeaders() {
+  return {
+    [SERVER_TIME_HEADER]: String(Date.now()),
+    "Cache-Control": "no-store",
+  };
+}
+
+// The dashboard's clock probe: only the header matters, so keep the round trip cheap.
+export async function HEAD() {
+  return new Response(null, { status: 204, headers: serverTimeHeaders() });
+}
+
+export async function GET(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "unauthenticated" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const channel = url.searchParams.get("channel")?.toLowerCase().trim();
+  if (!channel) {
+    return NextResponse.json({ error: "channel is required" }, { status: 400 });
+  }
+  const sinceRaw = Number(url.searchParams.get("since"));
+
+  try {
+    const history = await fetchQuery(api.latency.getLatencyHistory, {
+      clerkUserId: userId,
+      channelLogin: channel,
+      since: Number.isFinite(sinceRaw) && sinceRaw > 0 ? sinceRaw : undefined,
+    });
+    if (!history) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    }
+    return NextResponse.json(history, { headers: serverTimeHeaders() });
+  } catch (error) {
+    console.error("[latency] Failed to load latency history", error);
+    return NextResponse.json({ error: "Failed to load latency history" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "unauthenticated" }, { status: 401 });
+  }
+
+  let body: z.infer<typeof LatencyReportSchema>;
+  try {
+    body = LatencyReportSchema.parse(await request.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid latency report" }, { status: 400 });
+  }
+
+  try {
+    await fetchMutation(api.latency.recordLatencyWindow, {
+      clerkUserId: userId,
+      channelLogin: body.channel,
+      windowStart: body.windowStart,
+      windowEnd: body.windowEnd,
+      sampleCount: body.count,
+      p50Ms: body.p50Ms,
+      p95Ms: body.p95Ms,
+      maxMs: body.maxMs,
+      clockOffsetMs: body.clockOffsetMs,
+      secret: readEnv().CONVEX_WORKSPACE_SECRET,
+    });
+    return new Response(null, { status: 202, headers: serverTimeHeaders() });
+  } catch (error) {
+    console.error("[latency] Failed to record latency window", error);
+    const message = error instanceof Error ? error.message : String(error);
+    const status = message.includes("Channel not found")
+      ? 404
+      : message.includes("Invalid latency window")
+        ? 400
+        : 500;
+    return NextResponse.json({ error: "Failed to record latency" }, { status });
+  }
+}
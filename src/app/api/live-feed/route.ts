@@ -1,71 +1,42 @@
 import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "../../../../convex/_generated/api";
+import { getLiveFeedBroker, messageType } from "@/lib/live-feed";
+import {
+  LIVE_FEED_SIGNATURE_HEADER,
+  LIVE_FEED_TIMESTAMP_HEADER,
+  verifyLiveFeedRequest,
+} from "@/lib/live-feed-signature";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-type Writable = WritableStreamDefaultWriter<Uint8Array>;
-
 const encoder = new TextEncoder();
-const HISTORY_LIMIT = 200;
-
-type BroadcastEntry = {
-  timestamp: number;
-  message: unknown;
-};
-
-type ChannelState = {
-  clients: Set<Writable>;
-  history: BroadcastEntry[];
-  lastSession?: { timestamp: number; message: unknown };
-};
-
-const channels = new Map<string, ChannelState>();
-
-function getChannelState(channel: string): ChannelState {
-  let state = channels.get(channel);
-  if (!state) {
-    state = { clients: new Set(), history: [] };
-    channels.set(channel, state);
-  }
-  return state;
-}
 
-function toUint8Array(data: unknown) {
-  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+// Hint for how long EventSource should wait before reconnecting on its own.
+const RECONNECT_DELAY_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 25_000;
+// setTimeout overflows past ~24.8 days; longer-lived links are caught by the heartbeat re-check.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+function toUint8Array(data: unknown, id?: number) {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  return encoder.encode(`${idLine}data: ${JSON.stringify(data)}\n\n`);
 }
 
-function broadcast(channel: string, message: unknown) {
-  recordMessage(channel, message);
-  const payload = toUint8Array(message);
-  const state = getChannelState(channel);
-  for (const client of Array.from(state.clients)) {
-    client.write(payload).catch(() => {
-      state.clients.delete(client);
-    });
-  }
+// Backlog chat is old by design; flag it so the dashboard doesn't count it as latency.
+function markReplayed(message: unknown) {
+  return message && typeof message === "object" ? { ...message, replayed: true } : message;
 }
 
-function recordMessage(channel: string, message: unknown) {
-  if (
-    message &&
-    typeof message === "object" &&
-    "type" in message &&
-    typeof (message as { type: unknown }).type === "string"
-  ) {
-    const state = getChannelState(channel);
-    const type = (message as { type: string }).type;
-    if (type === "reset") {
-      state.history.length = 0;
-      return;
-    }
-    if (type === "session") {
-      state.lastSession = { timestamp: Date.now(), message };
-    }
-    state.history.push({ timestamp: Date.now(), message });
-    if (state.history.length > HISTORY_LIMIT) {
-      state.history.shift();
-    }
+function parseLastEventId(request: Request, url: URL) {
+  const raw = request.headers.get("last-event-id") ?? url.searchParams.get("lastEventId");
+  if (!raw) {
+    return null;
   }
+  const id = Number(raw);
+  return Number.isSafeInteger(id) && id >= 0 ? id : null;
 }
 
 export async function GET(request: Request) {
@@ -80,81 +51,181 @@ export async function GET(request: Request) {
     });
   }
 
-  const state = getChannelState(channel);
+  const { userId } = await auth();
+  const shareToken = url.searchParams.get("share")?.trim() || null;
+
+  if (!userId && !shareToken) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const authorize = () =>
+    fetchQuery(api.shareTokens.authorizeLiveFeedSubscriber, {
+      channelLogin: channel,
+      clerkUserId: userId ?? undefined,
+      shareToken: shareToken ?? undefined,
+    });
+
+  let access: Awaited<ReturnType<typeof authorize>>;
+  try {
+    access = await authorize();
+    if (!access.allowed) {
+      return NextResponse.json({ error: "Not authorized for this channel" }, { status: 403 });
+    }
+  } catch (error) {
+    console.error("[api/live-feed] Failed to authorize subscriber", error);
+    return NextResponse.json({ error: "Unable to verify access" }, { status: 503 });
+  }
+
+  const broker = getLiveFeedBroker();
+  const lastEventId = parseLastEventId(request, url);
+  let backlog:
+    | { kind: "replay"; replay: Awaited<ReturnType<typeof broker.replay>> }
+    | { kind: "history"; history: Awaited<ReturnType<typeof broker.history>> };
+  try {
+    const replay = lastEventId !== null ? await broker.replay(channel, lastEventId) : null;
+    // Only fall back to a full reset when the missed events are no longer buffered.
+    backlog = replay?.complete
+      ? { kind: "replay", replay }
+      : { kind: "history", history: await broker.history(channel) };
+  } catch (error) {
+    console.error("[api/live-feed] Failed to load replay history", error);
+    return NextResponse.json({ error: "Live feed unavailable" }, { status: 503 });
+  }
+
   const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
   const writer = writable.getWriter();
-  state.clients.add(writer);
+  let closed = false;
+  let unsubscribe: () => void = () => {};
+  let shareExpiry: ReturnType<typeof setTimeout> | null = null;
 
-  const heartbeat = setInterval(() => {
-    writer
-      .write(encoder.encode("event: ping\ndata: {}\n\n"))
-      .catch(() => state.clients.delete(writer));
-  }, 25000);
-
-  request.signal.addEventListener("abort", () => {
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
     clearInterval(heartbeat);
-    state.clients.delete(writer);
+    if (shareExpiry) {
+      clearTimeout(shareExpiry);
+    }
+    unsubscribe();
     writer.close().catch(() => {});
-  });
+  };
 
-  const send = (message: unknown) =>
-    writer.write(toUint8Array(message)).catch(() => {
-      state.clients.delete(writer);
-    });
+  const send = (message: unknown, id?: number) => {
+    if (closed) {
+      return;
+    }
+    writer.write(toUint8Array(message, id)).catch(close);
+  };
+
+  // A share link only grants access until it expires or is revoked; the
+  // reconnect that follows a close is refused with 403.
+  const recheckShareAccess = async () => {
+    try {
+      const current = await authorize();
+      if (!current.allowed) {
+        close();
+      }
+    } catch (error) {
+      // Keep streaming through a Convex blip; the next heartbeat checks again.
+      console.warn("[api/live-feed] Failed to re-check share access", error);
+    }
+  };
 
-  const snapshot = state.history.slice();
-  let sessionSent = false;
+  const heartbeat = setInterval(() => {
+    if (closed) {
+      return;
+    }
+    writer.write(encoder.encode("event: ping\ndata: {}\n\n")).catch(close);
+    if (access.via === "share") {
+      void recheckShareAccess();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
 
-  send({ type: "reset" });
+  if (access.via === "share") {
+    const remainingMs = Math.max(access.expiresAt - Date.now(), 0);
+    shareExpiry = setTimeout(close, Math.min(remainingMs, MAX_TIMER_DELAY_MS));
+  }
 
-  for (const entry of snapshot) {
-    const payload = entry.message;
-    if (
-      payload &&
-      typeof payload === "object" &&
-      "type" in payload &&
-      (payload as { type: string }).type === "reset"
-    ) {
-      continue;
+  request.signal.addEventListener("abort", close);
+
+  writer.write(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`)).catch(close);
+
+  let subscribedAfterId: number;
+
+  if (backlog.kind === "replay") {
+    for (const entry of backlog.replay.entries) {
+      send(markReplayed(entry.message), entry.id);
     }
-    if (
-      payload &&
-      typeof payload === "object" &&
-      "type" in payload &&
-      (payload as { type: string }).type === "session"
-    ) {
-      sessionSent = true;
+    subscribedAfterId = backlog.replay.lastId;
+  } else {
+    const { history } = backlog;
+    let sessionSent = false;
+
+    send({ type: "reset" });
+
+    for (const entry of history.entries) {
+      const type = messageType(entry.message);
+      if (type === "reset") {
+        continue;
+      }
+      if (type === "session") {
+        sessionSent = true;
+      }
+      send(markReplayed(entry.message), entry.id);
     }
-    send(payload);
-  }
 
-  if (!sessionSent) {
-    const lastSession = state.lastSession;
-    if (lastSession) {
-      send(lastSession.message);
-    } else {
-      send({ type: "session", payload: { status: "idle", channel: null, startedAt: null } });
+    // Sent without an id: the session entry can predate the replayed history and
+    // must not move the client's Last-Event-ID backwards.
+    if (!sessionSent) {
+      send(
+        history.lastSession?.message ?? {
+          type: "session",
+          payload: { status: "idle", channel: null, startedAt: null },
+        }
+      );
     }
+    subscribedAfterId = history.lastId;
   }
 
+  unsubscribe = broker.subscribe(channel, subscribedAfterId, (entry) =>
+    send(entry.message, entry.id)
+  );
+
   return new Response(readable, {
     headers: {
       "Content-Type": "text/event-stream",
       "Cache-Control": "no-cache, no-transform",
       Connection: "keep-alive",
-      "Access-Control-Allow-Origin": "*",
     },
   });
 }
 
 export async function POST(request: Request) {
+  const secret = process.env.LIVE_FEED_SECRET;
+  if (!secret) {
+    console.error("[api/live-feed] LIVE_FEED_SECRET is not configured; rejecting update");
+    return NextResponse.json({ error: "Live feed ingestion is not configured" }, { status: 503 });
+  }
+
   try {
-    const body = await request.json();
+    const verification = verifyLiveFeedRequest({
+      secret,
+      rawBody: await request.text(),
+      timestampHeader: request.headers.get(LIVE_FEED_TIMESTAMP_HEADER),
+      signatureHeader: request.headers.get(LIVE_FEED_SIGNATURE_HEADER),
+    });
 
-    if (!body || typeof body !== "object") {
-      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    if (!verification.ok) {
+      console.warn("[api/live-feed] Rejected update", verification.reason);
+      return NextResponse.json(
+        { error: "Invalid payload", reason: verification.reason },
+        { status: verification.reason === "invalid_body" ? 400 : 401 }
+      );
     }
 
+    const { nonce: _nonce, ...body } = verification.body;
+
     const channelRaw =
       (body as { channel?: unknown }).channel ??
       (body as { channelLogin?: unknown }).channelLogin ??
@@ -181,14 +252,20 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Channel value required" }, { status: 400 });
     }
 
-    if (updatesArray) {
-      for (const update of updatesArray) {
-        broadcast(channel, update);
-      }
-      return new NextResponse(null, { status: 204 });
+    let published: { accepted: boolean };
+    try {
+      published = await getLiveFeedBroker().publish(channel, updatesArray ?? [body], {
+        nonce: verification.nonce,
+      });
+    } catch (error) {
+      console.error("[api/live-feed] Failed to publish update", error);
+      return NextResponse.json({ error: "Live feed unavailable" }, { status: 503 });
     }
 
-    broadcast(channel, body);
+    if (!published.accepted) {
+      console.warn("[api/live-feed] Rejected replayed update");
+      return NextResponse.json({ error: "Replayed request" }, { status: 409 });
+    }
 
     return new NextResponse(null, { status: 204 });
   } catch (error) {
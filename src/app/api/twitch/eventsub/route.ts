@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { fetchMutation } from "convex/nextjs";
+import { api } from "../../../../../convex/_generated/api";
+import {
+  parseAuthorizationRevokeEvent,
+  parseStreamOfflineEvent,
+  parseStreamOnlineEvent,
+  verifyEventSubRequest,
+  type EventSubMessage,
+} from "@/lib/twitch/eventsub";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Notification = Extract<EventSubMessage, { messageType: "notification" }>;
+
+async function handleNotification(message: Notification, convexSecret: string) {
+  const { messageId, subscription, event } = message;
+
+  switch (subscription.type) {
+    case "stream.online": {
+      const online = parseStreamOnlineEvent(event);
+      if (!online) {
+        return { handled: false, reason: "invalid_event" };
+      }
+      return fetchMutation(api.eventSub.streamOnline, {
+        messageId,
+        ...online,
+        secret: convexSecret,
+      });
+    }
+    case "stream.offline": {
+      const offline = parseStreamOfflineEvent(event);
+      if (!offline) {
+        return { handled: false, reason: "invalid_event" };
+      }
+      return fetchMutation(api.eventSub.streamOffline, {
+        messageId,
+        ...offline,
+        endedAt: message.timestamp,
+        secret: convexSecret,
+      });
+    }
+    case "user.authorization.revoke": {
+      const revoke = parseAuthorizationRevokeEvent(event);
+      if (!revoke) {
+        return { handled: false, reason: "invalid_event" };
+      }
+      return fetchMutation(api.eventSub.authorizationRevoked, {
+        messageId,
+        userId: revoke.userId,
+        userLogin: revoke.userLogin ?? undefined,
+        revokedAt: message.timestamp,
+        secret: convexSecret,
+      });
+    }
+    default:
+      return { handled: false, reason: "unsupported_subscription" };
+  }
+}
+
+export async function POST(request: Request) {
+  const secret = process.env.TWITCH_EVENTSUB_SECRET;
+  const convexSecret = process.env.CONVEX_WORKSPACE_SECRET;
+  if (!secret || !convexSecret) {
+    console.error(
+      "[api/twitch/eventsub] TWITCH_EVENTSUB_SECRET and CONVEX_WORKSPACE_SECRET must be set"
+    );
+    return NextResponse.json({ error: "EventSub is not configured" }, { status: 503 });
+  }
+
+  const rawBody = await request.text();
+  const verification = verifyEventSubRequest({ secret, rawBody, headers: request.headers });
+  if (!verification.ok) {
+    console.warn("[api/twitch/eventsub] Rejected request", { reason: verification.reason });
+    return NextResponse.json(
+      { error: "Invalid EventSub request" },
+      { status: verification.reason === "invalid_body" ? 400 : 403 }
+    );
+  }
+
+  const { message } = verification;
+
+  if (message.messageType === "webhook_callback_verification") {
+    console.info("[api/twitch/eventsub] Subscription verified", {
+      subscriptionId: message.subscription.id,
+      type: message.subscription.type,
+    });
+    // Twitch expects the raw challenge string back, not JSON.
+    return new Response(message.challenge, {
+      status: 200,
+      headers: { "Content-Type": "text/plain" },
+    });
+  }
+
+  if (message.messageType === "revocation") {
+    console.warn("[api/twitch/eventsub] Subscription revoked by Twitch", {
+      subscriptionId: message.subscription.id,
+      type: message.subscription.type,
+      status: message.subscription.status,
+    });
+    return new Response(null, { status: 204 });
+  }
+
+  try {
+    const result = await handleNotification(message, convexSecret);
+    console.info("[api/twitch/eventsub] Notification processed", {
+      messageId: message.messageId,
+      type: message.subscription.type,
+      result,
+    });
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    // A non-2xx response makes Twitch retry the notification.
+    console.error("[api/twitch/eventsub] Failed to process notification", {
+      messageId: message.messageId,
+      type: message.subscription.type,
+      error,
+    });
+    return NextResponse.json({ error: "Failed to process notification" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { fetchQuery } from "convex/nextjs";
+import { api } from "../../../../convex/_generated/api";
+import DashboardShell from "@/app/(app)/dashboard/dashboard-shell";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
+
+type SharedDashboardPageProps = {
+  params: Promise<{ channel: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const expiryFormatter = new Intl.DateTimeFormat("en-GB", {
+  day: "2-digit",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+  timeZone: "UTC",
+});
+
+export default async function SharedDashboardPage({
+  params,
+  searchParams,
+}: SharedDashboardPageProps) {
+  const { channel: channelParam } = await params;
+  const query = await searchParams;
+  const channelLogin = decodeURIComponent(channelParam).toLowerCase();
+  const token = typeof query.token === "string" ? query.token.trim() : "";
+
+  let expiresAt: number | null = null;
+  let allowed = false;
+
+  if (token) {
+    try {
+      const access = await fetchQuery(api.shareTokens.authorizeLiveFeedSubscriber, {
+        channelLogin,
+        shareToken: token,
+      });
+      allowed = access.allowed;
+      expiresAt = access.allowed && "expiresAt" in access ? access.expiresAt ?? null : null;
+    } catch (error) {
+      console.error("[share] Failed to verify share token", error);
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col gap-2 bg-slate-950 px-2 py-2 text-slate-100">
+      {allowed ? (
+        <>
+          <p className="px-2 text-xs text-slate-500">
+            Read-only view of #{channelLogin}
+            {expiresAt ? ` · link expires ${expiryFormatter.format(new Date(expiresAt))} UTC` : null}
+          </p>
+          <DashboardShell
+            initialState={{
+              session: { status: "idle", channel: channelLogin, startedAt: null },
+            }}
+            channelLogin={channelLogin}
+            viewerId={null}
+            shareToken={token}
+          />
+        </>
+      ) : (
+        <div className="mx-auto mt-24 max-w-md rounded-2xl border border-slate-800 bg-slate-900/60 p-8 text-center text-sm text-slate-400">
+          This share link is invalid, revoked or has expired. Ask the channel owner for a new one.
+        </div>
+      )}
+    </div>
+  );
+}
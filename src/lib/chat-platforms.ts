@@ -0,0 +1,12 @@
+export const CHAT_PLATFORMS = ["twitch", "youtube"] as const;
+
+export type ChatPlatform = (typeof CHAT_PLATFORMS)[number];
+
+export const CHAT_PLATFORM_LABELS: Record<ChatPlatform, string> = {
+  twitch: "Twitch",
+  youtube: "YouTube",
+};
+
+export function isChatPlatform(value: unknown): value is ChatPlatform {
+  return typeof value === "string" && (CHAT_PLATFORMS as readonly string[]).includes(value);
+}
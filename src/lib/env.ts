@@ -5,6 +5,7 @@ const EnvSchema = z.object({
   CONVEX_DEPLOYMENT: z.string().optional(),
   CONVEX_ADMIN_KEY: z.string().optional(),
   CONVEX_WORKSPACE_SECRET: z.string().optional(),
+  TWITCH_CLIENT_ID: z.string().optional(),
 });
 
 export function readEnv() {
@@ -0,0 +1,77 @@
+export const WORKER_HEARTBEAT_INTERVAL_MS = 15_000;
+// Four missed beats; long enough to ride out a slow Convex write or a deploy.
+export const WORKER_HEARTBEAT_STALE_MS = 60_000;
+// The worker checks for toggles every 5s; a join can take a few more.
+export const LISTENING_CONFIRM_TIMEOUT_MS = 30_000;
+
+export type IngestionStatus = "idle" | "listening" | "errored";
+
+/** What the dashboard shows: the workspace status, or that nobody is reporting it. */
+export type SessionStatus = IngestionStatus | "unreachable";
+
+export type WorkerConnectionState = "connecting" | "connected" | "disconnected" | "stopped";
+
+export type WorkerHeartbeat = {
+  connectionState: WorkerConnectionState;
+  authMode: "oauth" | "anonymous" | null;
+  lastChatAt: number | null;
+  buildVersion: string;
+  beatAt: number;
+};
+
+/** The dashboard's Start/Stop Listening request; `requestedAt` is null until one is made. */
+export type ListeningState = {
+  enabled: boolean;
+  requestedAt: number | null;
+};
+
+export type ListeningControlState = "pending" | "confirmed" | "failed";
+
+export function isHeartbeatStale(heartbeat: WorkerHeartbeat, now = Date.now()) {
+  return heartbeat.connectionState === "stopped" || now - heartbeat.beatAt > WORKER_HEARTBEAT_STALE_MS;
+}
+
+/**
+ * `ingestionStatus` only changes when a session starts or ends, so a worker
+ * that dies mid-stream leaves it on "listening". The heartbeat tells those
+ * apart: a stale or stopped one means the worker is gone, not the stream.
+ */
+export function resolveSessionStatus(
+  ingestionStatus: IngestionStatus,
+  heartbeat: WorkerHeartbeat | null,
+  now = Date.now(),
+  listeningEnabled = true
+): SessionStatus {
+  if (!listeningEnabled) {
+    // Paused from the dashboard: a stopped or silent worker is what we asked for.
+    return ingestionStatus;
+  }
+  if (!heartbeat) {
+    // Never heard from a worker; only suspicious if we think we are live.
+    return ingestionStatus === "listening" ? "unreachable" : ingestionStatus;
+  }
+  return isHeartbeatStale(heartbeat, now) ? "unreachable" : ingestionStatus;
+}
+
+/**
+ * Whether the worker has acted on the last Start/Stop request. It confirms by
+ * heartbeating after the request: "stopped" for a stop, anything else for a
+ * start. No matching beat within the timeout means the request failed.
+ */
+export function resolveListeningControl(
+  listening: ListeningState,
+  heartbeat: WorkerHeartbeat | null,
+  now = Date.now()
+): ListeningControlState {
+  if (listening.requestedAt === null) {
+    return "confirmed";
+  }
+  const acknowledged =
+    heartbeat !== null &&
+    heartbeat.beatAt >= listening.requestedAt &&
+    (heartbeat.connectionState === "stopped") !== listening.enabled;
+  if (acknowledged) {
+    return "confirmed";
+  }
+  return now - listening.requestedAt > LISTENING_CONFIRM_TIMEOUT_MS ? "failed" : "pending";
+}
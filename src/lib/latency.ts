@@ -0,0 +1,118 @@
+// Chat should reach the dashboard within this long of being sent, at p95.
+export const E2E_LATENCY_TARGET_MS = 1500;
+export const SERVER_TIME_HEADER = "X-Server-Time";
+// Samples the live badge summarizes; a few minutes of chat at normal rates.
+export const LATENCY_WINDOW_SIZE = 200;
+export const LATENCY_REPORT_INTERVAL_MS = 60_000;
+// Slower than this is a replayed backlog or a broken clock, not pipeline latency.
+export const MAX_PLAUSIBLE_LATENCY_MS = 60_000;
+// How far below zero a sample may land before we blame the offset, not jitter.
+const MAX_NEGATIVE_LATENCY_MS = 1_000;
+
+export type ClockSample = {
+  offsetMs: number;
+  roundTripMs: number;
+};
+
+export type LatencySummary = {
+  count: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+};
+
+export type LatencyRating = "good" | "slow" | "poor";
+
+export function parseServerTime(header: string | null) {
+  if (!header) {
+    return null;
+  }
+  const value = Number(header);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * NTP-style estimate of how far the server clock runs ahead of ours, assuming
+ * it stamped the response halfway through the round trip. The error is at
+ * most half the round trip.
+ */
+export function measureClockOffset(
+  requestStartedAt: number,
+  responseReceivedAt: number,
+  serverTime: number
+): ClockSample {
+  const roundTripMs = Math.max(0, responseReceivedAt - requestStartedAt);
+  return {
+    offsetMs: serverTime - (requestStartedAt + roundTripMs / 2),
+    roundTripMs,
+  };
+}
+
+/** The fastest round trip has the tightest error bound, so trust that one. */
+export function pickClockOffset(samples: ClockSample[]) {
+  let best: ClockSample | null = null;
+  for (const sample of samples) {
+    if (!best || sample.roundTripMs < best.roundTripMs) {
+      best = sample;
+    }
+  }
+  return best?.offsetMs ?? null;
+}
+
+/**
+ * Send-to-render lag on the server's clock. Platform timestamps come from
+ * NTP-synced servers, so correcting the browser clock to ours is enough.
+ * Returns null for samples that can't be real latency.
+ */
+export function receiveLatency(sentAt: number, renderedAt: number, offsetMs: number) {
+  const latency = renderedAt + offsetMs - sentAt;
+  if (!Number.isFinite(latency) || latency < -MAX_NEGATIVE_LATENCY_MS || latency > MAX_PLAUSIBLE_LATENCY_MS) {
+    return null;
+  }
+  return Math.max(0, latency);
+}
+
+/**
+ * The send time to sample for a live chat line, or null. The SLO covers
+ * Twitch, which pushes chat; YouTube lines arrive a poll interval late and
+ * would swamp it. Lines from older workers have no platform and are Twitch.
+ */
+export function latencySentAt(message: { platform?: string; sentAt?: number | null }) {
+  if ((message.platform ?? "twitch") !== "twitch" || typeof message.sentAt !== "number") {
+    return null;
+  }
+  return message.sentAt;
+}
+
+/** Nearest-rank percentile of an ascending list. */
+export function percentile(sorted: number[], fraction: number) {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil(Math.min(Math.max(fraction, 0), 1) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+}
+
+export function summarizeLatency(samples: number[]): LatencySummary | null {
+  if (samples.length === 0) {
+    return null;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50Ms: Math.round(percentile(sorted, 0.5) ?? 0),
+    p95Ms: Math.round(percentile(sorted, 0.95) ?? 0),
+    maxMs: Math.round(sorted[sorted.length - 1]),
+  };
+}
+
+export function rateLatency(p95Ms: number): LatencyRating {
+  if (p95Ms <= E2E_LATENCY_TARGET_MS) {
+    return "good";
+  }
+  return p95Ms <= E2E_LATENCY_TARGET_MS * 2 ? "slow" : "poor";
+}
+
+export function formatLatency(ms: number) {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
@@ -0,0 +1,79 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+
+export const LIVE_FEED_TIMESTAMP_HEADER = "x-live-feed-timestamp";
+export const LIVE_FEED_SIGNATURE_HEADER = "x-live-feed-signature";
+
+// Requests older (or further in the future) than this are rejected outright;
+// nonces only need to be remembered for the same span.
+export const LIVE_FEED_MAX_SKEW_MS = 5 * 60 * 1000;
+
+const SIGNATURE_PREFIX = "v1=";
+
+export type LiveFeedVerification =
+  | { ok: true; body: Record<string, unknown>; nonce: string; timestamp: number }
+  | { ok: false; reason: "missing_signature" | "expired" | "bad_signature" | "invalid_body" };
+
+export function signLiveFeedBody(secret: string, timestamp: number, rawBody: string) {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex");
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+export function buildSignedLiveFeedRequest(
+  secret: string,
+  payload: Record<string, unknown>,
+  now = Date.now()
+) {
+  const body = JSON.stringify({ ...payload, nonce: randomUUID() });
+  return {
+    body,
+    headers: {
+      "Content-Type": "application/json",
+      [LIVE_FEED_TIMESTAMP_HEADER]: String(now),
+      [LIVE_FEED_SIGNATURE_HEADER]: signLiveFeedBody(secret, now, body),
+    },
+  };
+}
+
+export function verifyLiveFeedRequest(options: {
+  secret: string;
+  rawBody: string;
+  timestampHeader: string | null;
+  signatureHeader: string | null;
+  now?: number;
+}): LiveFeedVerification {
+  const { secret, rawBody, timestampHeader, signatureHeader } = options;
+  const now = options.now ?? Date.now();
+
+  if (!timestampHeader || !signatureHeader) {
+    return { ok: false, reason: "missing_signature" };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > LIVE_FEED_MAX_SKEW_MS) {
+    return { ok: false, reason: "expired" };
+  }
+
+  const expected = Buffer.from(signLiveFeedBody(secret, timestamp, rawBody));
+  const received = Buffer.from(signatureHeader.trim());
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return { ok: false, reason: "invalid_body" };
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, reason: "invalid_body" };
+  }
+
+  const nonce = (body as { nonce?: unknown }).nonce;
+  if (typeof nonce !== "string" || nonce.length < 8) {
+    return { ok: false, reason: "invalid_body" };
+  }
+
+  return { ok: true, body: body as Record<string, unknown>, nonce, timestamp };
+}
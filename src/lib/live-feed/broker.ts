@@ -0,0 +1,54 @@
+import { LIVE_FEED_MAX_SKEW_MS } from "@/lib/live-feed-signature";
+
+export const LIVE_FEED_HISTORY_LIMIT = 200;
+
+// Nonces only need to outlive the signature window; anything older is
+// rejected on its timestamp before the nonce is consulted.
+export const LIVE_FEED_NONCE_TTL_MS = LIVE_FEED_MAX_SKEW_MS * 2;
+
+export type LiveFeedEntry = {
+  id: number;
+  timestamp: number;
+  message: unknown;
+};
+
+export type LiveFeedHistory = {
+  entries: LiveFeedEntry[];
+  lastSession: LiveFeedEntry | null;
+  lastId: number;
+};
+
+export type LiveFeedReplay = {
+  entries: LiveFeedEntry[];
+  /** False when some events after `afterId` are no longer buffered. */
+  complete: boolean;
+  lastId: number;
+};
+
+export type LiveFeedListener = (entry: LiveFeedEntry) => void;
+
+export interface LiveFeedBroker {
+  /**
+   * Appends messages to a channel and fans them out to subscribers on every
+   * instance. Returns `accepted: false` when the nonce was already used.
+   */
+  publish(channel: string, messages: unknown[], options: { nonce: string }): Promise<{ accepted: boolean }>;
+  /** Replay buffer since the last `reset`, plus the latest `session` message. */
+  history(channel: string): Promise<LiveFeedHistory>;
+  /** Every buffered event after `afterId`, for resuming a dropped connection. */
+  replay(channel: string, afterId: number): Promise<LiveFeedReplay>;
+  /** Delivers entries with an id greater than `afterId` until unsubscribed. */
+  subscribe(channel: string, afterId: number, listener: LiveFeedListener): () => void;
+}
+
+export function messageType(message: unknown) {
+  if (
+    message &&
+    typeof message === "object" &&
+    "type" in message &&
+    typeof (message as { type: unknown }).type === "string"
+  ) {
+    return (message as { type: string }).type;
+  }
+  return null;
+}
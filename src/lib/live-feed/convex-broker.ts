@@ -0,0 +1,154 @@
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../../../convex/_generated/api";
+import type { LiveFeedBroker, LiveFeedEntry, LiveFeedListener } from "./broker";
+
+const POLL_INTERVAL_MS = 500;
+const POLL_ERROR_BACKOFF_MS = 2000;
+
+type Subscription = {
+  listener: LiveFeedListener;
+  deliveredId: number;
+};
+
+type ChannelPoller = {
+  subscriptions: Set<Subscription>;
+  cursor: number;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+/**
+ * Durable broker backed by the `liveFeedEvents` table. Every app instance
+ * publishes through Convex and polls for new events while it has local
+ * subscribers, so the worker's POST and a dashboard's SSE connection can land
+ * on different instances.
+ */
+export class ConvexLiveFeedBroker implements LiveFeedBroker {
+  private readonly client: ConvexHttpClient;
+  private readonly pollers = new Map<string, ChannelPoller>();
+
+  constructor(
+    convexUrl: string,
+    private readonly secret: string
+  ) {
+    this.client = new ConvexHttpClient(convexUrl);
+  }
+
+  async publish(channel: string, messages: unknown[], options: { nonce: string }) {
+    const result = await this.client.mutation(api.liveFeed.publish, {
+      channel,
+      nonce: options.nonce,
+      messages,
+      secret: this.secret,
+    });
+    if (result.accepted && result.lastSeq !== null) {
+      // Wake local pollers early so same-instance subscribers don't wait a tick.
+      this.pollSoon(channel);
+    }
+    return { accepted: result.accepted };
+  }
+
+  async history(channel: string) {
+    const result = await this.client.query(api.liveFeed.history, {
+      channel,
+      secret: this.secret,
+    });
+    return {
+      entries: result.entries as LiveFeedEntry[],
+      lastSession: result.lastSession as LiveFeedEntry | null,
+      lastId: result.lastId,
+    };
+  }
+
+  async replay(channel: string, afterId: number) {
+    const result = await this.client.query(api.liveFeed.replaySince, {
+      channel,
+      afterSeq: afterId,
+      secret: this.secret,
+    });
+    return {
+      entries: result.entries as LiveFeedEntry[],
+      complete: result.complete,
+      lastId: result.lastId,
+    };
+  }
+
+  subscribe(channel: string, afterId: number, listener: LiveFeedListener) {
+    const subscription: Subscription = { listener, deliveredId: afterId };
+    let poller = this.pollers.get(channel);
+    if (!poller) {
+      poller = { subscriptions: new Set(), cursor: afterId, timer: null };
+      this.pollers.set(channel, poller);
+      this.schedule(channel, poller, POLL_INTERVAL_MS);
+    }
+    poller.cursor = Math.min(poller.cursor, afterId);
+    poller.subscriptions.add(subscription);
+
+    return () => {
+      const current = this.pollers.get(channel);
+      if (!current) {
+        return;
+      }
+      current.subscriptions.delete(subscription);
+      if (current.subscriptions.size === 0) {
+        if (current.timer) {
+          clearTimeout(current.timer);
+        }
+        this.pollers.delete(channel);
+      }
+    };
+  }
+
+  private pollSoon(channel: string) {
+    const poller = this.pollers.get(channel);
+    if (poller) {
+      this.schedule(channel, poller, 0);
+    }
+  }
+
+  private schedule(channel: string, poller: ChannelPoller, delay: number) {
+    if (poller.timer) {
+      clearTimeout(poller.timer);
+    }
+    poller.timer = setTimeout(() => {
+      poller.timer = null;
+      void this.poll(channel, poller);
+    }, delay);
+  }
+
+  private async poll(channel: string, poller: ChannelPoller) {
+    if (this.pollers.get(channel) !== poller) {
+      return;
+    }
+
+    let delay = POLL_INTERVAL_MS;
+    try {
+      const entries = (await this.client.query(api.liveFeed.eventsSince, {
+        channel,
+        afterSeq: poller.cursor,
+        secret: this.secret,
+      })) as LiveFeedEntry[];
+
+      for (const entry of entries) {
+        poller.cursor = Math.max(poller.cursor, entry.id);
+        for (const subscription of Array.from(poller.subscriptions)) {
+          if (entry.id > subscription.deliveredId) {
+            subscription.deliveredId = entry.id;
+            subscription.listener(entry);
+          }
+        }
+      }
+
+      if (entries.length > 0) {
+        // More may have landed while we were fetching; check again right away.
+        delay = 0;
+      }
+    } catch (error) {
+      console.warn("[live-feed] Convex broker poll failed", error);
+      delay = POLL_ERROR_BACKOFF_MS;
+    }
+
+    if (this.pollers.get(channel) === poller && !poller.timer) {
+      this.schedule(channel, poller, delay);
+    }
+  }
+}
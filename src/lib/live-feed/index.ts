@@ -0,0 +1,34 @@
+import type { LiveFeedBroker } from "./broker";
+import { ConvexLiveFeedBroker } from "./convex-broker";
+import { InMemoryLiveFeedBroker } from "./memory-broker";
+
+export type { LiveFeedBroker, LiveFeedEntry, LiveFeedHistory } from "./broker";
+export { messageType } from "./broker";
+
+let broker: LiveFeedBroker | null = null;
+
+/**
+ * `LIVE_FEED_BROKER=convex` shares updates and replay history across app
+ * instances through Convex; anything else keeps them in this process.
+ */
+export function getLiveFeedBroker(): LiveFeedBroker {
+  if (broker) {
+    return broker;
+  }
+
+  const kind = (process.env.LIVE_FEED_BROKER ?? "memory").toLowerCase();
+  if (kind === "convex") {
+    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+    const secret = process.env.CONVEX_WORKSPACE_SECRET;
+    if (!convexUrl || !secret) {
+      throw new Error(
+        "LIVE_FEED_BROKER=convex requires NEXT_PUBLIC_CONVEX_URL and CONVEX_WORKSPACE_SECRET"
+      );
+    }
+    broker = new ConvexLiveFeedBroker(convexUrl, secret);
+  } else {
+    broker = new InMemoryLiveFeedBroker();
+  }
+
+  return broker;
+}
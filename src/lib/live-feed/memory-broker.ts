@@ -0,0 +1,131 @@
+import {
+  LIVE_FEED_HISTORY_LIMIT,
+  LIVE_FEED_NONCE_TTL_MS,
+  messageType,
+  type LiveFeedBroker,
+  type LiveFeedEntry,
+  type LiveFeedListener,
+} from "./broker";
+
+type ChannelState = {
+  listeners: Set<LiveFeedListener>;
+  history: LiveFeedEntry[];
+  recent: LiveFeedEntry[];
+  lastSession: LiveFeedEntry | null;
+  lastId: number;
+};
+
+/**
+ * Single-process broker. Only suitable when the app runs as one long-lived
+ * instance; history is lost on restart.
+ */
+export class InMemoryLiveFeedBroker implements LiveFeedBroker {
+  private readonly channels = new Map<string, ChannelState>();
+  private readonly seenNonces = new Map<string, number>();
+
+  async publish(channel: string, messages: unknown[], options: { nonce: string }) {
+    if (!this.claimNonce(options.nonce)) {
+      return { accepted: false };
+    }
+
+    const state = this.getChannelState(channel);
+    for (const message of messages) {
+      state.lastId += 1;
+      const entry: LiveFeedEntry = { id: state.lastId, timestamp: Date.now(), message };
+      state.recent.push(entry);
+      if (state.recent.length > LIVE_FEED_HISTORY_LIMIT) {
+        state.recent.shift();
+      }
+      this.record(state, entry);
+      for (const listener of Array.from(state.listeners)) {
+        listener(entry);
+      }
+    }
+
+    return { accepted: true };
+  }
+
+  async history(channel: string) {
+    const state = this.getChannelState(channel);
+    return {
+      entries: state.history.slice(),
+      lastSession: state.lastSession,
+      lastId: state.lastId,
+    };
+  }
+
+  async replay(channel: string, afterId: number) {
+    const state = this.getChannelState(channel);
+    const oldest = state.recent[0];
+    const complete =
+      afterId === state.lastId ||
+      (afterId < state.lastId && oldest !== undefined && oldest.id <= afterId + 1);
+    return {
+      entries: complete ? state.recent.filter((entry) => entry.id > afterId) : [],
+      complete,
+      lastId: state.lastId,
+    };
+  }
+
+  subscribe(channel: string, _afterId: number, listener: LiveFeedListener) {
+    // Publishing is synchronous in-process, so nothing can slip in between a
+    // history() read and subscribing.
+    const state = this.getChannelState(channel);
+    state.listeners.add(listener);
+    return () => {
+      state.listeners.delete(listener);
+    };
+  }
+
+  private record(state: ChannelState, entry: LiveFeedEntry) {
+    const type = messageType(entry.message);
+    if (!type) {
+      return;
+    }
+    if (type === "reset") {
+      state.history.length = 0;
+      return;
+    }
+    if (type === "session") {
+      state.lastSession = entry;
+    }
+    state.history.push(entry);
+    if (state.history.length > LIVE_FEED_HISTORY_LIMIT) {
+      state.history.shift();
+    }
+  }
+
+  private claimNonce(nonce: string) {
+    const now = Date.now();
+    // Maps iterate in insertion order, which is also seen-at order, so expired
+    // nonces are always at the front and we stop at the first live one.
+    for (const [key, seenAt] of this.seenNonces) {
+      if (now - seenAt <= LIVE_FEED_NONCE_TTL_MS) {
+        break;
+      }
+      this.seenNonces.delete(key);
+    }
+    if (this.seenNonces.has(nonce)) {
+      return false;
+    }
+    this.seenNonces.set(nonce, now);
+    return true;
+  }
+
+  private getChannelState(channel: string) {
+    let state = this.channels.get(channel);
+    if (!state) {
+      // Seed ids from the clock so they keep increasing across restarts and a
+      // client's stale Last-Event-ID can't collide with a fresh sequence.
+      state = {
+        listeners: new Set(),
+        history: [],
+        recent: [],
+        lastSession: null,
+        lastId: Date.now() * 1000,
+      };
+      this.channels.set(channel, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,227 @@
+export const CHANNEL_EVENT_KINDS = [
+  "sub",
+  "resub",
+  "subgift",
+  "submysterygift",
+  "raid",
+  "cheer",
+  "announcement",
+] as const;
+
+export type ChannelEventKind = (typeof CHANNEL_EVENT_KINDS)[number];
+
+export type ChannelEventTier = "prime" | "1000" | "2000" | "3000";
+
+export type ParsedChannelEvent = {
+  kind: ChannelEventKind;
+  messageId: string;
+  occurredAt: number;
+  actorDisplay: string | null;
+  /** Login/user id of whoever paid for the event; the worker hashes it before storing. */
+  gifter: { userId: string | null; login: string } | null;
+  /** Bits for cheers, cumulative months for resubs, gift count for gift bombs. */
+  amount: number | null;
+  tier: ChannelEventTier | null;
+  viewerCount: number | null;
+  recipientDisplay: string | null;
+  message: string | null;
+};
+
+export type ChannelEventSummary = {
+  kind: ChannelEventKind;
+  actorDisplay: string | null;
+  amount: number | null;
+  tier: ChannelEventTier | null;
+  viewerCount: number | null;
+  recipientDisplay: string | null;
+};
+
+type Tags = Record<string, unknown>;
+
+const USERNOTICE_KINDS: Record<string, ChannelEventKind> = {
+  sub: "sub",
+  resub: "resub",
+  subgift: "subgift",
+  anonsubgift: "subgift",
+  submysterygift: "submysterygift",
+  anonsubmysterygift: "submysterygift",
+  raid: "raid",
+  announcement: "announcement",
+};
+
+// Raw IRC tag values escape spaces and semicolons (IRCv3 message tags).
+function unescapeTagValue(value: string) {
+  return value.replace(/\\(.)/g, (_, char: string) => {
+    switch (char) {
+      case "s":
+        return " ";
+      case ":":
+        return ";";
+      case "r":
+        return "\r";
+      case "n":
+        return "\n";
+      default:
+        return char;
+    }
+  });
+}
+
+function tagString(tags: Tags, key: string) {
+  const value = tags[key];
+  if (typeof value !== "string") {
+    return null;
+  }
+  const unescaped = unescapeTagValue(value).trim();
+  return unescaped ? unescaped : null;
+}
+
+function tagNumber(tags: Tags, key: string) {
+  const value = tags[key];
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseTier(value: string | null): ChannelEventTier | null {
+  if (!value) {
+    return null;
+  }
+  if (value.toLowerCase() === "prime") {
+    return "prime";
+  }
+  return value === "1000" || value === "2000" || value === "3000" ? value : null;
+}
+
+function parseTimestamp(tags: Tags) {
+  return tagNumber(tags, "tmi-sent-ts") ?? Date.now();
+}
+
+/**
+ * Maps a raw IRC USERNOTICE (as parsed by tmi's `raw_message` event) onto a
+ * channel event. Returns null for notice types we don't track (rituals,
+ * bits badge tiers, pay-it-forward, …) and for the per-recipient gifts of a
+ * gift bomb, which the bomb's own event already counts.
+ */
+export function parseUserNotice(tags: Tags, message: string | null): ParsedChannelEvent | null {
+  const msgId = tagString(tags, "msg-id");
+  const kind = msgId ? USERNOTICE_KINDS[msgId] : undefined;
+  const messageId = tagString(tags, "id");
+  if (!kind || !messageId) {
+    return null;
+  }
+  // A bomb of N gifts is one submysterygift followed by N subgifts that share
+  // its community gift id; recording each would flood the feed.
+  if (kind === "subgift" && tagString(tags, "msg-param-community-gift-id")) {
+    return null;
+  }
+
+  const login = tagString(tags, "login");
+  const anonymous = msgId?.startsWith("anon") ?? false;
+  const actorDisplay = anonymous ? null : (tagString(tags, "display-name") ?? login);
+  const paysForEvent = kind === "sub" || kind === "resub" || kind === "subgift" || kind === "submysterygift";
+
+  let amount: number | null = null;
+  if (kind === "resub") {
+    amount = tagNumber(tags, "msg-param-cumulative-months");
+  } else if (kind === "submysterygift") {
+    amount = tagNumber(tags, "msg-param-mass-gift-count");
+  } else if (kind === "subgift") {
+    amount = 1;
+  }
+
+  return {
+    kind,
+    messageId,
+    occurredAt: parseTimestamp(tags),
+    actorDisplay,
+    gifter:
+      paysForEvent && !anonymous && login
+        ? { userId: tagString(tags, "user-id"), login }
+        : null,
+    amount,
+    tier: parseTier(tagString(tags, "msg-param-sub-plan")),
+    viewerCount: kind === "raid" ? tagNumber(tags, "msg-param-viewerCount") : null,
+    recipientDisplay:
+      kind === "subgift"
+        ? (tagString(tags, "msg-param-recipient-display-name") ??
+          tagString(tags, "msg-param-recipient-user-name"))
+        : null,
+    message: message?.trim() ? message.trim() : null,
+  };
+}
+
+/** Cheers arrive as regular PRIVMSGs carrying a `bits` tag. */
+export function parseCheer(tags: Tags, message: string): ParsedChannelEvent | null {
+  const bits = tagNumber(tags, "bits");
+  const messageId = tagString(tags, "id");
+  if (!bits || bits <= 0 || !messageId) {
+    return null;
+  }
+  const login = tagString(tags, "username") ?? tagString(tags, "login");
+  return {
+    kind: "cheer",
+    messageId,
+    occurredAt: parseTimestamp(tags),
+    actorDisplay: tagString(tags, "display-name") ?? login,
+    gifter: login ? { userId: tagString(tags, "user-id"), login } : null,
+    amount: bits,
+    tier: null,
+    viewerCount: null,
+    recipientDisplay: null,
+    message: message.trim() || null,
+  };
+}
+
+function formatTier(tier: ChannelEventTier | null) {
+  switch (tier) {
+    case "prime":
+      return "Prime";
+    case "1000":
+      return "Tier 1";
+    case "2000":
+      return "Tier 2";
+    case "3000":
+      return "Tier 3";
+    default:
+      return null;
+  }
+}
+
+function plural(count: number, noun: string) {
+  return `${count.toLocaleString()} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** Title and detail lines used by `EventsCard` and timeline markers. */
+export function describeChannelEvent(event: ChannelEventSummary) {
+  const actor = event.actorDisplay ?? "An anonymous viewer";
+  const tier = formatTier(event.tier);
+
+  switch (event.kind) {
+    case "sub":
+      return { title: "New subscriber", detail: `${actor} subscribed${tier ? ` (${tier})` : ""}` };
+    case "resub":
+      return {
+        title: "Resubscription",
+        detail: `${actor} resubscribed${event.amount ? ` for ${plural(event.amount, "month")}` : ""}${tier ? ` (${tier})` : ""}`,
+      };
+    case "subgift":
+      return {
+        title: "Gift sub",
+        detail: `${actor} gifted a sub${event.recipientDisplay ? ` to ${event.recipientDisplay}` : ""}${tier ? ` (${tier})` : ""}`,
+      };
+    case "submysterygift":
+      return {
+        title: "Gift bomb",
+        detail: `${actor} gifted ${plural(event.amount ?? 1, "sub")}${tier ? ` (${tier})` : ""}`,
+      };
+    case "raid":
+      return {
+        title: "Raid",
+        detail: `${actor} raided with ${plural(event.viewerCount ?? 0, "viewer")}`,
+      };
+    case "cheer":
+      return { title: "Cheer", detail: `${actor} cheered ${plural(event.amount ?? 0, "bit")}` };
+    case "announcement":
+      return { title: "Announcement", detail: `${actor} posted an announcement` };
+  }
+}
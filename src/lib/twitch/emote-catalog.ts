@@ -0,0 +1,198 @@
+import { getTwitchEmoteImageUrl } from "./emotes";
+
+export const EMOTE_PROVIDERS = ["twitch", "7tv", "bttv", "ffz"] as const;
+
+export type EmoteProvider = (typeof EMOTE_PROVIDERS)[number];
+
+export type CatalogEmote = {
+  code: string;
+  id: string;
+  imageUrl: string;
+  provider: EmoteProvider;
+};
+
+export type EmoteCatalogMatch = {
+  code: string;
+  id: string;
+  imageUrl: string;
+  provider: EmoteProvider;
+  start: number;
+  end: number;
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): UnknownRecord | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as UnknownRecord) : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function absoluteUrl(url: string) {
+  return url.startsWith("//") ? `https:${url}` : url;
+}
+
+/** Helix `GET /chat/emotes?broadcaster_id=…` response. */
+export function parseTwitchChannelEmotes(payload: unknown): CatalogEmote[] {
+  const emotes: CatalogEmote[] = [];
+  asArray(asRecord(payload)?.data).forEach((entry) => {
+    const record = asRecord(entry);
+    const id = asString(record?.id);
+    const code = asString(record?.name);
+    const imageUrl = getTwitchEmoteImageUrl(id);
+    if (id && code && imageUrl) {
+      emotes.push({ code, id, imageUrl, provider: "twitch" });
+    }
+  });
+  return emotes;
+}
+
+/**
+ * 7TV `GET /v3/users/twitch/{id}` (channel set under `emote_set`) or
+ * `GET /v3/emote-sets/global` (emotes at the top level).
+ */
+export function parseSevenTvEmotes(payload: unknown): CatalogEmote[] {
+  const root = asRecord(payload);
+  const set = asRecord(root?.emote_set) ?? root;
+  const emotes: CatalogEmote[] = [];
+  asArray(set?.emotes).forEach((entry) => {
+    const record = asRecord(entry);
+    const id = asString(record?.id);
+    const code = asString(record?.name);
+    if (!id || !code) {
+      return;
+    }
+    const host = asRecord(asRecord(record?.data)?.host);
+    const hostUrl = asString(host?.url);
+    const imageUrl = hostUrl
+      ? `${absoluteUrl(hostUrl)}/2x.webp`
+      : `https://cdn.7tv.app/emote/${encodeURIComponent(id)}/2x.webp`;
+    emotes.push({ code, id, imageUrl, provider: "7tv" });
+  });
+  return emotes;
+}
+
+/**
+ * BTTV `GET /3/cached/users/twitch/{id}` (channel + shared emotes) or
+ * `GET /3/cached/emotes/global` (a bare array).
+ */
+export function parseBttvEmotes(payload: unknown): CatalogEmote[] {
+  const root = asRecord(payload);
+  const entries = root
+    ? [...asArray(root.channelEmotes), ...asArray(root.sharedEmotes)]
+    : asArray(payload);
+  const emotes: CatalogEmote[] = [];
+  entries.forEach((entry) => {
+    const record = asRecord(entry);
+    const id = asString(record?.id);
+    const code = asString(record?.code);
+    if (id && code) {
+      emotes.push({
+        code,
+        id,
+        imageUrl: `https://cdn.betterttv.net/emote/${encodeURIComponent(id)}/2x`,
+        provider: "bttv",
+      });
+    }
+  });
+  return emotes;
+}
+
+/**
+ * FFZ `GET /v1/room/id/{id}` or `GET /v1/set/global`. Both return a `sets`
+ * map; globals only apply for the ids listed in `default_sets`.
+ */
+export function parseFfzEmotes(payload: unknown): CatalogEmote[] {
+  const root = asRecord(payload);
+  const sets = asRecord(root?.sets);
+  if (!sets) {
+    return [];
+  }
+  const defaultSets = asArray(root?.default_sets)
+    .map((value) => asString(value))
+    .filter((value): value is string => value !== null);
+  const setIds = defaultSets.length > 0 ? defaultSets : Object.keys(sets);
+
+  const emotes: CatalogEmote[] = [];
+  setIds.forEach((setId) => {
+    asArray(asRecord(sets[setId])?.emoticons).forEach((entry) => {
+      const record = asRecord(entry);
+      const id = asString(record?.id);
+      const code = asString(record?.name);
+      const urls = asRecord(record?.urls);
+      const url = asString(urls?.["2"]) ?? asString(urls?.["1"]);
+      if (id && code && url) {
+        emotes.push({ code, id, imageUrl: absoluteUrl(url), provider: "ffz" });
+      }
+    });
+  });
+  return emotes;
+}
+
+/**
+ * Merges provider lists into one catalog. Earlier lists win when two
+ * providers use the same code, so callers pass channel emotes before globals
+ * and Twitch before third-party providers.
+ */
+export function mergeEmoteCatalog(lists: CatalogEmote[][], limit = Infinity): CatalogEmote[] {
+  const byCode = new Map<string, CatalogEmote>();
+  for (const list of lists) {
+    for (const emote of list) {
+      if (byCode.size >= limit) {
+        return Array.from(byCode.values());
+      }
+      if (!byCode.has(emote.code)) {
+        byCode.set(emote.code, emote);
+      }
+    }
+  }
+  return Array.from(byCode.values());
+}
+
+/**
+ * Case-sensitive lookup over a merged catalog. Third-party emotes only render
+ * on an exact match, so "kekw" in a sentence is a word rather than "KEKW".
+ */
+export class EmoteCatalog {
+  private readonly byCode = new Map<string, CatalogEmote>();
+
+  constructor(emotes: CatalogEmote[] = []) {
+    emotes.forEach((emote) => {
+      if (!this.byCode.has(emote.code)) {
+        this.byCode.set(emote.code, emote);
+      }
+    });
+  }
+
+  get size() {
+    return this.byCode.size;
+  }
+
+  lookup(code: string | null | undefined) {
+    return code ? (this.byCode.get(code) ?? null) : null;
+  }
+
+  /** Every whitespace-delimited catalog emote in `message`, with its character range. */
+  match(message: string): EmoteCatalogMatch[] {
+    if (this.byCode.size === 0) {
+      return [];
+    }
+    const matches: EmoteCatalogMatch[] = [];
+    for (const word of message.matchAll(/\S+/g)) {
+      const emote = this.byCode.get(word[0]);
+      if (emote && word.index !== undefined) {
+        matches.push({ ...emote, start: word.index, end: word.index + word[0].length - 1 });
+      }
+    }
+    return matches;
+  }
+}
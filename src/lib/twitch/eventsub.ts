@@ -0,0 +1,212 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const EVENTSUB_MESSAGE_ID_HEADER = "twitch-eventsub-message-id";
+export const EVENTSUB_MESSAGE_TIMESTAMP_HEADER = "twitch-eventsub-message-timestamp";
+export const EVENTSUB_MESSAGE_SIGNATURE_HEADER = "twitch-eventsub-message-signature";
+export const EVENTSUB_MESSAGE_TYPE_HEADER = "twitch-eventsub-message-type";
+export const EVENTSUB_SUBSCRIPTION_TYPE_HEADER = "twitch-eventsub-subscription-type";
+
+// Twitch recommends rejecting anything older than ten minutes; message ids
+// only need to be remembered for the same span.
+export const EVENTSUB_MAX_AGE_MS = 10 * 60 * 1000;
+
+const SIGNATURE_PREFIX = "sha256=";
+
+export type EventSubMessageType = "notification" | "webhook_callback_verification" | "revocation";
+
+export type EventSubSubscription = {
+  id: string;
+  type: string;
+  status: string | null;
+};
+
+export type EventSubMessage =
+  | {
+      messageType: "webhook_callback_verification";
+      messageId: string;
+      timestamp: number;
+      subscription: EventSubSubscription;
+      challenge: string;
+    }
+  | {
+      messageType: "notification";
+      messageId: string;
+      timestamp: number;
+      subscription: EventSubSubscription;
+      event: Record<string, unknown>;
+    }
+  | {
+      messageType: "revocation";
+      messageId: string;
+      timestamp: number;
+      subscription: EventSubSubscription;
+    };
+
+export type EventSubVerification =
+  | { ok: true; message: EventSubMessage }
+  | { ok: false; reason: "missing_signature" | "expired" | "bad_signature" | "invalid_body" };
+
+export type StreamOnlineEvent = {
+  broadcasterUserId: string;
+  broadcasterUserLogin: string;
+  broadcasterUserName: string;
+  startedAt: number;
+};
+
+export type StreamOfflineEvent = {
+  broadcasterUserId: string;
+  broadcasterUserLogin: string;
+};
+
+export type AuthorizationRevokeEvent = {
+  userId: string;
+  /** Null when the revoke comes from the user deleting their account. */
+  userLogin: string | null;
+};
+
+export function signEventSubMessage(
+  secret: string,
+  messageId: string,
+  timestamp: string,
+  rawBody: string
+) {
+  const digest = createHmac("sha256", secret).update(`${messageId}${timestamp}${rawBody}`).digest("hex");
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/** Headers and body as Twitch would send them; used by the local fixture sender. */
+export function buildSignedEventSubRequest(options: {
+  secret: string;
+  messageId: string;
+  messageType: EventSubMessageType;
+  subscriptionType: string;
+  payload: Record<string, unknown>;
+  now?: number;
+}) {
+  const timestamp = new Date(options.now ?? Date.now()).toISOString();
+  const body = JSON.stringify(options.payload);
+  return {
+    body,
+    headers: {
+      "Content-Type": "application/json",
+      [EVENTSUB_MESSAGE_ID_HEADER]: options.messageId,
+      [EVENTSUB_MESSAGE_TIMESTAMP_HEADER]: timestamp,
+      [EVENTSUB_MESSAGE_SIGNATURE_HEADER]: signEventSubMessage(
+        options.secret,
+        options.messageId,
+        timestamp,
+        body
+      ),
+      [EVENTSUB_MESSAGE_TYPE_HEADER]: options.messageType,
+      [EVENTSUB_SUBSCRIPTION_TYPE_HEADER]: options.subscriptionType,
+    },
+  };
+}
+
+function asRecord(value: unknown) {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export function verifyEventSubRequest(options: {
+  secret: string;
+  rawBody: string;
+  headers: Headers;
+  now?: number;
+}): EventSubVerification {
+  const { secret, rawBody, headers } = options;
+  const now = options.now ?? Date.now();
+  const messageId = headers.get(EVENTSUB_MESSAGE_ID_HEADER);
+  const timestampHeader = headers.get(EVENTSUB_MESSAGE_TIMESTAMP_HEADER);
+  const signatureHeader = headers.get(EVENTSUB_MESSAGE_SIGNATURE_HEADER);
+  const messageType = headers.get(EVENTSUB_MESSAGE_TYPE_HEADER);
+
+  if (!messageId || !timestampHeader || !signatureHeader) {
+    return { ok: false, reason: "missing_signature" };
+  }
+
+  const timestamp = Date.parse(timestampHeader);
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > EVENTSUB_MAX_AGE_MS) {
+    return { ok: false, reason: "expired" };
+  }
+
+  // The signature covers the timestamp exactly as sent, not a re-serialized date.
+  const expected = Buffer.from(signEventSubMessage(secret, messageId, timestampHeader, rawBody));
+  const received = Buffer.from(signatureHeader.trim());
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = asRecord(JSON.parse(rawBody));
+  } catch {
+    return { ok: false, reason: "invalid_body" };
+  }
+
+  const subscriptionRecord = asRecord(body?.subscription);
+  const subscriptionId = asString(subscriptionRecord?.id);
+  const subscriptionType = asString(subscriptionRecord?.type);
+  if (!body || !subscriptionId || !subscriptionType) {
+    return { ok: false, reason: "invalid_body" };
+  }
+  const subscription: EventSubSubscription = {
+    id: subscriptionId,
+    type: subscriptionType,
+    status: asString(subscriptionRecord?.status),
+  };
+
+  switch (messageType) {
+    case "webhook_callback_verification": {
+      const challenge = asString(body.challenge);
+      return challenge
+        ? { ok: true, message: { messageType, messageId, timestamp, subscription, challenge } }
+        : { ok: false, reason: "invalid_body" };
+    }
+    case "notification": {
+      const event = asRecord(body.event);
+      return event
+        ? { ok: true, message: { messageType, messageId, timestamp, subscription, event } }
+        : { ok: false, reason: "invalid_body" };
+    }
+    case "revocation":
+      return { ok: true, message: { messageType, messageId, timestamp, subscription } };
+    default:
+      return { ok: false, reason: "invalid_body" };
+  }
+}
+
+export function parseStreamOnlineEvent(event: Record<string, unknown>): StreamOnlineEvent | null {
+  const broadcasterUserId = asString(event.broadcaster_user_id);
+  const broadcasterUserLogin = asString(event.broadcaster_user_login)?.toLowerCase();
+  if (!broadcasterUserId || !broadcasterUserLogin) {
+    return null;
+  }
+  const startedAt = Date.parse(asString(event.started_at) ?? "");
+  return {
+    broadcasterUserId,
+    broadcasterUserLogin,
+    broadcasterUserName: asString(event.broadcaster_user_name) ?? broadcasterUserLogin,
+    startedAt: Number.isFinite(startedAt) ? startedAt : Date.now(),
+  };
+}
+
+export function parseStreamOfflineEvent(event: Record<string, unknown>): StreamOfflineEvent | null {
+  const broadcasterUserId = asString(event.broadcaster_user_id);
+  const broadcasterUserLogin = asString(event.broadcaster_user_login)?.toLowerCase();
+  return broadcasterUserId && broadcasterUserLogin
+    ? { broadcasterUserId, broadcasterUserLogin }
+    : null;
+}
+
+export function parseAuthorizationRevokeEvent(
+  event: Record<string, unknown>
+): AuthorizationRevokeEvent | null {
+  const userId = asString(event.user_id);
+  return userId ? { userId, userLogin: asString(event.user_login)?.toLowerCase() ?? null } : null;
+}
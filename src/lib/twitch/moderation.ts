@@ -0,0 +1,179 @@
+export type ModerationReason = "deleted" | "timeout" | "ban";
+
+export type ModerationAction =
+  | { type: "delete"; messageId: string; login: string | null; occurredAt: number }
+  | {
+      type: "timeout" | "ban";
+      targetUserId: string | null;
+      targetLogin: string;
+      durationSeconds: number | null;
+      occurredAt: number;
+    }
+  | { type: "clear"; occurredAt: number };
+
+export type AnnotationKind =
+  | "slow-mode"
+  | "emote-only"
+  | "followers-only"
+  | "subs-only"
+  | "unique-chat"
+  | "chat-cleared";
+
+export type RoomState = {
+  slowSeconds: number;
+  emoteOnly: boolean;
+  followersOnlyMinutes: number | null;
+  subsOnly: boolean;
+  uniqueChat: boolean;
+};
+
+export type RoomStateAnnotation = {
+  kind: AnnotationKind;
+  enabled: boolean;
+  value: number | null;
+};
+
+type Tags = Record<string, unknown>;
+
+function tagString(tags: Tags, key: string) {
+  const value = tags[key];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function tagNumber(tags: Tags, key: string) {
+  const value = tags[key];
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function tagFlag(tags: Tags, key: string) {
+  const value = tags[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  return value === "1" || value === true;
+}
+
+function occurredAt(tags: Tags) {
+  return tagNumber(tags, "tmi-sent-ts") ?? Date.now();
+}
+
+/** CLEARMSG: a moderator deleted a single message. */
+export function parseClearMsg(tags: Tags): ModerationAction | null {
+  const messageId = tagString(tags, "target-msg-id");
+  if (!messageId) {
+    return null;
+  }
+  return { type: "delete", messageId, login: tagString(tags, "login"), occurredAt: occurredAt(tags) };
+}
+
+/** CLEARCHAT: a timeout/ban when a target login is present, otherwise `/clear`. */
+export function parseClearChat(tags: Tags, targetLogin: string | null): ModerationAction {
+  const login = targetLogin?.trim().toLowerCase();
+  if (!login) {
+    return { type: "clear", occurredAt: occurredAt(tags) };
+  }
+  const durationSeconds = tagNumber(tags, "ban-duration");
+  return {
+    type: durationSeconds === null ? "ban" : "timeout",
+    targetUserId: tagString(tags, "target-user-id"),
+    targetLogin: login,
+    durationSeconds,
+    occurredAt: occurredAt(tags),
+  };
+}
+
+/**
+ * ROOMSTATE carries every mode on join but only the changed ones afterwards,
+ * so missing tags keep their previous value.
+ */
+export function applyRoomState(previous: RoomState | null, tags: Tags): RoomState {
+  const base: RoomState = previous ?? {
+    slowSeconds: 0,
+    emoteOnly: false,
+    followersOnlyMinutes: null,
+    subsOnly: false,
+    uniqueChat: false,
+  };
+  const slow = tagNumber(tags, "slow");
+  const followers = tagNumber(tags, "followers-only");
+  return {
+    slowSeconds: slow ?? base.slowSeconds,
+    emoteOnly: tagFlag(tags, "emote-only") ?? base.emoteOnly,
+    followersOnlyMinutes:
+      followers === null ? base.followersOnlyMinutes : followers < 0 ? null : followers,
+    subsOnly: tagFlag(tags, "subs-only") ?? base.subsOnly,
+    uniqueChat: tagFlag(tags, "r9k") ?? base.uniqueChat,
+  };
+}
+
+export function diffRoomState(previous: RoomState | null, next: RoomState): RoomStateAnnotation[] {
+  const before = previous ?? applyRoomState(null, {});
+  const annotations: RoomStateAnnotation[] = [];
+  if (before.slowSeconds !== next.slowSeconds) {
+    annotations.push({
+      kind: "slow-mode",
+      enabled: next.slowSeconds > 0,
+      value: next.slowSeconds > 0 ? next.slowSeconds : null,
+    });
+  }
+  if (before.emoteOnly !== next.emoteOnly) {
+    annotations.push({ kind: "emote-only", enabled: next.emoteOnly, value: null });
+  }
+  if (before.followersOnlyMinutes !== next.followersOnlyMinutes) {
+    annotations.push({
+      kind: "followers-only",
+      enabled: next.followersOnlyMinutes !== null,
+      value: next.followersOnlyMinutes,
+    });
+  }
+  if (before.subsOnly !== next.subsOnly) {
+    annotations.push({ kind: "subs-only", enabled: next.subsOnly, value: null });
+  }
+  if (before.uniqueChat !== next.uniqueChat) {
+    annotations.push({ kind: "unique-chat", enabled: next.uniqueChat, value: null });
+  }
+  return annotations;
+}
+
+/** Title and detail lines for timeline markers and the events feed. */
+export function describeAnnotation(annotation: RoomStateAnnotation) {
+  const state = annotation.enabled ? "on" : "off";
+  switch (annotation.kind) {
+    case "slow-mode":
+      return {
+        title: `Slow mode ${state}`,
+        detail: annotation.enabled
+          ? `Viewers can send one message every ${annotation.value ?? 0}s.`
+          : "Chat is no longer rate limited.",
+      };
+    case "emote-only":
+      return {
+        title: `Emote-only mode ${state}`,
+        detail: annotation.enabled ? "Only emotes can be sent." : "Text messages are allowed again.",
+      };
+    case "followers-only":
+      return {
+        title: `Followers-only mode ${state}`,
+        detail: annotation.enabled
+          ? annotation.value
+            ? `Viewers must follow for ${annotation.value} min before chatting.`
+            : "Only followers can chat."
+          : "Anyone can chat again.",
+      };
+    case "subs-only":
+      return {
+        title: `Subscriber-only mode ${state}`,
+        detail: annotation.enabled ? "Only subscribers can chat." : "Anyone can chat again.",
+      };
+    case "unique-chat":
+      return {
+        title: `Unique-chat mode ${state}`,
+        detail: annotation.enabled
+          ? "Repeated messages are blocked."
+          : "Repeated messages are allowed again.",
+      };
+    case "chat-cleared":
+      return { title: "Chat cleared", detail: "A moderator cleared the chat history." };
+  }
+}
@@ -0,0 +1,111 @@
+export const TWITCH_REVOKE_URL = "https://id.twitch.tv/oauth2/revoke";
+export const TWITCH_VALIDATE_URL = "https://id.twitch.tv/oauth2/validate";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** "already_invalid" counts as success: the token can't be used either way. */
+export type TokenRevocation =
+  | { ok: true; outcome: "revoked" | "already_invalid" }
+  | { ok: false; status: number | null; message: string };
+
+/** `status` 401 means Twitch rejected the token; anything else means we couldn't tell. */
+export type TokenValidation =
+  | { ok: true; userId: string; login: string; expiresIn: number }
+  | { ok: false; status: number | null; message: string };
+
+export type TwitchOAuthClient = {
+  revokeToken: (token: string) => Promise<TokenRevocation>;
+};
+
+type TwitchOAuthClientOptions = {
+  clientId: string;
+  /** Injected by tests so nothing reaches id.twitch.tv. */
+  fetch?: typeof fetch;
+};
+
+export function createTwitchOAuthClient({
+  clientId,
+  fetch: fetchImpl = fetch,
+}: TwitchOAuthClientOptions): TwitchOAuthClient {
+  return {
+    async revokeToken(token) {
+      let response: Response;
+      try {
+        response = await fetchImpl(TWITCH_REVOKE_URL, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({ client_id: clientId, token }).toString(),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        return {
+          ok: false,
+          status: null,
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      if (response.ok) {
+        return { ok: true, outcome: "revoked" };
+      }
+
+      const text = await response.text().catch(() => "");
+      // Twitch answers 400 "Invalid token" for tokens that expired or were already revoked.
+      if (response.status === 400 && /invalid token/i.test(text)) {
+        return { ok: true, outcome: "already_invalid" };
+      }
+      return { ok: false, status: response.status, message: text || response.statusText };
+    },
+  };
+}
+
+/**
+ * Revokes every token we held for an authorization. Refresh tokens are revoked
+ * too so a copy that outlived the access token can't mint new ones.
+ */
+export async function revokeTwitchTokens(client: TwitchOAuthClient, tokens: string[]) {
+  const unique = Array.from(new Set(tokens.filter(Boolean)));
+  const results = await Promise.all(unique.map((token) => client.revokeToken(token)));
+  const failures = results.filter(
+    (result): result is Extract<TokenRevocation, { ok: false }> => !result.ok
+  );
+  return { ok: failures.length === 0, failures };
+}
+
+/**
+ * Asks Twitch whether an access token still works. Validation needs no client
+ * id, so it isn't part of `TwitchOAuthClient`.
+ */
+export async function validateTwitchToken(
+  token: string,
+  { fetch: fetchImpl = fetch }: { fetch?: typeof fetch } = {}
+): Promise<TokenValidation> {
+  let response: Response;
+  try {
+    response = await fetchImpl(TWITCH_VALIDATE_URL, {
+      headers: { Authorization: `OAuth ${token}` },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    return { ok: false, status: response.status, message: text || response.statusText };
+  }
+
+  const json: { user_id?: string; login?: string; expires_in?: number } = await response
+    .json()
+    .catch(() => ({}));
+  return {
+    ok: true,
+    userId: String(json.user_id ?? ""),
+    login: String(json.login ?? ""),
+    expiresIn: typeof json.expires_in === "number" ? json.expires_in : 0,
+  };
+}
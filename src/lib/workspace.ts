@@ -5,9 +5,34 @@ import { ConvexHttpClient } from "convex/browser";
 import { fetchMutation } from "convex/nextjs";
 import { api, internal } from "../../convex/_generated/api";
 import { readEnv } from "./env";
+import { validateTwitchToken } from "./twitch/oauth";
 import type { Id } from "../../convex/_generated/dataModel";
 
-export async function ensureWorkspace(userId: string) {
+/** Why a reconnect left the channel disconnected. */
+export type ReconnectBlock = "reauth_required" | "twitch_unreachable";
+
+type ClerkOAuthToken = {
+  token?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number | string | null;
+  expiresIn?: number | null;
+  expires_in?: number | null;
+  scopes?: string[];
+  scope?: string[] | string;
+  tokenType?: string;
+};
+
+/**
+ * `reconnect` revives a channel disconnected from Settings or revoked on
+ * Twitch; every other caller leaves it that way and skips storing fresh
+ * Twitch tokens for it. A reconnect only goes through once Twitch accepts the
+ * token Clerk hands back; otherwise the reason is returned.
+ */
+export async function ensureWorkspace(
+  userId: string,
+  options?: { reconnect?: boolean }
+): Promise<{ reconnectBlocked: ReconnectBlock } | void> {
   try {
     const client = await clerkClient();
     const user = await client.users.getUser(userId);
@@ -63,11 +88,36 @@ export async function ensureWorkspace(userId: string) {
       displayName,
     });
 
+    // Disconnecting revoked the tokens with Twitch, but Clerk keeps handing
+    // the same ones back until the user signs in with Twitch again. Reviving
+    // the channel with them would only leave ingestion failing.
+    let reconnect = options?.reconnect ?? false;
+    let reconnectBlocked: ReconnectBlock | null = null;
+    let clerkTokens: ClerkOAuthToken[] | null = null;
+    if (reconnect) {
+      clerkTokens = await loadClerkTwitchTokens(user.id, channelLogin);
+      const accessToken = clerkTokens ? readAccessToken(clerkTokens[0]) : null;
+      const validation = accessToken ? await validateTwitchToken(accessToken) : null;
+      if (!validation?.ok) {
+        reconnect = false;
+        reconnectBlocked =
+          validation && (validation.status === null || validation.status >= 500)
+            ? "twitch_unreachable"
+            : "reauth_required";
+        console.warn("[workspace] Twitch token rejected; keeping channel disconnected", {
+          userId,
+          channelLogin,
+          reason: reconnectBlocked,
+          status: validation?.status ?? null,
+        });
+      }
+    }
+
     const env = readEnv();
     const convexAdminKey = env.CONVEX_ADMIN_KEY;
     const workspaceSecret = env.CONVEX_WORKSPACE_SECRET;
     let ensureResult:
-      | { workspaceId: string; integrationId: string; userId: string }
+      | { workspaceId: string; integrationId: string; userId: string; connected: boolean }
       | null = null;
 
     if (!convexAdminKey) {
@@ -79,23 +129,23 @@ export async function ensureWorkspace(userId: string) {
           channelId,
           channelLogin,
           channelDisplayName: displayName ?? channelLogin,
+          reconnect,
           secret: workspaceSecret,
         });
       } catch (mutationError) {
         console.error("[workspace] Public ensureWorkspace mutation failed", mutationError);
       }
-      if (!ensureResult) {
-        return;
+      if (ensureResult?.connected) {
+        await storeChannelTokens({
+          user,
+          channelLogin,
+          channelId,
+          integrationId: ensureResult.integrationId,
+          tokens: clerkTokens,
+          workspaceSecret,
+        });
       }
-
-      await storeChannelTokens({
-        user,
-        channelLogin,
-        channelId,
-        integrationId: ensureResult.integrationId,
-        workspaceSecret,
-      });
-      return;
+      return reconnectBlocked ? { reconnectBlocked } : undefined;
     }
 
     const convexUrl = env.NEXT_PUBLIC_CONVEX_URL;
@@ -113,17 +163,20 @@ export async function ensureWorkspace(userId: string) {
       channelId,
       channelLogin,
       channelDisplayName: displayName ?? channelLogin,
+      reconnect,
     });
 
-    if (ensureResult) {
+    if (ensureResult?.connected) {
       await storeChannelTokens({
         user,
         channelLogin,
         channelId,
         integrationId: ensureResult.integrationId,
+        tokens: clerkTokens,
         convexClient,
       });
     }
+    return reconnectBlocked ? { reconnectBlocked } : undefined;
   } catch (error) {
     console.error("Failed to ensure workspace linkage", error);
   }
@@ -134,78 +187,75 @@ type StoreTokenArgs = {
   channelLogin: string;
   channelId: string;
   integrationId: string;
+  /** Already read from Clerk by the caller, so they aren't fetched twice. */
+  tokens?: ClerkOAuthToken[] | null;
   convexClient?: ConvexHttpClient;
   workspaceSecret?: string;
 };
 
+async function loadClerkTwitchTokens(userId: string, channelLogin: string) {
+  const client = await clerkClient();
+  const secretPreview = process.env.CLERK_SECRET_KEY
+    ? `${process.env.CLERK_SECRET_KEY.slice(0, 8)}…`
+    : undefined;
+  console.info("[workspace] Clerk secret preview", { secretPreview });
+
+  const providerCandidates = ["oauth_twitch", "twitch"];
+  for (const provider of providerCandidates) {
+    try {
+      const fetched = await client.users.getUserOauthAccessToken(userId, provider as any);
+      const items = Array.isArray(fetched)
+        ? fetched
+        : (fetched as any)?.data && Array.isArray((fetched as any).data)
+          ? (fetched as any).data
+          : [];
+      console.info("[workspace] OAuth token fetch", {
+        provider,
+        isArray: Array.isArray(fetched),
+        hasDataArray: Array.isArray((fetched as any)?.data),
+        count: items.length,
+      });
+      if (items.length > 0) {
+        return items as ClerkOAuthToken[];
+      }
+    } catch (error) {
+      continue;
+    }
+  }
+
+  console.warn("[workspace] No Twitch OAuth tokens available from Clerk", {
+    userId,
+    channelLogin,
+    providerCandidates,
+  });
+  return null;
+}
+
+function readAccessToken(primary: ClerkOAuthToken | undefined) {
+  return typeof primary?.token === "string"
+    ? primary.token
+    : typeof primary?.accessToken === "string"
+      ? primary.accessToken
+      : null;
+}
+
 async function storeChannelTokens({
   user,
   channelLogin,
   channelId,
   integrationId,
+  tokens: preloadedTokens,
   convexClient,
   workspaceSecret,
 }: StoreTokenArgs) {
   try {
-    const client = await clerkClient();
-    const secretPreview = process.env.CLERK_SECRET_KEY
-      ? `${process.env.CLERK_SECRET_KEY.slice(0, 8)}…`
-      : undefined;
-    console.info("[workspace] Clerk secret preview", { secretPreview });
-    let tokens:
-      | Array<{
-          token?: string;
-          accessToken?: string;
-          refreshToken?: string;
-          expiresAt?: number | string | null;
-          expiresIn?: number | null;
-          expires_in?: number | null;
-          scopes?: string[];
-          scope?: string[] | string;
-          tokenType?: string;
-        }>
-      | null = null;
-
-    const providerCandidates = ["oauth_twitch", "twitch"];
-    for (const provider of providerCandidates) {
-      try {
-        const fetched = await client.users.getUserOauthAccessToken(user.id, provider as any);
-        const items = Array.isArray(fetched)
-          ? fetched
-          : (fetched as any)?.data && Array.isArray((fetched as any).data)
-            ? (fetched as any).data
-            : [];
-        console.info("[workspace] OAuth token fetch", {
-          provider,
-          isArray: Array.isArray(fetched),
-          hasDataArray: Array.isArray((fetched as any)?.data),
-          count: items.length,
-        });
-        if (items.length > 0) {
-          tokens = items as any;
-          break;
-        }
-      } catch (error) {
-        continue;
-      }
-    }
-
+    const tokens = preloadedTokens ?? (await loadClerkTwitchTokens(user.id, channelLogin));
     if (!tokens || tokens.length === 0) {
-      console.warn("[workspace] No Twitch OAuth tokens available from Clerk", {
-        userId: user.id,
-        channelLogin,
-        providerCandidates,
-      });
       return;
     }
 
     const primary = tokens[0] as any;
-    const accessToken =
-      typeof primary?.token === "string"
-        ? primary.token
-        : typeof primary?.accessToken === "string"
-          ? primary.accessToken
-          : null;
+    const accessToken = readAccessToken(primary);
     const refreshToken =
       typeof primary?.refreshToken === "string" ? primary.refreshToken : null;
 
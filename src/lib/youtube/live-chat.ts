@@ -0,0 +1,194 @@
+import type { ModerationAction } from "../twitch/moderation";
+
+export type LiveChatEmote = {
+  code: string;
+  id: string | null;
+  imageUrl: string | null;
+  start: number;
+  end: number;
+};
+
+export type LiveChatMessage = {
+  messageId: string;
+  /** `youtube:<channelId>` so author hashes never collide with Twitch user ids. */
+  authorId: string;
+  authorLogin: string;
+  authorDisplay: string;
+  text: string;
+  timestamp: number;
+  /** `snippet.publishedAt`, or null when YouTube left it out. */
+  sentAt: number | null;
+  emotes: LiveChatEmote[];
+  badges: string[];
+};
+
+export type LiveChatPage = {
+  messages: LiveChatMessage[];
+  moderation: ModerationAction[];
+  nextPageToken: string | null;
+  pollingIntervalMillis: number | null;
+  /** The broadcast ended or its chat was closed; stop polling this chat id. */
+  ended: boolean;
+};
+
+const AUTHOR_ID_PREFIX = "youtube:";
+
+// `:shortcode:` emoji as they appear in displayMessage; member emoji start with `_`.
+const SHORTCODE_PATTERN = /:[A-Za-z_][A-Za-z0-9_-]*:/g;
+
+// Errors YouTube returns once a chat can no longer be polled.
+const ENDED_ERROR_REASONS = new Set(["liveChatEnded", "liveChatNotFound", "liveChatDisabled"]);
+
+function asRecord(value: unknown) {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function asNumber(value: unknown) {
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function toYouTubeAuthorId(channelId: string) {
+  return `${AUTHOR_ID_PREFIX}${channelId}`;
+}
+
+export function extractShortcodeEmotes(text: string): LiveChatEmote[] {
+  const emotes: LiveChatEmote[] = [];
+  for (const match of text.matchAll(SHORTCODE_PATTERN)) {
+    const start = match.index ?? 0;
+    emotes.push({ code: match[0], id: null, imageUrl: null, start, end: start + match[0].length - 1 });
+  }
+  return emotes;
+}
+
+/** Maps YouTube's author flags onto the Twitch badge names the rest of the app uses. */
+function authorBadges(author: Record<string, unknown> | null) {
+  const badges: string[] = [];
+  if (author?.isChatOwner === true) badges.push("broadcaster");
+  if (author?.isChatModerator === true) badges.push("moderator");
+  if (author?.isChatSponsor === true) badges.push("subscriber");
+  if (author?.isVerified === true) badges.push("verified");
+  return badges;
+}
+
+function messageText(type: string, snippet: Record<string, unknown>) {
+  switch (type) {
+    case "textMessageEvent":
+      return asString(asRecord(snippet.textMessageDetails)?.messageText) ?? asString(snippet.displayMessage);
+    // Paid messages and milestones count as chat only when the viewer wrote something.
+    case "superChatEvent":
+      return asString(asRecord(snippet.superChatDetails)?.userComment);
+    case "memberMilestoneChatEvent":
+      return asString(asRecord(snippet.memberMilestoneChatDetails)?.userComment);
+    default:
+      return null;
+  }
+}
+
+function parseModeration(type: string, snippet: Record<string, unknown>, occurredAt: number) {
+  if (type === "messageDeletedEvent") {
+    const messageId = asString(asRecord(snippet.messageDeletedDetails)?.deletedMessageId);
+    return messageId ? ({ type: "delete", messageId, login: null, occurredAt } satisfies ModerationAction) : null;
+  }
+
+  const details = asRecord(snippet.userBannedDetails);
+  const target = asRecord(details?.bannedUserDetails);
+  const channelId = asString(target?.channelId);
+  if (!channelId) {
+    return null;
+  }
+  const temporary = details?.banType === "temporary";
+  return {
+    type: temporary ? "timeout" : "ban",
+    targetUserId: toYouTubeAuthorId(channelId),
+    targetLogin: asString(target?.displayName) ?? channelId,
+    durationSeconds: temporary ? asNumber(details?.banDurationSeconds) : null,
+    occurredAt,
+  } satisfies ModerationAction;
+}
+
+/** One `liveChatMessages.list` response. Unknown item types are skipped. */
+export function parseLiveChatPage(payload: unknown): LiveChatPage {
+  const body = asRecord(payload);
+  const items = Array.isArray(body?.items) ? body.items : [];
+  const page: LiveChatPage = {
+    messages: [],
+    moderation: [],
+    nextPageToken: asString(body?.nextPageToken),
+    pollingIntervalMillis: asNumber(body?.pollingIntervalMillis),
+    ended: asString(body?.offlineAt) !== null,
+  };
+
+  for (const entry of items) {
+    const item = asRecord(entry);
+    const snippet = asRecord(item?.snippet);
+    const type = asString(snippet?.type);
+    if (!item || !snippet || !type) {
+      continue;
+    }
+    const publishedAt = Date.parse(asString(snippet.publishedAt) ?? "");
+    const timestamp = Number.isFinite(publishedAt) ? publishedAt : Date.now();
+
+    if (type === "chatEndedEvent") {
+      page.ended = true;
+      continue;
+    }
+    if (type === "messageDeletedEvent" || type === "userBannedEvent") {
+      const action = parseModeration(type, snippet, timestamp);
+      if (action) {
+        page.moderation.push(action);
+      }
+      continue;
+    }
+
+    const messageId = asString(item.id);
+    const author = asRecord(item.authorDetails);
+    const channelId = asString(author?.channelId) ?? asString(snippet.authorChannelId);
+    const text = messageText(type, snippet);
+    if (!messageId || !channelId || !text) {
+      continue;
+    }
+    const authorDisplay = asString(author?.displayName) ?? channelId;
+    page.messages.push({
+      messageId,
+      authorId: toYouTubeAuthorId(channelId),
+      authorLogin: authorDisplay.replace(/^@/, "").toLowerCase(),
+      authorDisplay: authorDisplay.replace(/^@/, ""),
+      text,
+      timestamp,
+      sentAt: Number.isFinite(publishedAt) ? publishedAt : null,
+      emotes: extractShortcodeEmotes(text),
+      badges: authorBadges(author),
+    });
+  }
+
+  return page;
+}
+
+/** `videos.list?part=liveStreamingDetails`: the chat id of a broadcast that is still live. */
+export function parseActiveLiveChatId(payload: unknown) {
+  const items = asRecord(payload)?.items;
+  const video = Array.isArray(items) ? asRecord(items[0]) : null;
+  return asString(asRecord(video?.liveStreamingDetails)?.activeLiveChatId);
+}
+
+/** `search.list?eventType=live`: the channel's current live broadcast, if any. */
+export function parseLiveVideoId(payload: unknown) {
+  const items = asRecord(payload)?.items;
+  const result = Array.isArray(items) ? asRecord(items[0]) : null;
+  return asString(asRecord(result?.id)?.videoId);
+}
+
+/** True for the 403/404 reasons YouTube returns once a chat has closed. */
+export function isLiveChatEndedError(payload: unknown) {
+  const errors = asRecord(asRecord(payload)?.error)?.errors;
+  return Array.isArray(errors)
+    ? errors.some((error) => ENDED_ERROR_REASONS.has(asString(asRecord(error)?.reason) ?? ""))
+    : false;
+}
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { clerkMiddleware } from "@clerk/nextjs/server";
 import { resolveSiteUrl } from "@/lib/site-url";
 
-const publicRoutes = ["/api/live-feed"];
+const publicRoutes = ["/api/live-feed", "/api/twitch/eventsub"];
 
 export default clerkMiddleware(async (auth, req) => {
   const url = new URL(req.url);
@@ -11,6 +11,7 @@ export default clerkMiddleware(async (auth, req) => {
   }
 
   if (
+    url.pathname.startsWith("/share/") ||
     url.pathname.startsWith("/sign-in") ||
     url.pathname.startsWith("/sign-up") ||
     url.searchParams.has("__clerk_db_jwt") ||
@@ -0,0 +1,218 @@
+export type SupervisedUnit = {
+  stop: () => Promise<void>;
+};
+
+/**
+ * Starts one channel's ingest unit. `fail` tears the unit down and schedules a
+ * restart; it is how a unit reports an error that would otherwise have crashed
+ * the process.
+ */
+export type StartUnit<TSpec, TUnit extends SupervisedUnit> = (
+  spec: TSpec,
+  fail: (error: unknown) => void
+) => Promise<TUnit>;
+
+export type ChannelSupervisorOptions<TSpec, TUnit extends SupervisedUnit> = {
+  start: StartUnit<TSpec, TUnit>;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  /** Crashes tolerated within `crashWindowMs` before the channel is parked. */
+  crashBudget?: number;
+  crashWindowMs?: number;
+};
+
+export type ChannelUnitState = "starting" | "running" | "backoff" | "parked";
+
+export type ChannelUnitStatus = {
+  state: ChannelUnitState;
+  crashes: number;
+  restartAt: number | null;
+  lastError: string | null;
+};
+
+type Entry<TSpec, TUnit> = {
+  spec: TSpec;
+  unit: TUnit | null;
+  state: ChannelUnitState;
+  generation: number;
+  crashes: number[];
+  restartTimer: ReturnType<typeof setTimeout> | null;
+  restartAt: number | null;
+  lastError: string | null;
+};
+
+const DEFAULT_BASE_BACKOFF_MS = 5_000;
+const DEFAULT_MAX_BACKOFF_MS = 5 * 60 * 1000;
+const DEFAULT_CRASH_BUDGET = 5;
+const DEFAULT_CRASH_WINDOW_MS = 30 * 60 * 1000;
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Keeps one ingest unit running per channel inside this process. A unit that
+ * fails to start or reports a failure is restarted with exponential backoff
+ * and jitter; one that burns through its crash budget is parked until the
+ * oldest crash leaves the window, so a broken channel cannot starve the rest.
+ */
+export class ChannelSupervisor<TSpec, TUnit extends SupervisedUnit> {
+  private readonly startUnit: StartUnit<TSpec, TUnit>;
+  private readonly baseBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly crashBudget: number;
+  private readonly crashWindowMs: number;
+  private readonly entries = new Map<string, Entry<TSpec, TUnit>>();
+
+  constructor(options: ChannelSupervisorOptions<TSpec, TUnit>) {
+    this.startUnit = options.start;
+    this.baseBackoffMs = options.baseBackoffMs ?? DEFAULT_BASE_BACKOFF_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    this.crashBudget = options.crashBudget ?? DEFAULT_CRASH_BUDGET;
+    this.crashWindowMs = options.crashWindowMs ?? DEFAULT_CRASH_WINDOW_MS;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /** Starts the channel unless it is already running, restarting or parked. */
+  ensure(key: string, spec: TSpec) {
+    const existing = this.entries.get(key);
+    if (existing) {
+      existing.spec = spec;
+      if (existing.state === "parked" && existing.restartAt !== null && Date.now() >= existing.restartAt) {
+        console.log(`[supervisor] Un-parking #${key}`);
+        this.launch(key, existing);
+      }
+      return;
+    }
+    const entry: Entry<TSpec, TUnit> = {
+      spec,
+      unit: null,
+      state: "starting",
+      generation: 0,
+      crashes: [],
+      restartTimer: null,
+      restartAt: null,
+      lastError: null,
+    };
+    this.entries.set(key, entry);
+    this.launch(key, entry);
+  }
+
+  async stop(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+    entry.generation += 1;
+    if (entry.restartTimer) {
+      clearTimeout(entry.restartTimer);
+      entry.restartTimer = null;
+    }
+    const unit = entry.unit;
+    entry.unit = null;
+    await unit?.stop().catch((error) => {
+      console.warn(`[supervisor] Failed to stop #${key} cleanly`, error);
+    });
+  }
+
+  async stopAll() {
+    await Promise.all(Array.from(this.entries.keys()).map((key) => this.stop(key)));
+  }
+
+  keys() {
+    return Array.from(this.entries.keys());
+  }
+
+  unit(key: string) {
+    return this.entries.get(key)?.unit ?? null;
+  }
+
+  status(): Record<string, ChannelUnitStatus> {
+    const status: Record<string, ChannelUnitStatus> = {};
+    for (const [key, entry] of this.entries) {
+      status[key] = {
+        state: entry.state,
+        crashes: entry.crashes.length,
+        restartAt: entry.restartAt,
+        lastError: entry.lastError,
+      };
+    }
+    return status;
+  }
+
+  private launch(key: string, entry: Entry<TSpec, TUnit>) {
+    entry.generation += 1;
+    const generation = entry.generation;
+    entry.state = "starting";
+    entry.restartAt = null;
+    entry.restartTimer = null;
+
+    const fail = (error: unknown) => {
+      if (entry.generation !== generation || entry.state !== "running") {
+        return;
+      }
+      void this.crash(key, entry, error);
+    };
+
+    this.startUnit(entry.spec, fail).then(
+      (unit) => {
+        if (entry.generation !== generation) {
+          // Stopped while starting.
+          void unit.stop().catch(() => {});
+          return;
+        }
+        entry.unit = unit;
+        entry.state = "running";
+      },
+      (error) => {
+        if (entry.generation === generation) {
+          void this.crash(key, entry, error);
+        }
+      }
+    );
+  }
+
+  private async crash(key: string, entry: Entry<TSpec, TUnit>, error: unknown) {
+    entry.generation += 1;
+    const generation = entry.generation;
+    const unit = entry.unit;
+    entry.unit = null;
+    entry.state = "backoff";
+    entry.lastError = describeError(error);
+    await unit?.stop().catch(() => {});
+    if (entry.generation !== generation) {
+      return;
+    }
+
+    const now = Date.now();
+    entry.crashes = entry.crashes.filter((at) => now - at < this.crashWindowMs);
+    entry.crashes.push(now);
+
+    if (entry.crashes.length > this.crashBudget) {
+      entry.state = "parked";
+      entry.restartAt = entry.crashes[0] + this.crashWindowMs;
+      console.error(
+        `[supervisor] #${key} crashed ${entry.crashes.length} times in ${Math.round(this.crashWindowMs / 60000)} minutes; parking until ${new Date(entry.restartAt).toISOString()}`,
+        error
+      );
+      return;
+    }
+
+    const exponential = this.baseBackoffMs * 2 ** (entry.crashes.length - 1);
+    const delay = Math.min(this.maxBackoffMs, exponential) * (0.5 + Math.random() * 0.5);
+    entry.restartAt = now + delay;
+    console.warn(
+      `[supervisor] #${key} crashed (${entry.crashes.length}/${this.crashBudget}); restarting in ${Math.round(delay)}ms`,
+      error
+    );
+    entry.restartTimer = setTimeout(() => {
+      if (entry.generation === generation && this.entries.get(key) === entry) {
+        this.launch(key, entry);
+      }
+    }, delay);
+  }
+}
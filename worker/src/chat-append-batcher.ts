@@ -0,0 +1,73 @@
+export type ChatAppendBatcherOptions<T> = {
+  flush: (streamId: string, messages: T[]) => Promise<void>;
+  maxBatchSize?: number;
+  maxDelayMs?: number;
+};
+
+const DEFAULT_MAX_BATCH_SIZE = 50;
+const DEFAULT_MAX_DELAY_MS = 250;
+
+/**
+ * Micro-batches chat messages for the `appendChatMessages` mutation. A batch is
+ * flushed when it reaches `maxBatchSize`, when `maxDelayMs` has passed since
+ * its first message, or when messages for a different stream arrive. Flushes
+ * run one at a time so messages land in the order they were received.
+ */
+export class ChatAppendBatcher<T> {
+  private readonly flushBatch: ChatAppendBatcherOptions<T>["flush"];
+  private readonly maxBatchSize: number;
+  private readonly maxDelayMs: number;
+  private streamId: string | null = null;
+  private pending: T[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(options: ChatAppendBatcherOptions<T>) {
+    this.flushBatch = options.flush;
+    this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  }
+
+  add(streamId: string, message: T) {
+    if (this.streamId !== null && this.streamId !== streamId) {
+      void this.flush();
+    }
+    this.streamId = streamId;
+    this.pending.push(message);
+
+    if (this.pending.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.flush();
+      }, this.maxDelayMs);
+    }
+  }
+
+  /** Sends whatever is pending and resolves once every earlier flush has finished. */
+  flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const streamId = this.streamId;
+    const messages = this.pending;
+    this.pending = [];
+    this.streamId = null;
+
+    if (streamId !== null && messages.length > 0) {
+      this.chain = this.chain.then(() =>
+        this.flushBatch(streamId, messages).catch((error) => {
+          console.error("[convex] Failed to append chat batch", {
+            streamId,
+            count: messages.length,
+            error,
+          });
+        })
+      );
+    }
+    return this.chain;
+  }
+}
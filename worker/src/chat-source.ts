@@ -0,0 +1,49 @@
+import type { ChatPlatform } from "../../src/lib/chat-platforms.ts";
+import type { ParsedChannelEvent } from "../../src/lib/twitch/channel-events.ts";
+import type { ModerationAction, RoomState } from "../../src/lib/twitch/moderation.ts";
+
+export type ChatSourceEmote = {
+  code: string;
+  id: string | null;
+  imageUrl: string | null;
+  start: number | null;
+  end: number | null;
+};
+
+/** A chat line with platform quirks already resolved. */
+export type ChatSourceMessage = {
+  platform: ChatPlatform;
+  messageId: string;
+  /** Stable platform user id; hashed together with the workspace salt. */
+  authorId: string | null;
+  authorLogin: string;
+  authorDisplay: string;
+  text: string;
+  timestamp: number;
+  /** When the platform says the line was sent; null if it didn't say. Drives end-to-end latency. */
+  sentAt: number | null;
+  emotes: ChatSourceEmote[];
+  /** Badge names in Twitch's vocabulary (broadcaster, moderator, subscriber, …). */
+  badges: string[];
+};
+
+export type ChatSourceHandlers = {
+  connected: () => void | Promise<void>;
+  disconnected: () => void | Promise<void>;
+  message: (message: ChatSourceMessage) => void | Promise<void>;
+  moderation: (action: ModerationAction) => void | Promise<void>;
+  channelEvent?: (event: ParsedChannelEvent) => void | Promise<void>;
+  roomState?: (state: RoomState) => void;
+};
+
+/**
+ * One platform's chat for one channel. `connect` resolves once the source is
+ * listening (or has started retrying in the background); handlers fire until
+ * `disconnect`.
+ */
+export interface ChatSource {
+  readonly platform: ChatPlatform;
+  readonly channel: string;
+  connect(handlers: ChatSourceHandlers): Promise<void>;
+  disconnect(): Promise<void>;
+}
@@ -0,0 +1,282 @@
+import {
+  EmoteCatalog,
+  mergeEmoteCatalog,
+  parseBttvEmotes,
+  parseFfzEmotes,
+  parseSevenTvEmotes,
+  parseTwitchChannelEmotes,
+  type CatalogEmote,
+  type EmoteProvider,
+} from "../../src/lib/twitch/emote-catalog.ts";
+
+export type EmoteProviderStatus = {
+  provider: EmoteProvider;
+  count: number;
+  error?: string;
+};
+
+export type EmoteCatalogSnapshot = {
+  emotes: CatalogEmote[];
+  providers: EmoteProviderStatus[];
+  fetchedAt: number;
+};
+
+export type EmoteProviderResult = {
+  channel: CatalogEmote[];
+  global: CatalogEmote[];
+};
+
+export type EmoteProviderAdapter = {
+  provider: EmoteProvider;
+  fetchEmotes: (channelId: string) => Promise<EmoteProviderResult>;
+};
+
+export type EmoteCatalogServiceOptions = {
+  channelId: string;
+  channelLogin: string;
+  adapters: EmoteProviderAdapter[];
+  loadSnapshot: () => Promise<EmoteCatalogSnapshot | null>;
+  saveSnapshot: (snapshot: EmoteCatalogSnapshot) => Promise<void>;
+  refreshIntervalMs?: number;
+};
+
+export type TwitchEmoteAuth = {
+  clientId: string;
+  accessToken: string;
+};
+
+type ProviderOutcome =
+  | { provider: EmoteProvider; result: EmoteProviderResult }
+  | { provider: EmoteProvider; error: string };
+
+// Matches the cap enforced by convex/ingestion/emoteCatalog.ts.
+export const MAX_CATALOG_EMOTES = 3000;
+
+const DEFAULT_REFRESH_INTERVAL_MS = 30 * 60 * 1000;
+const PROVIDER_REQUEST_TIMEOUT_MS = 10_000;
+
+/** Fetches JSON, treating 404 as "this channel has no emotes on the provider". */
+async function fetchProviderJson(
+  provider: EmoteProvider,
+  url: string,
+  init: RequestInit = {}
+): Promise<unknown | null> {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(PROVIDER_REQUEST_TIMEOUT_MS),
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new Error(
+      `${provider} responded with ${response.status}${text ? `: ${text.slice(0, 200)}` : ""}`
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Adapters for Twitch channel emotes plus the 7TV, BTTV and FFZ channel and
+ * global sets. Twitch globals are left to the worker's existing Helix map.
+ */
+export function createEmoteProviderAdapters(
+  getTwitchAuth: () => TwitchEmoteAuth | null
+): EmoteProviderAdapter[] {
+  return [
+    {
+      provider: "twitch",
+      fetchEmotes: async (channelId) => {
+        const auth = getTwitchAuth();
+        if (!auth) {
+          throw new Error("No Twitch access token available");
+        }
+        const url = new URL("https://api.twitch.tv/helix/chat/emotes");
+        url.searchParams.set("broadcaster_id", channelId);
+        const json = await fetchProviderJson("twitch", url.toString(), {
+          headers: {
+            "Client-Id": auth.clientId,
+            Authorization: `Bearer ${auth.accessToken}`,
+          },
+        });
+        return { channel: parseTwitchChannelEmotes(json), global: [] };
+      },
+    },
+    {
+      provider: "7tv",
+      fetchEmotes: async (channelId) => {
+        const [channel, global] = await Promise.all([
+          fetchProviderJson("7tv", `https://7tv.io/v3/users/twitch/${encodeURIComponent(channelId)}`),
+          fetchProviderJson("7tv", "https://7tv.io/v3/emote-sets/global"),
+        ]);
+        return { channel: parseSevenTvEmotes(channel), global: parseSevenTvEmotes(global) };
+      },
+    },
+    {
+      provider: "bttv",
+      fetchEmotes: async (channelId) => {
+        const [channel, global] = await Promise.all([
+          fetchProviderJson(
+            "bttv",
+            `https://api.betterttv.net/3/cached/users/twitch/${encodeURIComponent(channelId)}`
+          ),
+          fetchProviderJson("bttv", "https://api.betterttv.net/3/cached/emotes/global"),
+        ]);
+        return { channel: parseBttvEmotes(channel), global: parseBttvEmotes(global) };
+      },
+    },
+    {
+      provider: "ffz",
+      fetchEmotes: async (channelId) => {
+        const [channel, global] = await Promise.all([
+          fetchProviderJson(
+            "ffz",
+            `https://api.frankerfacez.com/v1/room/id/${encodeURIComponent(channelId)}`
+          ),
+          fetchProviderJson("ffz", "https://api.frankerfacez.com/v1/set/global"),
+        ]);
+        return { channel: parseFfzEmotes(channel), global: parseFfzEmotes(global) };
+      },
+    },
+  ];
+}
+
+/**
+ * Keeps one channel's emote catalog current. The Convex snapshot is loaded on
+ * start so emotes resolve straight away, then providers are re-fetched every
+ * `refreshIntervalMs`. A provider that fails keeps the emotes it contributed
+ * to the previous snapshot.
+ */
+export class EmoteCatalogService {
+  private readonly options: EmoteCatalogServiceOptions;
+  private readonly refreshIntervalMs: number;
+  private snapshot: EmoteCatalogSnapshot | null = null;
+  private current = new EmoteCatalog();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(options: EmoteCatalogServiceOptions) {
+    this.options = options;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+  }
+
+  get catalog() {
+    return this.current;
+  }
+
+  async start() {
+    try {
+      const stored = await this.options.loadSnapshot();
+      if (stored) {
+        this.apply(stored);
+      }
+    } catch (error) {
+      console.warn("[emotes] Failed to load stored emote catalog", {
+        channel: this.options.channelLogin,
+        error,
+      });
+    }
+
+    if (!this.snapshot || Date.now() - this.snapshot.fetchedAt >= this.refreshIntervalMs) {
+      void this.refresh();
+    }
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.refresh();
+      }, this.refreshIntervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Re-fetches every provider; concurrent callers share one refresh. */
+  refresh() {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async runRefresh() {
+    const { channelId, channelLogin, adapters } = this.options;
+    const results = await Promise.all(
+      adapters.map(async (adapter): Promise<ProviderOutcome> => {
+        try {
+          return { provider: adapter.provider, result: await adapter.fetchEmotes(channelId) };
+        } catch (error) {
+          return {
+            provider: adapter.provider,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    const previous = this.snapshot?.emotes ?? [];
+    const channelLists: CatalogEmote[][] = [];
+    const globalLists: CatalogEmote[][] = [];
+    const providers: EmoteProviderStatus[] = [];
+
+    results.forEach((entry) => {
+      if ("result" in entry) {
+        channelLists.push(entry.result.channel);
+        globalLists.push(entry.result.global);
+        providers.push({
+          provider: entry.provider,
+          count: entry.result.channel.length + entry.result.global.length,
+        });
+        return;
+      }
+      const kept = previous.filter((emote) => emote.provider === entry.provider);
+      channelLists.push(kept);
+      providers.push({ provider: entry.provider, count: kept.length, error: entry.error });
+    });
+
+    if (providers.every((status) => status.error) && this.snapshot) {
+      console.warn("[emotes] Every emote provider failed; keeping the previous catalog", {
+        channel: channelLogin,
+        errors: providers.map((status) => `${status.provider}: ${status.error}`),
+      });
+      return;
+    }
+
+    // Channel emotes outrank globals, and earlier providers outrank later ones.
+    const emotes = mergeEmoteCatalog([...channelLists, ...globalLists], MAX_CATALOG_EMOTES);
+    const snapshot: EmoteCatalogSnapshot = { emotes, providers, fetchedAt: Date.now() };
+    this.apply(snapshot);
+
+    const failed = providers.filter((status) => status.error);
+    if (failed.length > 0) {
+      console.warn("[emotes] Some emote providers failed", {
+        channel: channelLogin,
+        errors: failed.map((status) => `${status.provider}: ${status.error}`),
+      });
+    }
+    console.log("[emotes] Refreshed emote catalog", {
+      channel: channelLogin,
+      total: emotes.length,
+      providers: Object.fromEntries(providers.map((status) => [status.provider, status.count])),
+    });
+
+    try {
+      await this.options.saveSnapshot(snapshot);
+    } catch (error) {
+      console.warn("[emotes] Failed to store emote catalog", { channel: channelLogin, error });
+    }
+  }
+
+  private apply(snapshot: EmoteCatalogSnapshot) {
+    this.snapshot = snapshot;
+    this.current = new EmoteCatalog(snapshot.emotes);
+  }
+}
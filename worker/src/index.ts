@@ -1,14 +1,13 @@
 #!/usr/bin/env tsx
 
 import { config as loadEnv } from "dotenv";
-import { spawn } from "child_process";
-import { createHash, randomUUID } from "crypto";
+import { createHash, createHmac, randomUUID } from "crypto";
+import { hostname } from "node:os";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { generateObject } from "ai";
 import { createOpenAI } from "@ai-sdk/openai";
 import { z } from "zod";
-import tmi from "tmi.js";
 import Sentiment from "sentiment";
 import { ConvexHttpClient } from "convex/browser";
 import { internal } from "../../convex/_generated/api.js";
@@ -24,6 +23,40 @@ import {
   type ChatTone,
   type ChatToneResult,
 } from "../../src/lib/ai/chat-tone.ts";
+import { buildSignedLiveFeedRequest } from "../../src/lib/live-feed-signature.ts";
+import { LiveFeedOutbox, type LiveFeedDeliveryResult } from "./live-feed-outbox.ts";
+import { ChatAppendBatcher } from "./chat-append-batcher.ts";
+import { WINDOW_MS, WindowRollup, type ClosedWindow } from "./window-rollup.ts";
+import { TwitchGlobalEmotes } from "./twitch-global-emotes.ts";
+import {
+  describeChannelEvent,
+  type ParsedChannelEvent,
+} from "../../src/lib/twitch/channel-events.ts";
+import {
+  describeAnnotation,
+  diffRoomState,
+  type ModerationAction,
+  type ModerationReason,
+  type RoomState,
+  type RoomStateAnnotation,
+} from "../../src/lib/twitch/moderation.ts";
+import type { EmoteCatalog } from "../../src/lib/twitch/emote-catalog.ts";
+import {
+  EmoteCatalogService,
+  createEmoteProviderAdapters,
+} from "./emote-catalog-service.ts";
+import { CHAT_PLATFORMS, type ChatPlatform } from "../../src/lib/chat-platforms.ts";
+import {
+  WORKER_HEARTBEAT_INTERVAL_MS,
+  type WorkerConnectionState,
+} from "../../src/lib/ingestion-health.ts";
+import type { ChatSourceHandlers, ChatSourceMessage } from "./chat-source.ts";
+import { TwitchChatSource } from "./twitch-chat-source.ts";
+import { YouTubeChatSource } from "./youtube-chat-source.ts";
+import { IrcConnectionPool } from "./irc-pool.ts";
+import { ChannelSupervisor, type SupervisedUnit } from "./channel-supervisor.ts";
+import { metricsRegistry, workerMetrics } from "./worker-metrics.ts";
+import { startObservabilityServer, type HealthReport } from "./observability-server.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -60,13 +93,33 @@ type EventItem = {
 
 type ChatMessagePayload = {
   id: string;
+  platform: ChatPlatform;
   author: string;
   text: string;
   timestamp: number;
+  /** Platform send time; the dashboard measures end-to-end latency against it. */
+  sentAt: number | null;
   tone: ChatTone;
   toneConfidence: number;
   toneRationale?: string;
   emotes: TrackedEmote[];
+  badges: string[];
+};
+
+type StoredChatMessage = {
+  messageId: string;
+  platform: ChatPlatform;
+  authorDisplay?: string;
+  authorHash: string;
+  authorHashVersion: number;
+  text: string;
+  emotes: Array<{ code: string; id?: string | null; imageUrl?: string | null; count: number }>;
+  postedAt: number;
+  tone?: ChatTone;
+  toneConfidence?: number;
+  toneRationale?: string;
+  moderatedAt?: number;
+  moderationReason?: ModerationReason;
 };
 
 type BaselineSnapshot = {
@@ -77,6 +130,27 @@ type BaselineSnapshot = {
   ready: boolean;
 };
 
+type SpikeRecord = {
+  windowStart: number;
+  windowEnd: number;
+  reason: string;
+  strength: number;
+  messageCount: number;
+};
+
+type ActiveSpike = {
+  startedAt: number;
+  lastAboveAt: number;
+  peakStrength: number;
+  messageCount: number;
+};
+
+type PlatformBreakdown = {
+  platform: ChatPlatform;
+  messageRate: number;
+  uniqueChatters: number;
+};
+
 type AggregatedSnapshot = {
   messageRate: number;
   trendPercent: number;
@@ -85,7 +159,10 @@ type AggregatedSnapshot = {
   newcomers: number;
   topTokens: TokenRow[];
   topEmotes: EmoteRow[];
+  /** Only platforms that have spoken in the last ten minutes. */
+  platforms: PlatformBreakdown[];
   event?: EventItem;
+  spike?: SpikeRecord;
   baseline: {
     messageRate: BaselineSnapshot;
     uniqueChatters: BaselineSnapshot;
@@ -95,6 +172,7 @@ type AggregatedSnapshot = {
 
 type MessageRecord = {
   id: string;
+  platform: ChatPlatform;
   timestamp: number;
   authorHash: string;
   authorDisplay?: string;
@@ -103,6 +181,8 @@ type MessageRecord = {
   sentiment: number;
   tone: ChatTone;
   toneConfidence: number;
+  /** Set when a moderator deletes the message or times out/bans its author. */
+  moderated?: boolean;
 };
 
 type CliOptions = {
@@ -166,19 +246,19 @@ const TEN_MINUTES = 10 * ONE_MINUTE;
 const FIVE_MINUTES = 5 * ONE_MINUTE;
 const STREAM_STATUS_POLL_INTERVAL = 5 * 1000;
 const CHAT_ACTIVITY_GRACE_MS = 12 * 60 * 1000;
-const globalEmoteMap = new Map<string, string>();
-let globalEmoteMapFetched = false;
-let globalEmoteFetchFailed = false;
+const RECENT_MODERATION_LIMIT = 500;
+const RECENT_MODERATION_TTL_MS = 2 * ONE_MINUTE;
 const SHORT_EMA_SECONDS = 20;
 const LONG_EMA_SECONDS = 180;
 const BASELINE_READY_SECONDS = 90;
+const SPIKE_RELEASE_RATIO = 1.15;
+const SPIKE_IDLE_CLOSE_MS = 15 * 1000;
 
 function resolveEmoteIdFromMap(code: string | null | undefined) {
   if (!code) {
     return null;
   }
-  const entry = globalEmoteMap.get(code.toLowerCase());
-  return entry ?? null;
+  return twitchGlobalEmotes.resolveId(code);
 }
 
 function buildEmoteImageUrl(id: string | null | undefined) {
@@ -217,12 +297,26 @@ class MetricsAggregator {
   private lastTrendRate = 0;
   private events: EventItem[] = [];
   private lastEventAt = 0;
+  private activeSpike: ActiveSpike | null = null;
   private baselineStates = {
     messageRate: createBaselineAccumulator(),
     uniqueChatters: createBaselineAccumulator(),
     newcomers: createBaselineAccumulator(),
   };
   private lastBaselineTimestamp = 0;
+  private readonly getEmoteCatalog: () => EmoteCatalog | null;
+
+  constructor(getEmoteCatalog: () => EmoteCatalog | null = () => null) {
+    this.getEmoteCatalog = getEmoteCatalog;
+  }
+
+  get retainedMessages(): readonly MessageRecord[] {
+    return this.messages;
+  }
+
+  get knownAuthors() {
+    return this.firstSeen.size;
+  }
 
   reset() {
     this.messages = [];
@@ -231,6 +325,7 @@ class MetricsAggregator {
     this.lastTrendRate = 0;
     this.events = [];
     this.lastEventAt = 0;
+    this.activeSpike = null;
     this.baselineStates = {
       messageRate: createBaselineAccumulator(),
       uniqueChatters: createBaselineAccumulator(),
@@ -257,7 +352,7 @@ class MetricsAggregator {
     const messageRate = recentMessages.length;
 
     const sentimentWindow = this.messages.filter(
-      (message) => record.timestamp - message.timestamp <= FIVE_MINUTES
+      (message) => !message.moderated && record.timestamp - message.timestamp <= FIVE_MINUTES
     );
     const averageSentiment =
       sentimentWindow.reduce((acc, message) => acc + message.sentiment, 0) /
@@ -269,10 +364,21 @@ class MetricsAggregator {
     );
     const uniqueChatters = new Set(chatterWindow.map((message) => message.authorHash)).size;
 
+    const platforms = CHAT_PLATFORMS.map((platform) => ({
+      platform,
+      messageRate: recentMessages.filter((message) => message.platform === platform).length,
+      uniqueChatters: new Set(
+        chatterWindow
+          .filter((message) => message.platform === platform)
+          .map((message) => message.authorHash)
+      ).size,
+    })).filter((entry) => entry.uniqueChatters > 0);
+
     const newcomers = Array.from(this.firstSeen.values()).filter(
       (firstSeenAt) => record.timestamp - firstSeenAt <= TEN_MINUTES
     ).length;
 
+    const catalog = this.getEmoteCatalog();
     const tokenCounts = new Map<string, number>();
     const emoteCounts = new Map<
       string,
@@ -284,6 +390,9 @@ class MetricsAggregator {
       }
     >();
     chatterWindow.forEach((message) => {
+      if (message.moderated) {
+        return;
+      }
       const messageEmoteSet = new Set(
         message.emotes
           .map((emote) => emote.code?.toLowerCase())
@@ -311,11 +420,13 @@ class MetricsAggregator {
             existing.imageUrl = emote.imageUrl;
           }
         } else {
-          const resolvedId = emote.id ?? resolveEmoteIdFromMap(displayCode) ?? null;
+          const catalogEmote = catalog?.lookup(displayCode) ?? null;
+          const resolvedId =
+            emote.id ?? catalogEmote?.id ?? resolveEmoteIdFromMap(displayCode) ?? null;
           emoteCounts.set(key, {
             code: displayCode,
             id: resolvedId,
-            imageUrl: emote.imageUrl ?? buildEmoteImageUrl(resolvedId),
+            imageUrl: emote.imageUrl ?? catalogEmote?.imageUrl ?? buildEmoteImageUrl(resolvedId),
             count: 1,
           });
         }
@@ -375,9 +486,24 @@ class MetricsAggregator {
     const baselineReady = baselineSnapshot.messageRate.ready;
 
     let event: EventItem | undefined;
+    let spike: SpikeRecord | undefined;
     const ratioToBaseline = baselineRate > 0 ? messageRate / baselineRate : 0;
     const eventThreshold = baselineReady ? 1.4 : 1.8;
+    const zScore =
+      (messageRate - baselineRate) / Math.max(baselineSnapshot.messageRate.std ?? 0, 1);
+
+    if (this.activeSpike) {
+      if (ratioToBaseline >= SPIKE_RELEASE_RATIO) {
+        this.activeSpike.lastAboveAt = record.timestamp;
+        this.activeSpike.peakStrength = Math.max(this.activeSpike.peakStrength, zScore);
+        this.activeSpike.messageCount += 1;
+      } else {
+        spike = this.finishSpike();
+      }
+    }
+
     if (
+      !this.activeSpike &&
       baselineRate > 0 &&
       ratioToBaseline >= eventThreshold &&
       record.timestamp - this.lastEventAt > 20 * 1000
@@ -385,12 +511,18 @@ class MetricsAggregator {
       event = {
         id: `spike-${record.timestamp}`,
         title: "Message spike detected",
-        detail: `Velocity is ${Math.round(ratioToBaseline * 100)}% of baseline.`,
+        detail: `Velocity is ${Math.round(ratioToBaseline * 100)}% of baseline (z ${zScore.toFixed(1)}).`,
         timestamp: record.timestamp,
       };
       this.events.unshift(event);
       this.events = this.events.slice(0, 20);
       this.lastEventAt = record.timestamp;
+      this.activeSpike = {
+        startedAt: record.timestamp,
+        lastAboveAt: record.timestamp,
+        peakStrength: zScore,
+        messageCount: 1,
+      };
     }
 
     this.lastTrendRate = messageRate;
@@ -405,11 +537,58 @@ class MetricsAggregator {
       newcomers,
       topTokens,
       topEmotes,
+      platforms,
       event,
+      spike,
       baseline: baselineSnapshot,
     };
   }
 
+  /**
+   * Closes a spike once chat has gone quiet for SPIKE_IDLE_CLOSE_MS, since
+   * `ingest` only re-evaluates the range when a new message arrives.
+   */
+  expireSpike(now: number): SpikeRecord | undefined {
+    if (!this.activeSpike || now - this.activeSpike.lastAboveAt < SPIKE_IDLE_CLOSE_MS) {
+      return undefined;
+    }
+    return this.finishSpike();
+  }
+
+  flushSpike(): SpikeRecord | undefined {
+    return this.activeSpike ? this.finishSpike() : undefined;
+  }
+
+  private finishSpike(): SpikeRecord | undefined {
+    const active = this.activeSpike;
+    this.activeSpike = null;
+    if (!active) {
+      return undefined;
+    }
+    return {
+      windowStart: active.startedAt,
+      windowEnd: Math.max(active.lastAboveAt, active.startedAt),
+      reason: "volume",
+      strength: Number(active.peakStrength.toFixed(3)),
+      messageCount: active.messageCount,
+    };
+  }
+
+  /**
+   * Flags buffered messages as moderated so they stop counting towards
+   * sentiment and top tokens; volume and chatter counts still include them.
+   */
+  markModerated(match: (record: MessageRecord) => boolean) {
+    const affected: MessageRecord[] = [];
+    for (const message of this.messages) {
+      if (!message.moderated && match(message)) {
+        message.moderated = true;
+        affected.push(message);
+      }
+    }
+    return affected;
+  }
+
   getTimelinePoint(timestamp: number) {
     return {
       timestamp,
@@ -652,18 +831,6 @@ function createFallbackSummary(
   };
 }
 
-type AuthMode = "oauth" | "anonymous";
-type Tags = Record<string, any>;
-
-function isAuthFailure(error: unknown) {
-  const message = error instanceof Error ? error.message : String(error);
-  return message.toLowerCase().includes("authentication failed");
-}
-
-function describeAuthMode(mode: AuthMode) {
-  return mode === "oauth" ? "authenticated" : "anonymous";
-}
-
 function safeEnv(name: string): string {
   const value = process.env[name];
   if (!value) {
@@ -673,6 +840,7 @@ function safeEnv(name: string): string {
 }
 
 const twitchClientId = safeEnv("TWITCH_CLIENT_ID");
+const twitchGlobalEmotes = new TwitchGlobalEmotes({ clientId: twitchClientId });
 const explicitChannel = process.env.TWITCH_CHANNEL?.toLowerCase();
 const explicitChannelId = process.env.TWITCH_CHANNEL_ID;
 const explicitChannelDisplay = process.env.TWITCH_CHANNEL_DISPLAY_NAME;
@@ -683,6 +851,7 @@ const convexUrl =
     throw new Error("Set NEXT_PUBLIC_CONVEX_URL or CONVEX_URL");
   })();
 const convexAdminKey = safeEnv("CONVEX_ADMIN_KEY");
+const liveFeedSecret = safeEnv("LIVE_FEED_SECRET");
 const convexAdminIdentity = process.env.CONVEX_ADMIN_IDENTITY
   ? JSON.parse(process.env.CONVEX_ADMIN_IDENTITY)
   : undefined;
@@ -791,12 +960,12 @@ if (liveFeedUrl === LIVE_FEED_FALLBACK_URL) {
   );
 }
 
-const isChildProcess = process.env.INGEST_CHILD === "1";
-
 type ChannelIntegration = {
   channelLogin: string;
   channelDisplayName: string;
   channelId: string;
+  /** Unset for the TWITCH_CHANNEL fallback. */
+  workspaceId?: Id<"workspaces">;
 };
 
 type CredentialLease = {
@@ -807,6 +976,7 @@ type CredentialLease = {
   refreshToken: string | null;
   expiresAt: number | null;
   username: string;
+  authorSalt: string;
 };
 
 function parseChannelList(value?: string | null): string[] | null {
@@ -835,8 +1005,10 @@ async function resolveIntegrationsList(convex: ConvexHttpClient): Promise<Channe
     {}
   );
 
-  const channelList: ChannelIntegration[] = (Array.isArray(raw) ? raw : []).map(
-    (integration: any) => ({
+  const rows: any[] = Array.isArray(raw) ? raw : [];
+  const channelList: ChannelIntegration[] = rows
+    .filter((integration) => integration.status === "connected")
+    .map((integration) => ({
       channelLogin: typeof integration.channelLogin === "string" ? integration.channelLogin : "",
       channelDisplayName:
         typeof integration.channelDisplayName === "string"
@@ -846,7 +1018,16 @@ async function resolveIntegrationsList(convex: ConvexHttpClient): Promise<Channe
         typeof integration.channelId === "string"
           ? integration.channelId
           : integration.channelLogin ?? "",
-    })
+      workspaceId: integration.workspaceId ?? undefined,
+    }));
+
+  // Paused from the dashboard, disconnected from Settings or revoked on
+  // Twitch. Dropped last so none of them falls through to the TWITCH_CHANNEL
+  // fallback below, where leasing credentials would fail.
+  const stopped = new Set<string>(
+    rows
+      .filter((integration) => integration.listening === false || integration.status !== "connected")
+      .map((integration) => String(integration.channelLogin ?? "").toLowerCase())
   );
 
   let filtered = channelList.filter((integration) => integration.channelLogin);
@@ -876,13 +1057,17 @@ async function resolveIntegrationsList(convex: ConvexHttpClient): Promise<Channe
     ];
   }
 
-  return filtered;
+  return filtered.filter((integration) => !stopped.has(integration.channelLogin.toLowerCase()));
 }
 
-function hashAuthor(userId: string | undefined, login: string) {
-  const hash = createHash("sha256");
-  hash.update(userId ?? login);
-  return hash.digest("hex");
+const AUTHOR_HASH_VERSION = 2;
+
+// The SHA-256 digest is keyed with the workspace salt rather than replaced so
+// that rows stored under the old unsalted scheme can be re-keyed in Convex
+// (see convex/ingestion/authorHashes.ts) and still match new messages.
+function hashAuthor(salt: string, userId: string | undefined, login: string) {
+  const digest = createHash("sha256").update(userId ?? login).digest("hex");
+  return createHmac("sha256", salt).update(digest).digest("hex");
 }
 
 function tokenizeMessage(message: string) {
@@ -892,61 +1077,18 @@ function tokenizeMessage(message: string) {
     .filter((token) => token.length > 2 && !GLOBAL_TWITCH_EMOTES.has(token));
 }
 
-function extractEmotes(message: string, tags: Tags) {
-  const raw = tags.emotes;
-  if (!raw) {
-    return [];
-  }
-
-  const emoteTag =
-    typeof raw === "string"
-      ? raw
-      : Array.isArray(raw)
-        ? raw.join("/")
-        : String(raw);
-
-  if (!emoteTag || emoteTag === "null") {
-    return [];
-  }
-
-  const emotes: TrackedEmote[] = [];
-  const segments = emoteTag.split("/");
-  segments.forEach((segment) => {
-    const [emoteId, ranges] = segment.split(":");
-    if (!ranges) return;
-    ranges.split(",").forEach((range) => {
-      const [start, end] = range.split("-").map((value) => Number.parseInt(value, 10));
-      if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end < start) {
-        return;
-      }
-      const code = message.slice(start, end + 1);
-      if (code) {
-        emotes.push({
-          code,
-          id: emoteId ?? null,
-          imageUrl: null,
-          start,
-          end,
-        });
-      } else if (emoteId) {
-        emotes.push({
-          code: emoteId,
-          id: emoteId,
-          imageUrl: null,
-          start,
-          end,
-        });
-      }
-    });
-  });
-  return emotes;
-}
-
-function extractFallbackEmotes(message: string) {
+/**
+ * Emotes that arrive without a `tags.emotes` range: channel and third-party
+ * catalog matches (with positions, so chat can render them) and bare global
+ * Twitch codes.
+ */
+function extractFallbackEmotes(message: string, catalog: EmoteCatalog) {
+  const catalogMatches = catalog.match(message);
+  const matchedCodes = new Set(catalogMatches.map((match) => match.code));
   const candidates = new Set<string>();
   message.split(/\s+/g).forEach((segment) => {
     const trimmed = segment.trim();
-    if (!trimmed) return;
+    if (!trimmed || matchedCodes.has(trimmed)) return;
     const sanitized = trimmed.replace(/[^0-9A-Za-z:()<>;\-_]/g, "");
     if (!sanitized) return;
     const lookup = sanitized.toLowerCase();
@@ -954,9 +1096,109 @@ function extractFallbackEmotes(message: string) {
       candidates.add(sanitized);
     }
   });
-  return Array.from(candidates).map((code) => ({ code, id: null, imageUrl: null, start: null, end: null }));
+  const fallbackEmotes: TrackedEmote[] = catalogMatches.map(({ code, id, imageUrl, start, end }) => ({
+    code,
+    id,
+    imageUrl,
+    start,
+    end,
+  }));
+  candidates.forEach((code) => {
+    fallbackEmotes.push({ code, id: null, imageUrl: null, start: null, end: null });
+  });
+  return fallbackEmotes;
+}
+
+const LIVE_FEED_REQUEST_TIMEOUT_MS = 10_000;
+const LIVE_FEED_DRAIN_TIMEOUT_MS = 5000;
+
+async function postLiveFeedBatch(
+  channelSlug: string,
+  updates: Record<string, unknown>[]
+): Promise<LiveFeedDeliveryResult> {
+  if (process.env.NODE_ENV !== "production") {
+    console.log("[live-feed] Posting updates", {
+      channel: channelSlug,
+      count: updates.length,
+      sample: updates[0]?.type ?? null,
+    });
+  }
+
+  const signed = buildSignedLiveFeedRequest(liveFeedSecret, {
+    channel: channelSlug,
+    channelLogin: channelSlug,
+    channelSlug,
+    updates,
+  });
+
+  const response = await fetch(liveFeedUrl, {
+    method: "POST",
+    headers: signed.headers,
+    body: signed.body,
+    signal: AbortSignal.timeout(LIVE_FEED_REQUEST_TIMEOUT_MS),
+  });
+
+  if (response.ok) {
+    return { ok: true };
+  }
+
+  const text = await response.text().catch(() => "");
+  // Auth and payload errors won't fix themselves; timeouts, rate limits and
+  // 5xx (deploys, broker outages) are worth retrying.
+  const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+  return { ok: false, retryable, status: response.status, error: text.slice(0, 500) };
 }
 
+async function deliverLiveFeedBatch(
+  channelSlug: string,
+  updates: Record<string, unknown>[]
+): Promise<LiveFeedDeliveryResult> {
+  const startedAt = performance.now();
+  let outcome = "error";
+  try {
+    const result = await postLiveFeedBatch(channelSlug, updates);
+    outcome = result.ok ? "delivered" : result.retryable ? "retryable" : "rejected";
+    return result;
+  } finally {
+    workerMetrics.liveFeedPosts.inc({ channel: channelSlug, outcome });
+    workerMetrics.liveFeedPostDuration.observe(
+      { channel: channelSlug },
+      (performance.now() - startedAt) / 1000
+    );
+  }
+}
+
+const liveFeedOutbox = new LiveFeedOutbox({ deliver: deliverLiveFeedBatch });
+
+metricsRegistry.onCollect(() => {
+  const stats = liveFeedOutbox.stats();
+  workerMetrics.liveFeedQueueDepth.forget({});
+  for (const [channel, queue] of Object.entries(stats.channels)) {
+    workerMetrics.liveFeedQueueDepth.set({ channel }, queue.depth);
+  }
+  for (const [reason, total] of Object.entries(stats.dropped)) {
+    workerMetrics.liveFeedDropped.set({ reason }, total);
+  }
+});
+
+const OUTBOX_STATS_LOG_INTERVAL_MS = ONE_MINUTE;
+let lastLoggedOutboxDrops = 0;
+
+// Surface backlog and drops without spamming the log when all is well.
+setInterval(() => {
+  const stats = liveFeedOutbox.stats();
+  const drops = stats.dropped.superseded + stats.dropped.overflow + stats.dropped.rejected;
+  if (stats.queueDepth > 0 || drops !== lastLoggedOutboxDrops) {
+    console.log("[live-feed] Outbox stats", {
+      queueDepth: stats.queueDepth,
+      delivered: stats.delivered,
+      failedAttempts: stats.failedAttempts,
+      dropped: stats.dropped,
+    });
+  }
+  lastLoggedOutboxDrops = drops;
+}, OUTBOX_STATS_LOG_INTERVAL_MS).unref();
+
 async function sendLiveFeedUpdates(channel: string | { channelLogin?: string; channel?: string }, updates: unknown[]) {
   if (updates.length === 0) {
     return;
@@ -974,14 +1216,6 @@ async function sendLiveFeedUpdates(channel: string | { channelLogin?: string; ch
     return;
   }
 
-  if (process.env.NODE_ENV !== "production") {
-    console.log("[live-feed] Posting updates", {
-      channel: channelSlug,
-      count: updates.length,
-      sample: (updates[0] as any)?.type ?? null,
-    });
-  }
-
   const normalizedUpdates = updates.map((update) => {
     if (update && typeof update === "object") {
       return {
@@ -1000,142 +1234,229 @@ async function sendLiveFeedUpdates(channel: string | { channelLogin?: string; ch
     };
   });
 
-  const response = await fetch(liveFeedUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      channel: channelSlug,
-      channelLogin: channelSlug,
-      channelSlug,
-      updates: normalizedUpdates,
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    console.warn(
-      "[live-feed] Failed to POST update",
-      response.status,
-      text,
-      JSON.stringify({ channel: channelSlug, channelLogin: channelSlug, channelSlug, updates })
-    );
-  }
+  liveFeedOutbox.enqueue(channelSlug, normalizedUpdates);
 }
 
 async function postLiveFeed(channel: string | { channelLogin?: string; channel?: string }, update: unknown) {
   await sendLiveFeedUpdates(channel, [update]);
 }
 
+type ChannelIngestContext = {
+  convex: ConvexHttpClient;
+  ircPool: IrcConnectionPool;
+};
+
+type ChannelMemoryStats = {
+  live: boolean;
+  bufferedMessages: number;
+  knownAuthors: number;
+  pendingMoodMessages: number;
+  recentModerations: number;
+  catalogEmotes: number;
+  approxKb: number;
+};
+
+type ChannelIngestUnit = SupervisedUnit & {
+  memoryStats: () => ChannelMemoryStats;
+};
+
+const INTEGRATION_REFRESH_INTERVAL_MS = ONE_MINUTE;
+// Start/Stop Listening should land in seconds, not at the next full refresh.
+const LISTENING_POLL_INTERVAL_MS = 5_000;
+const WORKER_BUILD_VERSION =
+  process.env.WORKER_BUILD_VERSION ??
+  process.env.RAILWAY_GIT_COMMIT_SHA?.slice(0, 7) ??
+  process.env.npm_package_version ??
+  "dev";
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const MEMORY_REPORT_INTERVAL_MS = ONE_MINUTE;
+const DEFAULT_OBSERVABILITY_PORT = 9464;
+
+function resolveObservabilityPort() {
+  const raw = process.env.WORKER_METRICS_PORT ?? process.env.PORT;
+  const port = raw ? Number.parseInt(raw, 10) : DEFAULT_OBSERVABILITY_PORT;
+  return Number.isFinite(port) && port >= 0 ? port : DEFAULT_OBSERVABILITY_PORT;
+}
+
+/** Serialized size of what a channel keeps in memory; a rough but comparable estimate. */
+function approximateBytes(value: unknown) {
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? "");
+  } catch {
+    return 0;
+  }
+}
+
+function toMegabytes(bytes: number) {
+  return Math.round((bytes / (1024 * 1024)) * 10) / 10;
+}
+
 async function orchestrateMultiChannelIngestion() {
   const convex = new ConvexHttpClient(convexUrl);
   (convex as any).setAdminAuth?.(convexAdminKey, convexAdminIdentity);
+  const ircPool = new IrcConnectionPool();
 
-  const activeChildren = new Map<string, ReturnType<typeof spawn>>();
-
-  const startChild = (integration: ChannelIntegration) => {
-    if (activeChildren.has(integration.channelLogin)) {
-      return;
+  const supervisor = new ChannelSupervisor<ChannelIntegration, ChannelIngestUnit>({
+    start: (integration, fail) => startChannelIngest(integration, { convex, ircPool }, fail),
+  });
+  let lifecycle: "starting" | "running" | "stopping" = "starting";
+
+  metricsRegistry.onCollect(() => {
+    const usage = process.memoryUsage();
+    workerMetrics.processMemory.set({ kind: "rss" }, usage.rss);
+    workerMetrics.processMemory.set({ kind: "heap_used" }, usage.heapUsed);
+    for (const [login, status] of Object.entries(supervisor.status())) {
+      for (const state of ["starting", "running", "backoff", "parked"] as const) {
+        workerMetrics.channelState.set({ channel: login, state }, status.state === state ? 1 : 0);
+      }
+      workerMetrics.channelCrashes.set({ channel: login }, status.crashes);
     }
-    console.log(`[manager] Starting ingestion for #${integration.channelLogin}`);
-    const childEnv: NodeJS.ProcessEnv = { ...process.env, INGEST_CHILD: "1" };
-    childEnv.TWITCH_CHANNEL = integration.channelLogin;
-    childEnv.TWITCH_CHANNEL_ID = integration.channelId;
-    childEnv.TWITCH_CHANNEL_DISPLAY_NAME = integration.channelDisplayName;
-
-    const child = spawn(process.argv[0], process.argv.slice(1), {
-      env: childEnv,
-      stdio: "inherit",
-    });
+  });
 
-    activeChildren.set(integration.channelLogin, child);
+  const health = (): HealthReport => {
+    const channels = Object.values(supervisor.status());
+    const count = (state: string) => channels.filter((channel) => channel.state === state).length;
+    const unhealthy = count("backoff") + count("parked");
+    return {
+      status: lifecycle === "running" ? (unhealthy > 0 ? "degraded" : "ok") : lifecycle,
+      uptimeSeconds: Math.round(process.uptime()),
+      channels: {
+        total: channels.length,
+        running: count("running"),
+        starting: count("starting"),
+        backoff: count("backoff"),
+        parked: count("parked"),
+      },
+      ircConnections: ircPool.stats().connections.length,
+      liveFeedQueueDepth: liveFeedOutbox.stats().queueDepth,
+    };
+  };
 
-    child.once("exit", (code, signal) => {
-      console.log(
-        `[manager] Ingestion worker for #${integration.channelLogin} exited (code=${code}, signal=${signal ?? "none"}).`
-      );
-      activeChildren.delete(integration.channelLogin);
-    });
+  const observabilityPort = resolveObservabilityPort();
+  const observabilityServer = await startObservabilityServer({
+    port: observabilityPort,
+    registry: metricsRegistry,
+    health,
+    metricsToken: process.env.WORKER_METRICS_TOKEN ?? null,
+  }).catch((error) => {
+    // Ingestion matters more than its metrics; keep going without the endpoint.
+    console.error(`[metrics] Failed to listen on :${observabilityPort}`, error);
+    return null;
+  });
+  if (observabilityServer) {
+    console.log(`[metrics] Serving /metrics and /healthz on :${observabilityPort}`);
+  }
 
-    child.once("error", (error) => {
-      console.error(`[manager] Ingestion worker for #${integration.channelLogin} failed`, error);
-      activeChildren.delete(integration.channelLogin);
-    });
-  };
+  // A unit that slips an error past its guards must not take every other channel down with it.
+  process.on("unhandledRejection", (reason) => {
+    console.error("[supervisor] Unhandled rejection", reason);
+  });
 
-  const stopChild = (channelLogin: string) => {
-    const child = activeChildren.get(channelLogin);
-    if (!child) {
+  const applyIntegrations = async () => {
+    if (lifecycle === "stopping") {
       return;
     }
-    console.warn(`[manager] Stopping ingestion for #${channelLogin}`);
-    activeChildren.delete(channelLogin);
-    try {
-      child.kill("SIGTERM");
-    } catch (error) {
-      console.warn(`[manager] Failed to stop worker for #${channelLogin}`, error);
-    }
-  };
-
-  const refreshIntegrations = async () => {
     const integrations = await resolveIntegrationsList(convex);
-    const activeLogins = new Set(activeChildren.keys());
-
     const nextLogins = new Set<string>();
 
     for (const integration of integrations) {
-      nextLogins.add(integration.channelLogin);
-      startChild(integration);
+      const login = integration.channelLogin.toLowerCase();
+      nextLogins.add(login);
+      if (!supervisor.keys().includes(login)) {
+        console.log(`[manager] Starting ingestion for #${login}`);
+      }
+      supervisor.ensure(login, integration);
     }
 
-    for (const login of activeLogins) {
+    for (const login of supervisor.keys()) {
       if (!nextLogins.has(login)) {
-        stopChild(login);
+        console.warn(`[manager] Stopping ingestion for #${login}`);
+        await supervisor.stop(login);
+        metricsRegistry.forget({ channel: login });
       }
     }
   };
 
+  // The minute timer and the listening poll can both ask for a refresh; run them one at a time.
+  let refreshQueue: Promise<void> = Promise.resolve();
+  const refreshIntegrations = () => {
+    const run = refreshQueue.then(applyIntegrations);
+    refreshQueue = run.catch(() => {});
+    return run;
+  };
+
+  let listeningRevision: number | null = null;
+  const pollListening = async () => {
+    const revision = await (convex as any).query(internal.ingestion.listening.getListeningRevision, {});
+    if (listeningRevision !== null && revision !== listeningRevision) {
+      console.log("[manager] Listening toggled from the dashboard; refreshing channels");
+      await refreshIntegrations();
+    }
+    listeningRevision = revision;
+  };
+
+  await pollListening().catch((error) => {
+    console.error("[manager] Failed to read listening state", error);
+  });
   await refreshIntegrations();
+  lifecycle = "running";
 
-  if (activeChildren.size === 0) {
+  if (supervisor.size === 0) {
     console.warn("[manager] No connected Twitch integrations found. Waiting for sign-ins…");
   }
 
-  const interval = setInterval(() => {
+  const refreshTimer = setInterval(() => {
     refreshIntegrations().catch((error) => {
       console.error("[manager] Failed to refresh integrations", error);
     });
-  }, 60_000);
+  }, INTEGRATION_REFRESH_INTERVAL_MS);
 
-  let shuttingDown = false;
-
-  const shutdown = (signal: NodeJS.Signals) => {
-    if (shuttingDown) {
-      return;
-    }
-    shuttingDown = true;
-    clearInterval(interval);
-    console.warn(`[manager] Received ${signal}. Shutting down ingestion workers…`);
-    for (const [login, child] of activeChildren) {
-      try {
-        child.kill(signal);
-      } catch (error) {
-        console.warn(`[manager] Failed to propagate signal to child #${login}`, error);
-      }
+  const listeningTimer = setInterval(() => {
+    pollListening().catch((error) => {
+      console.error("[manager] Failed to poll listening state", error);
+    });
+  }, LISTENING_POLL_INTERVAL_MS);
+
+  // Channels share one heap now, so report what each of them is holding on to.
+  const memoryTimer = setInterval(() => {
+    const usage = process.memoryUsage();
+    const status = supervisor.status();
+    const channels: Record<string, ChannelMemoryStats | { state: string }> = {};
+    for (const login of supervisor.keys()) {
+      const unit = supervisor.unit(login);
+      channels[login] = unit ? unit.memoryStats() : { state: status[login]?.state ?? "unknown" };
     }
-  };
-
-  process.once("SIGINT", shutdown);
-  process.once("SIGTERM", shutdown);
+    console.log("[supervisor] Memory", {
+      rssMb: toMegabytes(usage.rss),
+      heapUsedMb: toMegabytes(usage.heapUsed),
+      ircConnections: ircPool.stats().connections.length,
+      channels,
+    });
+  }, MEMORY_REPORT_INTERVAL_MS);
+  memoryTimer.unref();
 
   await new Promise<void>((resolve) => {
-    const checkInterval = setInterval(() => {
-      if (shuttingDown && activeChildren.size === 0) {
-        clearInterval(checkInterval);
-        resolve();
+    let shuttingDown = false;
+    const shutdown = async (signal: NodeJS.Signals) => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+      lifecycle = "stopping";
+      clearInterval(refreshTimer);
+      clearInterval(listeningTimer);
+      clearInterval(memoryTimer);
+      console.warn(`[manager] Received ${signal}. Shutting down ${supervisor.size} channel(s)…`);
+      await supervisor.stopAll();
+      await ircPool.closeAll();
+      if (!(await liveFeedOutbox.drain(LIVE_FEED_DRAIN_TIMEOUT_MS))) {
+        console.warn("[live-feed] Exiting with undelivered updates", liveFeedOutbox.stats());
       }
-    }, 1000);
+      observabilityServer?.close();
+      resolve();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
   });
 }
 
@@ -1156,46 +1477,174 @@ async function leaseChannelCredentials(
   return result as CredentialLease;
 }
 
-async function runSingleChannelIngest() {
-  const convex = new ConvexHttpClient(convexUrl);
-  (convex as any).setAdminAuth?.(convexAdminKey, convexAdminIdentity);
+/**
+ * Simulcast chat for a Twitch channel, configured per login like the Twitch
+ * credentials: `YOUTUBE_<LOGIN>_CHANNEL_ID` follows whatever the YouTube
+ * channel has live, `YOUTUBE_<LOGIN>_VIDEO_ID` pins one broadcast.
+ */
+function createYouTubeSource(channelLogin: string): YouTubeChatSource | null {
+  const prefix = `YOUTUBE_${channelLogin.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+  const youtubeChannelId = process.env[`${prefix}_CHANNEL_ID`];
+  const videoId = process.env[`${prefix}_VIDEO_ID`];
+  if (!youtubeChannelId && !videoId) {
+    return null;
+  }
+  const apiKey = process.env.YOUTUBE_API_KEY;
+  if (!apiKey) {
+    console.warn(`[youtube:${channelLogin}] ${prefix}_* is set but YOUTUBE_API_KEY is missing; skipping YouTube chat`);
+    return null;
+  }
+  return new YouTubeChatSource({ channel: channelLogin, apiKey, youtubeChannelId, videoId });
+}
 
-  const aggregator = new MetricsAggregator();
+/**
+ * One channel's ingest state and timers. Everything it starts is torn down by
+ * `stop()`, and handler errors are reported through `fail` so the supervisor
+ * can restart the channel without touching the others.
+ */
+async function startChannelIngest(
+  integration: ChannelIntegration,
+  { convex, ircPool }: ChannelIngestContext,
+  fail: (error: unknown) => void
+): Promise<ChannelIngestUnit> {
+  const aggregator = new MetricsAggregator(() => emoteCatalogService.catalog);
+  const windowRollup = new WindowRollup();
   let pendingMessages: ChatMessagePayload[] = [];
   let llmProcessing = false;
   let llmApiMissingLogged = false;
   let lastBroadcastFingerprint: string | null = null;
-  let startingSession = false;
+  // Events that arrive while a start is in flight wait on it instead of being dropped.
+  let startingSession: Promise<void> | null = null;
+  let endingSession = false;
 
   let activeStreamId: Id<"streams"> | null = null;
+  let rawCapNotifiedStreamId: Id<"streams"> | null = null;
+  let roomState: RoomState | null = null;
+  // Moderation can land while a message is still being classified; remember
+  // recent actions so the late-arriving message is flagged on ingest.
+  const recentModerations = new Map<string, { reason: ModerationReason; at: number }>();
+  const chatAppendBatcher = new ChatAppendBatcher<StoredChatMessage>({
+    flush: async (streamId, messages) => {
+      workerMetrics.chatAppendBatchSize.observe({ channel: twitchChannel }, messages.length);
+      const appendResult = await mutate(
+        "ingestion/appendChatMessages:appendChatMessages",
+        { streamId, messages }
+      );
+      if (appendResult?.ended) {
+        handleStreamEnded(streamId, appendResult.endedAt ?? null);
+      }
+      if (appendResult?.capped && rawCapNotifiedStreamId !== streamId) {
+        rawCapNotifiedStreamId = streamId as Id<"streams">;
+        const cappedAt =
+          typeof appendResult.cappedAt === "number" ? appendResult.cappedAt : Date.now();
+        console.warn("[ingestion] Raw message cap reached; storing aggregates only", {
+          channel: twitchChannel,
+          streamId,
+        });
+        await postLiveFeed(twitchChannel, {
+          type: "raw-capped",
+          channel: twitchChannel,
+          channelLogin: twitchChannel,
+          payload: {
+            channel: twitchChannel,
+            channelLogin: twitchChannel,
+            streamId,
+            cappedAt,
+          },
+        });
+      }
+    },
+  });
   let lastChatMessageAt = 0;
   let sessionStartedAt: number | null = null;
   let statusPollTimer: ReturnType<typeof setInterval> | null = null;
   let lastReportedStatus: "live" | "offline" = "offline";
+  let connectionState: WorkerConnectionState = "connecting";
+  let heartbeatFailureLogged = false;
+  let stopped = false;
 
-  const integration = await resolveIntegration(convex);
   console.log("[ingestion] Using integration", integration);
   const twitchChannel = integration.channelLogin.toLowerCase();
   const initialLease = await leaseChannelCredentials(convex, twitchChannel);
   let userAccessToken = initialLease.accessToken;
   let userRefreshToken: string | null = initialLease.refreshToken ?? null;
   let tokenExpiry = initialLease.expiresAt ?? Date.now() + 60 * 60 * 1000;
+  let globalEmoteFetchFailed = false;
+  const authorSalt = initialLease.authorSalt;
+  if (!authorSalt) {
+    throw new Error(`Credential lease for ${twitchChannel} did not include a workspace salt`);
+  }
   let moodAiCooldownUntil = 0;
   let moodAiCooldownLogged = false;
   let moodAiResumeLogged = false;
   const twitchUsername = (initialLease.username ?? integration.channelLogin).toLowerCase();
   const channelDisplayName = initialLease.channelDisplayName ?? integration.channelDisplayName ?? integration.channelLogin;
-  const preferredAuth: AuthMode = userAccessToken ? "oauth" : "anonymous";
-  let authMode: AuthMode = preferredAuth;
-
-  const connectionConfig = {
-    reconnect: true,
-    secure: true,
-    timeout: 60000,
-    reconnectInterval: 10000,
-    maxReconnectInterval: 60000,
+  const emoteCatalogService = new EmoteCatalogService({
+    channelId: integration.channelId,
+    channelLogin: twitchChannel,
+    adapters: createEmoteProviderAdapters(() =>
+      userAccessToken ? { clientId: twitchClientId, accessToken: userAccessToken } : null
+    ),
+    loadSnapshot: async () => {
+      const stored = await (convex as any).query("ingestion/emoteCatalog:getEmoteCatalog", {
+        channelId: integration.channelId,
+      });
+      return stored
+        ? { emotes: stored.emotes, providers: stored.providers, fetchedAt: stored.fetchedAt }
+        : null;
+    },
+    saveSnapshot: async (snapshot) => {
+      await mutate("ingestion/emoteCatalog:saveEmoteCatalog", {
+        channelId: integration.channelId,
+        ...snapshot,
+      });
+    },
+  });
+  // Attached for the duration of each Twitch session; see startIngestionSession.
+  const youtubeSource = createYouTubeSource(twitchChannel);
+  const youtubeHandlers: ChatSourceHandlers = {
+    connected: () => {},
+    disconnected: () => {},
+    message: guard(ingestChatMessage),
+    moderation: guard(handleModeration),
   };
 
+  function mutate(name: string, args: Record<string, unknown>): Promise<any> {
+    return workerMetrics.convexMutationDuration.time({ channel: twitchChannel, mutation: name }, () =>
+      (convex as any).mutation(name, args)
+    );
+  }
+
+  function trimPendingMessages() {
+    const overflow = pendingMessages.length - MAX_BUFFERED_MESSAGES;
+    if (overflow > 0) {
+      pendingMessages = pendingMessages.slice(-MAX_BUFFERED_MESSAGES);
+      workerMetrics.messagesDropped.inc({ channel: twitchChannel, reason: "mood_buffer_full" }, overflow);
+    }
+  }
+
+  /** Counts the Twitch event, then hands it to the guarded handler. */
+  function countTmiEvent<TArgs extends unknown[]>(event: string, handler: (...args: TArgs) => void) {
+    return (...args: TArgs) => {
+      workerMetrics.tmiEvents.inc({ channel: twitchChannel, event });
+      handler(...args);
+    };
+  }
+
+  /** Drops events after stop and turns a handler failure into a restart. */
+  function guard<TArgs extends unknown[]>(handler: (...args: TArgs) => unknown) {
+    return (...args: TArgs) => {
+      if (stopped) {
+        return;
+      }
+      try {
+        void Promise.resolve(handler(...args)).catch(fail);
+      } catch (error) {
+        fail(error);
+      }
+    };
+  }
+
   async function ensureFreshToken(force = false) {
     const margin = 15 * 60 * 1000;
     const shouldRefresh =
@@ -1212,66 +1661,16 @@ async function runSingleChannelIngest() {
     userAccessToken = refreshed.accessToken;
     userRefreshToken = refreshed.refreshToken ?? null;
     tokenExpiry = refreshed.expiresAt ?? Date.now() + 60 * 60 * 1000;
-    authMode = userAccessToken ? "oauth" : "anonymous";
-    globalEmoteMapFetched = false;
     globalEmoteFetchFailed = false;
   }
 
   async function ensureGlobalEmoteMap() {
-    if (globalEmoteMapFetched || globalEmoteFetchFailed) {
-      return;
-    }
-    if (!userAccessToken) {
+    if (twitchGlobalEmotes.isLoaded || globalEmoteFetchFailed || !userAccessToken) {
       return;
     }
-
-    try {
-      let cursor: string | undefined;
-      do {
-        const url = new URL("https://api.twitch.tv/helix/chat/emotes/global");
-        if (cursor) {
-          url.searchParams.set("after", cursor);
-        }
-
-        const response = await fetch(url.toString(), {
-          headers: {
-            "Client-Id": twitchClientId,
-            Authorization: `Bearer ${userAccessToken}`,
-          },
-        });
-
-        if (!response.ok) {
-          if (response.status === 401 || response.status === 403) {
-            globalEmoteFetchFailed = true;
-            console.warn(
-              `[twitch:${twitchChannel}] Unable to refresh global emote map (status ${response.status}).`
-            );
-            return;
-          }
-          const text = await response.text();
-          throw new Error(`Failed to fetch global emotes: ${response.status} ${text}`);
-        }
-
-        const json: {
-          data?: Array<{ id: string; name: string }>;
-          pagination?: { cursor?: string };
-        } = await response.json();
-
-        json.data?.forEach((entry) => {
-          if (entry?.id && entry?.name) {
-            globalEmoteMap.set(entry.name.toLowerCase(), entry.id);
-          }
-        });
-
-        cursor = json.pagination?.cursor ?? undefined;
-      } while (cursor);
-
-      globalEmoteMapFetched = true;
-      globalEmoteFetchFailed = false;
-    } catch (error) {
-      globalEmoteFetchFailed = true;
-      console.warn("[twitch] Failed to load global emote map", error);
-    }
+    // Give up until this channel's token is refreshed; other channels keep trying theirs.
+    const result = await twitchGlobalEmotes.ensureLoaded(userAccessToken, twitchChannel);
+    globalEmoteFetchFailed = result !== "loaded";
   }
 
   async function analyzeChatSlice(messages: ChatMessagePayload[]) {
@@ -1323,12 +1722,14 @@ async function runSingleChannelIngest() {
 
     try {
       const openai = createOpenAI({ apiKey });
-      const { object } = await generateObject({
-        model: openai("gpt-4.1-mini"),
-        system: moodAnalysisSystemPrompt.trim(),
-        prompt: buildMoodAnalysisUserPrompt(slice, context),
-        schema: moodAnalysisSchema,
-      });
+      const { object } = await workerMetrics.llmDuration.time({ channel: twitchChannel }, () =>
+        generateObject({
+          model: openai("gpt-4.1-mini"),
+          system: moodAnalysisSystemPrompt.trim(),
+          prompt: buildMoodAnalysisUserPrompt(slice, context),
+          schema: moodAnalysisSchema,
+        })
+      );
 
       if (!object) {
         return null;
@@ -1370,9 +1771,207 @@ async function runSingleChannelIngest() {
     }
   }
 
-  setInterval(() => {
-    if (llmProcessing || pendingMessages.length === 0) {
-      return;
+  async function persistWindows(streamId: Id<"streams">, windows: ClosedWindow[]) {
+    for (const window of windows) {
+      try {
+        const result = await mutate("ingestion/recordWindow:recordWindow", {
+          streamId,
+          ...window,
+          streamUniqueChatters: windowRollup.uniqueChatters,
+        });
+        if (result?.ended) {
+          handleStreamEnded(streamId, result.endedAt ?? null);
+        }
+      } catch (error) {
+        console.error("[convex] Failed to record window", { windowStart: window.windowStart }, error);
+      }
+    }
+  }
+
+  async function persistSpike(streamId: Id<"streams">, spike: SpikeRecord | undefined) {
+    if (!spike) {
+      return;
+    }
+    try {
+      await mutate("ingestion/recordSpike:recordSpike", {
+        streamId,
+        ...spike,
+      });
+    } catch (error) {
+      console.error("[convex] Failed to record spike", { windowStart: spike.windowStart }, error);
+    }
+  }
+
+  async function recordAnnotation(annotation: RoomStateAnnotation, occurredAt: number) {
+    if (!activeStreamId) {
+      return;
+    }
+    try {
+      await mutate("ingestion/recordAnnotation:recordAnnotation", {
+        streamId: activeStreamId,
+        kind: annotation.kind,
+        enabled: annotation.enabled,
+        value: annotation.value ?? undefined,
+        occurredAt,
+      });
+    } catch (error) {
+      console.error("[convex] Failed to record annotation", { kind: annotation.kind }, error);
+    }
+
+    await postLiveFeed(twitchChannel, {
+      type: "annotation",
+      channel: twitchChannel,
+      channelLogin: twitchChannel,
+      payload: {
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        annotation: {
+          id: `${annotation.kind}-${occurredAt}`,
+          kind: annotation.kind,
+          enabled: annotation.enabled,
+          value: annotation.value,
+          timestamp: occurredAt,
+          ...describeAnnotation(annotation),
+        },
+      },
+    });
+  }
+
+  function handleRoomState(next: RoomState) {
+    const changes = diffRoomState(roomState, next);
+    roomState = next;
+    const now = Date.now();
+    for (const annotation of changes) {
+      void recordAnnotation(annotation, now);
+    }
+  }
+
+  async function handleModeration(action: ModerationAction) {
+    if (action.type === "clear") {
+      await recordAnnotation({ kind: "chat-cleared", enabled: true, value: null }, action.occurredAt);
+      return;
+    }
+
+    const targetHash =
+      action.type === "delete"
+        ? null
+        : hashAuthor(authorSalt, action.targetUserId ?? undefined, action.targetLogin);
+    const affected = aggregator.markModerated((record) =>
+      action.type === "delete"
+        ? record.id === action.messageId
+        : record.authorHash === targetHash && record.timestamp <= action.occurredAt
+    );
+    const moderatedIds = new Set(affected.map((record) => record.id));
+    if (action.type === "delete") {
+      moderatedIds.add(action.messageId);
+    }
+    pendingMessages = pendingMessages.filter((entry) => !moderatedIds.has(entry.id));
+
+    const reason: ModerationReason = action.type === "delete" ? "deleted" : action.type;
+    const moderationKey =
+      action.type === "delete" ? `msg:${action.messageId}` : `author:${targetHash}`;
+    recentModerations.set(moderationKey, { reason, at: action.occurredAt });
+    // Oldest first: drop expired entries and anything over the size bound.
+    for (const [key, entry] of recentModerations) {
+      const expired = Date.now() - entry.at > RECENT_MODERATION_TTL_MS;
+      if (!expired && recentModerations.size <= RECENT_MODERATION_LIMIT) {
+        break;
+      }
+      recentModerations.delete(key);
+    }
+
+    if (!activeStreamId) {
+      return;
+    }
+
+    // The rows may still be sitting in the append batch.
+    await chatAppendBatcher.flush();
+    try {
+      await mutate("ingestion/moderateMessages:moderateMessages", {
+        streamId: activeStreamId,
+        reason,
+        moderatedAt: action.occurredAt,
+        ...(action.type === "delete" ? { messageId: action.messageId } : { authorHash: targetHash }),
+      });
+    } catch (error) {
+      console.error("[convex] Failed to mark messages as moderated", { reason }, error);
+    }
+
+    if (moderatedIds.size > 0) {
+      await postLiveFeed(twitchChannel, {
+        type: "moderation",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: {
+          channel: twitchChannel,
+          channelLogin: twitchChannel,
+          messageIds: Array.from(moderatedIds),
+          reason,
+        },
+      });
+    }
+  }
+
+  async function handleChannelEvent(event: ParsedChannelEvent) {
+    if (!activeStreamId) {
+      await startIngestionSession(event.occurredAt);
+    }
+    if (!activeStreamId) {
+      return;
+    }
+
+    try {
+      await mutate("ingestion/recordChannelEvent:recordChannelEvent", {
+        streamId: activeStreamId,
+        kind: event.kind,
+        messageId: event.messageId,
+        occurredAt: event.occurredAt,
+        actorDisplay: event.actorDisplay ?? undefined,
+        gifterHash: event.gifter
+          ? hashAuthor(authorSalt, event.gifter.userId ?? undefined, event.gifter.login)
+          : undefined,
+        amount: event.amount ?? undefined,
+        tier: event.tier ?? undefined,
+        viewerCount: event.viewerCount ?? undefined,
+        recipientDisplay: event.recipientDisplay ?? undefined,
+        message: event.message ?? undefined,
+      });
+    } catch (error) {
+      console.error("[convex] Failed to record channel event", { kind: event.kind }, error);
+    }
+
+    await postLiveFeed(twitchChannel, {
+      type: "channel-event",
+      channel: twitchChannel,
+      channelLogin: twitchChannel,
+      payload: {
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        event: {
+          id: event.messageId,
+          kind: event.kind,
+          timestamp: event.occurredAt,
+          ...describeChannelEvent(event),
+        },
+      },
+    });
+  }
+
+  const windowTimer = setInterval(() => {
+    if (!activeStreamId) {
+      return;
+    }
+    const now = Date.now();
+    const closed = windowRollup.closeExpired(now);
+    if (closed.length > 0) {
+      void persistWindows(activeStreamId, closed);
+    }
+    void persistSpike(activeStreamId, aggregator.expireSpike(now));
+  }, WINDOW_MS);
+
+  const llmTimer = setInterval(() => {
+    if (llmProcessing || pendingMessages.length === 0) {
+      return;
     }
 
     const batch = pendingMessages.splice(0, pendingMessages.length);
@@ -1391,9 +1990,7 @@ async function runSingleChannelIngest() {
         if (!result) {
           if (process.env.VERCEL_AI_API_KEY) {
             pendingMessages.unshift(...batch);
-            if (pendingMessages.length > MAX_BUFFERED_MESSAGES) {
-              pendingMessages = pendingMessages.slice(-MAX_BUFFERED_MESSAGES);
-            }
+            trimPendingMessages();
           }
           return;
         }
@@ -1445,9 +2042,7 @@ async function runSingleChannelIngest() {
           pendingMessages = [];
         } else {
           pendingMessages.unshift(...batch);
-          if (pendingMessages.length > MAX_BUFFERED_MESSAGES) {
-            pendingMessages = pendingMessages.slice(-MAX_BUFFERED_MESSAGES);
-          }
+          trimPendingMessages();
         }
       })
       .finally(() => {
@@ -1455,35 +2050,6 @@ async function runSingleChannelIngest() {
       });
   }, LLM_INTERVAL_MS);
 
-  function buildClient(mode: AuthMode) {
-    let identity: { username: string; password: string } | undefined;
-
-    if (mode === "oauth") {
-      if (!userAccessToken) {
-        console.warn(
-          `[twitch:${twitchChannel}] OAuth mode requested but access token is missing. Falling back to anonymous connection.`
-        );
-      } else {
-        identity = {
-          username: twitchUsername,
-          password: `oauth:${userAccessToken}`,
-        };
-      }
-    }
-
-    return new tmi.Client({
-      identity,
-      channels: [twitchChannel],
-      options: { debug: false },
-      connection: connectionConfig,
-      logger: {
-        info: () => {},
-        warn: (message: unknown) => console.warn(`[twitch warning] ${message}`),
-        error: (message: unknown) => console.error(`[twitch error] ${message}`),
-      },
-    });
-  }
-
   let streamStatusWarningLogged = false;
 
   async function fetchStreamLive(login: string): Promise<boolean | null> {
@@ -1530,13 +2096,19 @@ async function runSingleChannelIngest() {
     return isLive;
   }
 
-  async function startIngestionSession(now: number) {
-    if (activeStreamId || startingSession) {
-      return;
+  function startIngestionSession(now: number) {
+    if (activeStreamId || stopped) {
+      return Promise.resolve();
     }
-    startingSession = true;
+    startingSession ??= openIngestionSession(now).finally(() => {
+      startingSession = null;
+    });
+    return startingSession;
+  }
+
+  async function openIngestionSession(now: number) {
     try {
-      const session = await (convex as any).mutation("ingestion/startSession:startSession", {
+      const session = await mutate("ingestion/startSession:startSession", {
         channelId: integration.channelId,
         channelLogin: twitchChannel,
         channelDisplayName,
@@ -1544,6 +2116,7 @@ async function runSingleChannelIngest() {
       });
 
       aggregator.reset();
+      windowRollup.reset();
       pendingMessages = [];
       await postLiveFeed(twitchChannel, {
         type: "reset",
@@ -1567,6 +2140,15 @@ async function runSingleChannelIngest() {
           ingestionConnected: true,
         },
       });
+
+      // Modes already active when the stream starts explain a slow chat from minute one.
+      if (roomState) {
+        for (const annotation of diffRoomState(null, roomState)) {
+          void recordAnnotation(annotation, now);
+        }
+      }
+
+      void youtubeSource?.connect(youtubeHandlers);
     } catch (error) {
       const err = error as any;
       console.error("[ingestion] Failed to start session", {
@@ -1575,11 +2157,25 @@ async function runSingleChannelIngest() {
         code: err?.code,
         stack: err instanceof Error ? err.stack : undefined,
       });
-    } finally {
-      startingSession = false;
     }
   }
 
+  /**
+   * Convex reported the stream ended (EventSub's stream.offline got there
+   * first). Close the local session now instead of writing into a completed
+   * stream until the next status poll. Not awaited: the caller may be a flush
+   * that ending the session itself waits on.
+   */
+  function handleStreamEnded(streamId: string, endedAt: number | null) {
+    if (streamId !== activeStreamId || endingSession) {
+      return;
+    }
+    console.log(`[twitch:${twitchChannel}] Stream ${streamId} was ended elsewhere; ending ingestion.`);
+    void endIngestionSession(endedAt).catch((error) => {
+      console.error("[ingestion] Failed to end session", error);
+    });
+  }
+
   async function endIngestionSession(
     endedAt: number | null = null,
     options?: { ingestionConnected?: boolean }
@@ -1603,9 +2199,28 @@ async function runSingleChannelIngest() {
       });
       return;
     }
+    if (endingSession) {
+      return;
+    }
+    endingSession = true;
+    try {
+      await closeIngestionSession(endedAt, ingestionConnected);
+    } finally {
+      endingSession = false;
+    }
+  }
+
+  async function closeIngestionSession(endedAt: number | null, ingestionConnected: boolean) {
+    if (!activeStreamId) {
+      return;
+    }
     const finalEndedAt = endedAt ?? Date.now();
+    await youtubeSource?.disconnect();
+    await chatAppendBatcher.flush();
+    await persistWindows(activeStreamId, windowRollup.closeAll());
+    await persistSpike(activeStreamId, aggregator.flushSpike());
     try {
-      await (convex as any).mutation("ingestion/endSession:endSession", {
+      await mutate("ingestion/endSession:endSession", {
         streamId: activeStreamId,
         endedAt: finalEndedAt,
       });
@@ -1617,6 +2232,7 @@ async function runSingleChannelIngest() {
     sessionStartedAt = null;
     lastReportedStatus = "offline";
     aggregator.reset();
+    windowRollup.reset();
     pendingMessages = [];
 
     await postLiveFeed(twitchChannel, {
@@ -1708,359 +2324,368 @@ async function runSingleChannelIngest() {
     }
   }
 
-  function wireClient(instance: any) {
-    instance.on("connected", async () => {
-      try {
-        if (authMode === "oauth") {
-          await ensureFreshToken();
-        }
-        const now = Date.now();
-        console.log(
-          `[twitch] Connected to #${twitchChannel} (${describeAuthMode(authMode)} mode)`
-        );
-        await evaluateStreamStatus("connection");
-        if (!activeStreamId) {
-          await postLiveFeed(twitchChannel, {
-            type: "session",
-            channel: twitchChannel,
-            channelLogin: twitchChannel,
-            payload: {
-              status: "idle",
-              channel: channelDisplayName,
-              channelLogin: twitchChannel,
-              startedAt: sessionStartedAt,
-              ingestionConnected: true,
-            },
-          });
-        }
-        if (statusPollTimer) {
-          clearInterval(statusPollTimer);
-        }
-        statusPollTimer = setInterval(() => {
-          evaluateStreamStatus("poll").catch((error) => {
-            console.error("[twitch] Stream status poll failed", error);
-          });
-        }, STREAM_STATUS_POLL_INTERVAL);
-      } catch (error) {
-        console.error("[ingestion] Failed to start session", error);
-      }
-    });
-
-    instance.on("reconnect", () => {
-      console.warn("[twitch] Attempting to reconnect…");
-    });
-
-    instance.on("ping", () => {
-      if (typeof console.debug === "function") {
-        console.debug("[twitch] Ping sent");
-      }
-    });
-
-    instance.on("pong", (latency: number) => {
-      if (typeof console.debug === "function") {
-        console.debug(`[twitch] Pong received (${latency}ms)`);
-      }
-    });
-
-    instance.on("disconnected", async () => {
-      console.warn("[twitch] Disconnected from chat");
-      if (statusPollTimer) {
-        clearInterval(statusPollTimer);
-        statusPollTimer = null;
-      }
-      await endIngestionSession(null, { ingestionConnected: false });
-    });
-
-    instance.on("message", async (channelName: string, tags: Tags, message: string, self: boolean) => {
-      if (self) return;
+  async function handleTwitchConnected() {
+    workerMetrics.ircConnected.set({ channel: twitchChannel }, 1);
+    connectionState = "connected";
+    void sendHeartbeat();
+    await evaluateStreamStatus("connection");
+    if (!activeStreamId) {
+      await postLiveFeed(twitchChannel, {
+        type: "session",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: {
+          status: "idle",
+          channel: channelDisplayName,
+          channelLogin: twitchChannel,
+          startedAt: sessionStartedAt,
+          ingestionConnected: true,
+        },
+      });
+    }
+    if (statusPollTimer) {
+      clearInterval(statusPollTimer);
+    }
+    statusPollTimer = setInterval(() => {
+      evaluateStreamStatus("poll").catch((error) => {
+        console.error("[twitch] Stream status poll failed", error);
+      });
+    }, STREAM_STATUS_POLL_INTERVAL);
+  }
 
-      const messageId = (tags.id as string) ?? randomUUID();
-      const authorDisplay =
-        (tags["display-name"] as string) ?? (tags.username as string) ?? "anon";
-      const timestamp = Number.parseInt((tags["tmi-sent-ts"] as string) ?? `${Date.now()}`, 10);
+  async function handleTwitchDisconnected() {
+    workerMetrics.ircConnected.set({ channel: twitchChannel }, 0);
+    connectionState = "disconnected";
+    void sendHeartbeat();
+    if (statusPollTimer) {
+      clearInterval(statusPollTimer);
+      statusPollTimer = null;
+    }
+    await endIngestionSession(null, { ingestionConnected: false });
+  }
 
-      if (authMode === "oauth") {
-        try {
-          await ensureFreshToken();
-        } catch (error) {
-          console.error("[twitch] Token refresh failed", error);
-          return;
-        }
-      }
+  async function ingestChatMessage(message: ChatSourceMessage) {
+    const { messageId, authorDisplay, timestamp, text } = message;
+    const isTwitch = message.platform === "twitch";
 
-      if (!globalEmoteMapFetched && !globalEmoteFetchFailed) {
-        await ensureGlobalEmoteMap();
-      }
+    if (isTwitch) {
+      await ensureGlobalEmoteMap();
+    }
 
+    // Twitch drives the session; simulcast chat only counts while it is live.
+    if (isTwitch) {
       lastChatMessageAt = timestamp;
 
       if (!activeStreamId) {
         await startIngestionSession(timestamp);
       }
+    }
 
-      if (!activeStreamId) {
-        // Failed to establish a session; skip processing until it becomes available.
+    if (!activeStreamId) {
+      // Failed to establish a session; skip processing until it becomes available.
+      workerMetrics.messagesDropped.inc({ channel: twitchChannel, reason: "no_session" });
+      return;
+    }
+    workerMetrics.ingestLatency.observe(
+      { channel: twitchChannel, platform: message.platform },
+      Math.max(0, Date.now() - timestamp) / 1000
+    );
+    const tokens = tokenizeMessage(text);
+    const emoteSegments = message.emotes;
+    const fallbackEmotes = isTwitch ? extractFallbackEmotes(text, emoteCatalogService.catalog) : [];
+    const dedupedEmotes = new Map<string, TrackedEmote>();
+    const seenCodes = new Set<string>();
+
+    emoteSegments.forEach((emote) => {
+      const display = emote.code || emote.id || "";
+      if (!display) {
         return;
       }
-      const tokens = tokenizeMessage(message);
-      const emoteSegments = extractEmotes(message, tags);
-      const fallbackEmotes = extractFallbackEmotes(message);
-      const dedupedEmotes = new Map<string, TrackedEmote>();
-      const seenCodes = new Set<string>();
-
-      emoteSegments.forEach((emote) => {
-        const display = emote.code || emote.id || "";
-        if (!display) {
-          return;
-        }
-        const codeKey = (emote.code ?? display).toLowerCase();
-        seenCodes.add(codeKey);
-        const resolvedId = emote.id ?? resolveEmoteIdFromMap(emote.code ?? display);
-        const imageUrl = emote.imageUrl ?? buildEmoteImageUrl(resolvedId);
-        if (!dedupedEmotes.has(codeKey)) {
-          dedupedEmotes.set(codeKey, {
-            code: emote.code || display,
-            id: resolvedId,
-            imageUrl,
-          });
-        }
-      });
-
-      fallbackEmotes.forEach((emote) => {
-        const display = emote.code || "";
-        if (!display) {
-          return;
-        }
-        const codeKey = display.toLowerCase();
-        if (seenCodes.has(codeKey) || dedupedEmotes.has(codeKey)) {
-          return;
-        }
-        const resolvedId = emote.id ?? resolveEmoteIdFromMap(display);
-        const imageUrl = emote.imageUrl ?? buildEmoteImageUrl(resolvedId);
-        dedupedEmotes.set(codeKey, { code: display, id: resolvedId, imageUrl });
-      });
-
-      const allEmotes = Array.from(dedupedEmotes.values());
-      const chatEmotes = emoteSegments.concat(fallbackEmotes).map((segment) => {
-        const resolvedId = segment.id ?? resolveEmoteIdFromMap(segment.code) ?? null;
-        return {
-          code: segment.code,
+      const codeKey = (emote.code ?? display).toLowerCase();
+      seenCodes.add(codeKey);
+      const resolvedId = emote.id ?? resolveEmoteIdFromMap(emote.code ?? display);
+      const imageUrl = emote.imageUrl ?? buildEmoteImageUrl(resolvedId);
+      if (!dedupedEmotes.has(codeKey)) {
+        dedupedEmotes.set(codeKey, {
+          code: emote.code || display,
           id: resolvedId,
-          imageUrl: segment.imageUrl ?? buildEmoteImageUrl(resolvedId),
-          start: typeof segment.start === "number" ? segment.start : null,
-          end: typeof segment.end === "number" ? segment.end : null,
-        };
-      });
-      const sentimentScoreRaw = sentimentAnalyzer.analyze(message).score;
-      const sentimentScore = Math.max(-1, Math.min(1, sentimentScoreRaw / 10));
-      const authorHash = hashAuthor(
-        tags["user-id"] as string | undefined,
-        tags.username ?? authorDisplay
-      );
-      const toneContext = pendingMessages.slice(-6).map((entry) => `${entry.author}: ${entry.text}`);
-      const toneResult: ChatToneResult = await classifyChatTone(message, {
-        author: authorDisplay,
-        recentMessages: toneContext,
-      });
-
-      try {
-        await (convex as any).mutation("ingestion/appendChatMessage:appendChatMessage", {
-          streamId: activeStreamId,
-          messageId,
-          authorDisplay,
-          authorHash,
-          text: message,
-          emotes: countEmotes(allEmotes),
-          postedAt: timestamp,
-          tone: toneResult.tone === "unknown" ? undefined : toneResult.tone,
-          toneConfidence: toneResult.confidence,
-          toneRationale: toneResult.rationale,
+          imageUrl,
         });
-      } catch (error) {
-        console.error("[convex] Failed to append chat message", error);
       }
+    });
 
-      const snapshot = aggregator.ingest({
-        id: messageId,
-        timestamp,
-        authorHash,
-        authorDisplay,
-        tokens,
-        emotes: allEmotes,
-        sentiment: sentimentScore,
-        tone: toneResult.tone,
-        toneConfidence: toneResult.confidence,
-      });
+    fallbackEmotes.forEach((emote) => {
+      const display = emote.code || "";
+      if (!display) {
+        return;
+      }
+      const codeKey = display.toLowerCase();
+      if (seenCodes.has(codeKey) || dedupedEmotes.has(codeKey)) {
+        return;
+      }
+      const resolvedId = emote.id ?? resolveEmoteIdFromMap(display);
+      const imageUrl = emote.imageUrl ?? buildEmoteImageUrl(resolvedId);
+      dedupedEmotes.set(codeKey, { code: display, id: resolvedId, imageUrl });
+    });
 
-      const chatPayload: ChatMessagePayload = {
-        id: messageId,
-        author: authorDisplay,
-        text: message,
-        timestamp,
-        tone: toneResult.tone,
-        toneConfidence: toneResult.confidence,
-        toneRationale: toneResult.rationale,
-        emotes: chatEmotes,
+    const allEmotes = Array.from(dedupedEmotes.values());
+    const chatEmotes = [...emoteSegments, ...fallbackEmotes].map((segment) => {
+      const resolvedId = segment.id ?? resolveEmoteIdFromMap(segment.code) ?? null;
+      return {
+        code: segment.code,
+        id: resolvedId,
+        imageUrl: segment.imageUrl ?? buildEmoteImageUrl(resolvedId),
+        start: typeof segment.start === "number" ? segment.start : null,
+        end: typeof segment.end === "number" ? segment.end : null,
       };
+    });
+    const sentimentScoreRaw = sentimentAnalyzer.analyze(text).score;
+    const sentimentScore = Math.max(-1, Math.min(1, sentimentScoreRaw / 10));
+    const authorHash = hashAuthor(authorSalt, message.authorId ?? undefined, message.authorLogin);
+    const toneContext = pendingMessages.slice(-6).map((entry) => `${entry.author}: ${entry.text}`);
+    const toneResult: ChatToneResult = await classifyChatTone(text, {
+      author: authorDisplay,
+      recentMessages: toneContext,
+    });
 
-      pendingMessages.push(chatPayload);
-      if (pendingMessages.length > MAX_BUFFERED_MESSAGES) {
-        pendingMessages = pendingMessages.slice(-MAX_BUFFERED_MESSAGES);
-      }
+    const authorModeration = recentModerations.get(`author:${authorHash}`);
+    const earlyModeration =
+      recentModerations.get(`msg:${messageId}`) ??
+      (authorModeration && timestamp <= authorModeration.at ? authorModeration : undefined);
+
+    chatAppendBatcher.add(activeStreamId, {
+      messageId,
+      platform: message.platform,
+      authorDisplay,
+      authorHash,
+      authorHashVersion: AUTHOR_HASH_VERSION,
+      text,
+      emotes: countEmotes(allEmotes),
+      postedAt: timestamp,
+      tone: toneResult.tone === "unknown" ? undefined : toneResult.tone,
+      toneConfidence: toneResult.confidence,
+      toneRationale: toneResult.rationale,
+      moderatedAt: earlyModeration?.at,
+      moderationReason: earlyModeration?.reason,
+    });
 
-      const liveFeedBatch: unknown[] = [
-        {
-          type: "chat",
-          channel: twitchChannel,
-          channelLogin: twitchChannel,
-          payload: { ...chatPayload, channel: twitchChannel, channelLogin: twitchChannel },
-        },
-        {
-          type: "metrics",
+    const record: MessageRecord = {
+      id: messageId,
+      platform: message.platform,
+      timestamp,
+      authorHash,
+      authorDisplay,
+      tokens,
+      emotes: allEmotes,
+      sentiment: sentimentScore,
+      tone: toneResult.tone,
+      toneConfidence: toneResult.confidence,
+      moderated: earlyModeration !== undefined,
+    };
+    const snapshot = aggregator.ingest(record);
+    windowRollup.add(record);
+    void persistSpike(activeStreamId, snapshot.spike);
+
+    const chatPayload: ChatMessagePayload = {
+      id: messageId,
+      platform: message.platform,
+      author: authorDisplay,
+      text,
+      timestamp,
+      sentAt: message.sentAt,
+      tone: toneResult.tone,
+      toneConfidence: toneResult.confidence,
+      toneRationale: toneResult.rationale,
+      emotes: chatEmotes,
+      badges: message.badges,
+    };
+
+    pendingMessages.push(chatPayload);
+    trimPendingMessages();
+
+    const liveFeedBatch: unknown[] = [
+      {
+        type: "chat",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: { ...chatPayload, channel: twitchChannel, channelLogin: twitchChannel },
+      },
+      {
+        type: "metrics",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: {
           channel: twitchChannel,
           channelLogin: twitchChannel,
-          payload: {
-            channel: twitchChannel,
-            channelLogin: twitchChannel,
-            messageRate: snapshot.messageRate,
-            sentiment: snapshot.sentiment,
-            uniqueChatters: snapshot.uniqueChatters,
-            trend: snapshot.trendPercent,
-            baseline: snapshot.baseline,
-          },
+          messageRate: snapshot.messageRate,
+          sentiment: snapshot.sentiment,
+          uniqueChatters: snapshot.uniqueChatters,
+          trend: snapshot.trendPercent,
+          baseline: snapshot.baseline,
+          platforms: snapshot.platforms,
         },
-        {
-          type: "audience",
+      },
+      {
+        type: "audience",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: {
           channel: twitchChannel,
           channelLogin: twitchChannel,
-          payload: {
-            channel: twitchChannel,
-            channelLogin: twitchChannel,
-            uniqueChatters: snapshot.uniqueChatters,
-            newcomers: snapshot.newcomers,
-            sentimentScore: snapshot.sentiment,
-            baseline: {
-              uniqueChatters: snapshot.baseline.uniqueChatters,
-              newcomers: snapshot.baseline.newcomers,
-            },
+          uniqueChatters: snapshot.uniqueChatters,
+          newcomers: snapshot.newcomers,
+          sentimentScore: snapshot.sentiment,
+          baseline: {
+            uniqueChatters: snapshot.baseline.uniqueChatters,
+            newcomers: snapshot.baseline.newcomers,
           },
         },
-        {
-          type: "tokens",
+      },
+      {
+        type: "tokens",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: {
           channel: twitchChannel,
           channelLogin: twitchChannel,
-          payload: {
-            channel: twitchChannel,
-            channelLogin: twitchChannel,
-            tokens: snapshot.topTokens,
-            emotes: snapshot.topEmotes,
-          },
+          tokens: snapshot.topTokens,
+          emotes: snapshot.topEmotes,
         },
-        {
-          type: "timeline",
+      },
+      {
+        type: "timeline",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: {
           channel: twitchChannel,
           channelLogin: twitchChannel,
-          payload: {
-            channel: twitchChannel,
-            channelLogin: twitchChannel,
-            point: aggregator.getTimelinePoint(timestamp),
-          },
+          point: aggregator.getTimelinePoint(timestamp),
         },
-      ];
+      },
+    ];
 
-      if (snapshot.event) {
-        liveFeedBatch.push({
-          type: "events",
+    if (snapshot.event) {
+      liveFeedBatch.push({
+        type: "events",
+        channel: twitchChannel,
+        channelLogin: twitchChannel,
+        payload: {
           channel: twitchChannel,
           channelLogin: twitchChannel,
-          payload: {
-            channel: twitchChannel,
-            channelLogin: twitchChannel,
-            event: snapshot.event,
-          },
-        });
-      }
+          event: snapshot.event,
+        },
+      });
+    }
 
-      void sendLiveFeedUpdates(twitchChannel, liveFeedBatch);
-    });
+    void sendLiveFeedUpdates(twitchChannel, liveFeedBatch);
   }
 
-  async function connectPreferred() {
-    if (preferredAuth === "oauth") {
-      const oauthClient = buildClient("oauth");
-      wireClient(oauthClient);
-      try {
-        await ensureFreshToken();
-        authMode = "oauth";
-        await oauthClient.connect();
-        return oauthClient;
-      } catch (error) {
-        oauthClient.removeAllListeners();
-        if (isAuthFailure(error)) {
-          console.warn("[twitch] OAuth login failed. Attempting token refresh…");
-          try {
-            await ensureFreshToken(true);
-            if (userAccessToken) {
-              const retryClient = buildClient("oauth");
-              wireClient(retryClient);
-              try {
-                authMode = "oauth";
-                await retryClient.connect();
-                return retryClient;
-              } catch (retryError) {
-                retryClient.removeAllListeners();
-                console.warn(
-                  "[twitch] Authentication still failing after refresh. Falling back to anonymous mode."
-                );
-              }
-            } else {
-              console.warn(
-                "[twitch] Could not refresh user token. Falling back to anonymous Twitch connection."
-              );
-            }
-          } catch (refreshError) {
-            console.warn(
-              "[twitch] Token refresh failed after authentication error. Falling back to anonymous connection.",
-              refreshError
-            );
-          }
-        } else {
-          throw error;
-        }
+  const twitchSource = new TwitchChatSource({
+    channel: twitchChannel,
+    username: twitchUsername,
+    getAccessToken: () => userAccessToken,
+    ensureFreshToken,
+    pool: ircPool,
+  });
+
+  // Lets the dashboard tell a dead worker from an offline stream.
+  async function sendHeartbeat() {
+    try {
+      await mutate("ingestion/heartbeat:recordHeartbeat", {
+        workspaceId: integration.workspaceId,
+        channelLogin: twitchChannel,
+        connectionState,
+        authMode: connectionState === "connected" ? twitchSource.authMode : undefined,
+        lastChatAt: lastChatMessageAt > 0 ? lastChatMessageAt : undefined,
+        buildVersion: WORKER_BUILD_VERSION,
+        workerId: WORKER_ID,
+      });
+      heartbeatFailureLogged = false;
+    } catch (error) {
+      if (!heartbeatFailureLogged) {
+        console.warn("[heartbeat] Failed to record heartbeat", { channel: twitchChannel }, error);
+        heartbeatFailureLogged = true;
       }
     }
-
-    const anonymousClient = buildClient("anonymous");
-    wireClient(anonymousClient);
-    authMode = "anonymous";
-    await anonymousClient.connect();
-    console.warn(
-      "[twitch] Connected in anonymous mode. Metrics streaming continues, but chat actions are read-only."
-    );
-    return anonymousClient;
   }
 
-  let client: any;
-  try {
-    client = await connectPreferred();
-  } catch (error) {
-    console.error("[tmi] Failed to connect", error);
-    process.exit(1);
-    return;
+  void sendHeartbeat();
+  const heartbeatTimer = setInterval(() => {
+    void sendHeartbeat();
+  }, WORKER_HEARTBEAT_INTERVAL_MS);
+
+  // Provider ids are numeric Twitch user ids; a login-only fallback integration
+  // has nothing to look up.
+  if (/^\d+$/.test(integration.channelId)) {
+    await emoteCatalogService.start();
+  } else {
+    console.warn("[emotes] Skipping emote catalog; integration has no Twitch user id", {
+      channel: twitchChannel,
+    });
   }
 
-  const handleShutdown = async (signal: NodeJS.Signals) => {
-    console.log(`\n[ingestion] Shutting down (${signal})...`);
-    client.disconnect().catch(() => {});
+  const stopCollecting = metricsRegistry.onCollect(() => {
+    workerMetrics.pendingMoodMessages.set({ channel: twitchChannel }, pendingMessages.length);
+    workerMetrics.llmCooldownRemaining.set(
+      { channel: twitchChannel },
+      Math.max(0, moodAiCooldownUntil - Date.now()) / 1000
+    );
+  });
+
+  const stop = async () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    stopCollecting();
+    workerMetrics.ircConnected.set({ channel: twitchChannel }, 0);
+    workerMetrics.pendingMoodMessages.set({ channel: twitchChannel }, 0);
+    clearInterval(windowTimer);
+    clearInterval(llmTimer);
+    clearInterval(heartbeatTimer);
     if (statusPollTimer) {
       clearInterval(statusPollTimer);
+      statusPollTimer = null;
     }
+    emoteCatalogService.stop();
+    await twitchSource.disconnect();
     await endIngestionSession(null, { ingestionConnected: false });
-    process.exit(0);
+    connectionState = "stopped";
+    await sendHeartbeat();
   };
 
-  process.on("SIGINT", handleShutdown);
-  process.on("SIGTERM", handleShutdown);
+  try {
+    await twitchSource.connect({
+      connected: countTmiEvent("join", guard(handleTwitchConnected)),
+      disconnected: countTmiEvent("disconnect", guard(handleTwitchDisconnected)),
+      message: countTmiEvent("message", guard(ingestChatMessage)),
+      moderation: countTmiEvent("moderation", guard(handleModeration)),
+      channelEvent: countTmiEvent("channel_event", guard(handleChannelEvent)),
+      roomState: countTmiEvent("roomstate", guard(handleRoomState)),
+    });
+  } catch (error) {
+    console.error(`[tmi] Failed to join #${twitchChannel}`, error);
+    await stop();
+    throw error;
+  }
+
+  return {
+    stop,
+    memoryStats: () => {
+      const buffered = aggregator.retainedMessages;
+      return {
+        live: Boolean(activeStreamId),
+        bufferedMessages: buffered.length,
+        knownAuthors: aggregator.knownAuthors,
+        pendingMoodMessages: pendingMessages.length,
+        recentModerations: recentModerations.size,
+        catalogEmotes: emoteCatalogService.catalog?.size ?? 0,
+        approxKb: Math.round(
+          approximateBytes([buffered, pendingMessages, Array.from(recentModerations)]) / 1024
+        ),
+      };
+    },
+  };
 }
 
 function countEmotes(items: TrackedEmote[]) {
@@ -2091,57 +2716,9 @@ function countEmotes(items: TrackedEmote[]) {
   return Array.from(counts.values());
 }
 
-async function resolveIntegration(convex: ConvexHttpClient): Promise<ChannelIntegration> {
-  const integrations = await resolveIntegrationsList(convex);
-  console.log("[ingestion] Linked channels", integrations);
-
-  if (integrations.length === 0) {
-    throw new Error(
-      "No connected Twitch integrations found in Convex. Sign in through the dashboard to link a channel."
-    );
-  }
-
-  const normalized = integrations.map((integration) => ({
-    channelLogin: integration.channelLogin,
-    channelDisplayName: integration.channelDisplayName,
-    channelId: integration.channelId,
-  }));
-
-  const nonDemo = normalized.filter(
-    (integration) => !integration.channelLogin.toLowerCase().includes("demo")
-  );
-  const prioritized = nonDemo.length > 0 ? nonDemo : normalized;
-
-  if (explicitChannel) {
-    const matched = prioritized.find(
-      (integration) => integration.channelLogin.toLowerCase() === explicitChannel
-    );
-    if (!matched) {
-      console.warn(
-        "Configured TWITCH_CHANNEL does not match any linked integration. Using first linked channel instead.",
-        { explicitChannel, linkedChannels: prioritized.map((channel) => channel.channelLogin) }
-      );
-    }
-    return matched ?? prioritized[0];
-  }
-
-  if (prioritized.length > 1) {
-    console.warn(
-      "Multiple Twitch integrations found. Defaulting to the first. Set TWITCH_CHANNEL to choose a specific one.",
-      { linkedChannels: prioritized.map((channel) => channel.channelLogin) }
-    );
-  }
-
-  return prioritized[0];
-}
-
 async function main() {
-  if (isChildProcess) {
-    await runSingleChannelIngest();
-    return;
-  }
-
   await orchestrateMultiChannelIngestion();
+  process.exit(0);
 }
 
 main().catch((error) => {
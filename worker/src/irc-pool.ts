@@ -0,0 +1,298 @@
+import tmi from "tmi.js";
+
+type Tags = Record<string, any>;
+
+export type IrcRawMessage = { command?: string; tags?: Tags; params?: string[] };
+
+export type IrcIdentity = {
+  username: string;
+  /** Read on every (re)connect so a refreshed token is picked up. */
+  getToken: () => string | null;
+};
+
+/** Events for one channel on a shared connection. */
+export type IrcChannelListener = {
+  /** Our own JOIN landed, on first join and again after every reconnect. */
+  joined: () => void;
+  disconnected: (reason: string) => void;
+  message: (tags: Tags, message: string, self: boolean) => void;
+  cheer: (tags: Tags, message: string) => void;
+  raw: (raw: IrcRawMessage) => void;
+};
+
+export type IrcClient = {
+  on: (event: string, listener: (...args: any[]) => void) => unknown;
+  removeAllListeners: () => unknown;
+  connect: () => Promise<unknown>;
+  disconnect: () => Promise<unknown>;
+  join: (channel: string) => Promise<unknown>;
+  part: (channel: string) => Promise<unknown>;
+};
+
+export type IrcConnectionPoolOptions = {
+  createClient?: (identity: IrcIdentity | null) => IrcClient;
+  channelsPerConnection?: number;
+  /** Twitch allows 20 JOINs (and 20 logins) per 10 seconds per account. */
+  joinsPerWindow?: number;
+  joinWindowMs?: number;
+};
+
+export type IrcPoolStats = {
+  connections: Array<{ identity: string; channels: string[] }>;
+  queuedJoins: number;
+};
+
+type PooledConnection = {
+  key: string;
+  client: IrcClient;
+  channels: Set<string>;
+  ready: Promise<void>;
+};
+
+const DEFAULT_CHANNELS_PER_CONNECTION = 50;
+const DEFAULT_JOINS_PER_WINDOW = 20;
+const DEFAULT_JOIN_WINDOW_MS = 10_000;
+const ANONYMOUS_KEY = "anonymous";
+
+const connectionConfig = {
+  reconnect: true,
+  secure: true,
+  timeout: 60000,
+  reconnectInterval: 10000,
+  maxReconnectInterval: 60000,
+};
+
+function normalizeChannel(channel: string) {
+  return `#${channel.replace(/^#/, "").toLowerCase()}`;
+}
+
+function createTmiClient(identity: IrcIdentity | null): IrcClient {
+  return new tmi.Client({
+    identity: identity
+      ? { username: identity.username, password: () => `oauth:${identity.getToken() ?? ""}` }
+      : undefined,
+    channels: [],
+    options: { debug: false },
+    connection: connectionConfig,
+    logger: {
+      info: () => {},
+      warn: (message: unknown) => console.warn(`[twitch warning] ${message}`),
+      error: (message: unknown) => console.error(`[twitch error] ${message}`),
+    },
+  }) as unknown as IrcClient;
+}
+
+/** Sliding-window limiter; callers queue in order until a slot frees up. */
+export class SlidingWindowLimiter {
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private stamps: number[] = [];
+  private chain: Promise<void> = Promise.resolve();
+  private waiting = 0;
+
+  constructor(limit: number, windowMs: number) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  get queued() {
+    return this.waiting;
+  }
+
+  acquire() {
+    this.waiting += 1;
+    const slot = this.chain.then(async () => {
+      for (;;) {
+        const now = Date.now();
+        this.stamps = this.stamps.filter((at) => now - at < this.windowMs);
+        if (this.stamps.length < this.limit) {
+          this.stamps.push(now);
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.stamps[0] + this.windowMs - now));
+      }
+    });
+    this.chain = slot.finally(() => {
+      this.waiting -= 1;
+    });
+    return slot;
+  }
+}
+
+/**
+ * Twitch IRC connections shared by every channel in the process. Channels that
+ * log in as the same account (or anonymously) ride the same socket, up to
+ * `channelsPerConnection` each, and every login and JOIN goes through one
+ * limiter so a mass restart cannot trip Twitch's rate limits.
+ */
+export class IrcConnectionPool {
+  private readonly createClient: (identity: IrcIdentity | null) => IrcClient;
+  private readonly channelsPerConnection: number;
+  private readonly limiter: SlidingWindowLimiter;
+  private readonly connections: PooledConnection[] = [];
+  private readonly listeners = new Map<string, IrcChannelListener>();
+
+  constructor(options: IrcConnectionPoolOptions = {}) {
+    this.createClient = options.createClient ?? createTmiClient;
+    this.channelsPerConnection = options.channelsPerConnection ?? DEFAULT_CHANNELS_PER_CONNECTION;
+    this.limiter = new SlidingWindowLimiter(
+      options.joinsPerWindow ?? DEFAULT_JOINS_PER_WINDOW,
+      options.joinWindowMs ?? DEFAULT_JOIN_WINDOW_MS
+    );
+  }
+
+  /**
+   * Joins `channel` on a connection for `identity` (null for anonymous).
+   * Rejects with tmi's error if a new connection cannot log in.
+   */
+  async join(channel: string, identity: IrcIdentity | null, listener: IrcChannelListener) {
+    const name = normalizeChannel(channel);
+    if (this.listeners.has(name)) {
+      throw new Error(`${name} is already joined`);
+    }
+
+    const connection = this.connectionFor(identity);
+    connection.channels.add(name);
+    this.listeners.set(name, listener);
+    try {
+      await connection.ready;
+      await this.limiter.acquire();
+      await connection.client.join(name);
+    } catch (error) {
+      this.detach(connection, name);
+      throw error;
+    }
+  }
+
+  async leave(channel: string) {
+    const name = normalizeChannel(channel);
+    const connection = this.connections.find((entry) => entry.channels.has(name));
+    if (!connection) {
+      this.listeners.delete(name);
+      return;
+    }
+    const closed = this.detach(connection, name);
+    if (!closed) {
+      await connection.client.part(name).catch(() => {});
+    }
+  }
+
+  async closeAll() {
+    const connections = this.connections.splice(0, this.connections.length);
+    this.listeners.clear();
+    await Promise.all(
+      connections.map(async (connection) => {
+        connection.client.removeAllListeners();
+        await connection.client.disconnect().catch(() => {});
+      })
+    );
+  }
+
+  stats(): IrcPoolStats {
+    return {
+      connections: this.connections.map((connection) => ({
+        identity: connection.key,
+        channels: Array.from(connection.channels),
+      })),
+      queuedJoins: this.limiter.queued,
+    };
+  }
+
+  /** Drops the channel; closes the connection once nothing is left on it. */
+  private detach(connection: PooledConnection, name: string) {
+    connection.channels.delete(name);
+    this.listeners.delete(name);
+    if (connection.channels.size > 0) {
+      return false;
+    }
+    const index = this.connections.indexOf(connection);
+    if (index >= 0) {
+      this.connections.splice(index, 1);
+    }
+    connection.client.removeAllListeners();
+    void connection.client.disconnect().catch(() => {});
+    return true;
+  }
+
+  private connectionFor(identity: IrcIdentity | null) {
+    const key = identity ? identity.username.toLowerCase() : ANONYMOUS_KEY;
+    const existing = this.connections.find(
+      (connection) => connection.key === key && connection.channels.size < this.channelsPerConnection
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const client = this.createClient(identity);
+    const connection: PooledConnection = {
+      key,
+      client,
+      channels: new Set(),
+      ready: Promise.resolve(),
+    };
+    this.wire(connection);
+    connection.ready = this.limiter.acquire().then(async () => {
+      try {
+        await client.connect();
+      } catch (error) {
+        // Channels waiting on this connection see the same error and detach.
+        const index = this.connections.indexOf(connection);
+        if (index >= 0) {
+          this.connections.splice(index, 1);
+        }
+        client.removeAllListeners();
+        throw error;
+      }
+    });
+    this.connections.push(connection);
+    return connection;
+  }
+
+  private wire(connection: PooledConnection) {
+    const { client, key } = connection;
+    const listenerFor = (channel: string | undefined) =>
+      channel && connection.channels.has(normalizeChannel(channel))
+        ? this.listeners.get(normalizeChannel(channel))
+        : undefined;
+
+    client.on("join", (channel: string, _username: string, self: boolean) => {
+      if (self) {
+        listenerFor(channel)?.joined();
+      }
+    });
+
+    client.on("disconnected", (reason: string) => {
+      for (const name of connection.channels) {
+        this.listeners.get(name)?.disconnected(reason);
+      }
+    });
+
+    client.on("reconnect", () => {
+      console.warn(`[twitch] Attempting to reconnect (${key}, ${connection.channels.size} channels)…`);
+    });
+
+    client.on("ping", () => {
+      if (typeof console.debug === "function") {
+        console.debug("[twitch] Ping sent");
+      }
+    });
+
+    client.on("pong", (latency: number) => {
+      if (typeof console.debug === "function") {
+        console.debug(`[twitch] Pong received (${latency}ms)`);
+      }
+    });
+
+    client.on("message", (channel: string, tags: Tags, message: string, self: boolean) => {
+      listenerFor(channel)?.message(tags, message, self);
+    });
+
+    client.on("cheer", (channel: string, tags: Tags, message: string) => {
+      listenerFor(channel)?.cheer(tags, message);
+    });
+
+    client.on("raw_message", (_cloned: unknown, raw: IrcRawMessage) => {
+      listenerFor(raw.params?.[0])?.raw(raw);
+    });
+  }
+}
@@ -0,0 +1,295 @@
+export type LiveFeedDeliveryResult =
+  | { ok: true }
+  | { ok: false; retryable: boolean; status?: number; error?: string };
+
+export type LiveFeedDeliver = (
+  channel: string,
+  updates: Record<string, unknown>[]
+) => Promise<LiveFeedDeliveryResult>;
+
+export type LiveFeedOutboxOptions = {
+  deliver: LiveFeedDeliver;
+  flushIntervalMs?: number;
+  maxQueueSize?: number;
+  maxBatchSize?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+};
+
+export type LiveFeedOutboxStats = {
+  queueDepth: number;
+  channels: Record<string, { depth: number; attempts: number; nextAttemptAt: number | null }>;
+  delivered: number;
+  failedAttempts: number;
+  dropped: {
+    superseded: number;
+    overflow: number;
+    rejected: number;
+  };
+};
+
+type QueuedUpdate = {
+  update: Record<string, unknown>;
+  type: string | null;
+  enqueuedAt: number;
+};
+
+type ChannelQueue = {
+  items: QueuedUpdate[];
+  inFlight: boolean;
+  attempts: number;
+  nextAttemptAt: number;
+};
+
+// Only the newest of these matters to the dashboard, so older copies are the
+// first thing to go when the outbox is full.
+const SNAPSHOT_TYPES = new Set(["metrics", "audience", "tokens", "ai-mood"]);
+// Losing these would leave the dashboard showing the wrong session.
+const PROTECTED_TYPES = new Set(["reset", "session", "raw-capped"]);
+
+const DEFAULT_FLUSH_INTERVAL_MS = 250;
+const DEFAULT_MAX_QUEUE_SIZE = 2000;
+const DEFAULT_MAX_BATCH_SIZE = 200;
+const DEFAULT_BASE_BACKOFF_MS = 500;
+const DEFAULT_MAX_BACKOFF_MS = 30_000;
+
+function updateType(update: Record<string, unknown>) {
+  return typeof update.type === "string" ? update.type : null;
+}
+
+function oldestSupersededSnapshot(items: QueuedUpdate[]) {
+  const newerTypes = new Set<string>();
+  let oldest = -1;
+  for (let index = items.length - 1; index >= 0; index -= 1) {
+    const type = items[index].type;
+    if (type === null || !SNAPSHOT_TYPES.has(type)) {
+      continue;
+    }
+    if (newerTypes.has(type)) {
+      oldest = index;
+    }
+    newerTypes.add(type);
+  }
+  return oldest;
+}
+
+/**
+ * Bounded, per-channel queue for worker → dashboard updates. Updates are
+ * coalesced into one signed POST per channel per flush; failed batches stay at
+ * the head of the queue and are retried with exponential backoff and jitter.
+ */
+export class LiveFeedOutbox {
+  private readonly deliver: LiveFeedDeliver;
+  private readonly flushIntervalMs: number;
+  private readonly maxQueueSize: number;
+  private readonly maxBatchSize: number;
+  private readonly baseBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly queues = new Map<string, ChannelQueue>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private depth = 0;
+  private delivered = 0;
+  private failedAttempts = 0;
+  private readonly dropped = { superseded: 0, overflow: 0, rejected: 0 };
+
+  constructor(options: LiveFeedOutboxOptions) {
+    this.deliver = options.deliver;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.baseBackoffMs = options.baseBackoffMs ?? DEFAULT_BASE_BACKOFF_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, this.flushIntervalMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  enqueue(channel: string, updates: Record<string, unknown>[]) {
+    if (updates.length === 0) {
+      return;
+    }
+    const queue = this.getQueue(channel);
+    const now = Date.now();
+    for (const update of updates) {
+      queue.items.push({ update, type: updateType(update), enqueuedAt: now });
+      this.depth += 1;
+    }
+    while (this.depth > this.maxQueueSize && this.evictOne()) {
+      // keep evicting until we are back under the cap
+    }
+    this.start();
+  }
+
+  /** Attempts every channel whose backoff has elapsed. */
+  async flush(now = Date.now()) {
+    const pending: Promise<void>[] = [];
+    for (const [channel, queue] of this.queues) {
+      if (queue.inFlight || queue.items.length === 0 || queue.nextAttemptAt > now) {
+        continue;
+      }
+      pending.push(this.flushChannel(channel, queue));
+    }
+    await Promise.all(pending);
+  }
+
+  /**
+   * Keeps flushing until the queue is empty or `timeoutMs` elapses, ignoring
+   * backoff. Used on shutdown so the final session update isn't lost.
+   */
+  async drain(timeoutMs: number) {
+    const deadline = Date.now() + timeoutMs;
+    while (this.depth > 0 && Date.now() < deadline) {
+      for (const queue of this.queues.values()) {
+        queue.nextAttemptAt = 0;
+      }
+      await this.flush();
+      if (this.depth > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.flushIntervalMs));
+      }
+    }
+    return this.depth === 0;
+  }
+
+  stats(): LiveFeedOutboxStats {
+    const channels: LiveFeedOutboxStats["channels"] = {};
+    for (const [channel, queue] of this.queues) {
+      channels[channel] = {
+        depth: queue.items.length,
+        attempts: queue.attempts,
+        nextAttemptAt: queue.attempts > 0 ? queue.nextAttemptAt : null,
+      };
+    }
+    return {
+      queueDepth: this.depth,
+      channels,
+      delivered: this.delivered,
+      failedAttempts: this.failedAttempts,
+      dropped: { ...this.dropped },
+    };
+  }
+
+  private async flushChannel(channel: string, queue: ChannelQueue) {
+    queue.inFlight = true;
+    const batch = queue.items.slice(0, this.maxBatchSize);
+
+    let result: LiveFeedDeliveryResult;
+    try {
+      result = await this.deliver(channel, batch.map((item) => item.update));
+    } catch (error) {
+      result = {
+        ok: false,
+        retryable: true,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      queue.inFlight = false;
+    }
+
+    if (result.ok || !result.retryable) {
+      // Items may have been evicted while the request was in flight, so remove
+      // exactly the ones we sent rather than a prefix.
+      const sent = new Set(batch);
+      const before = queue.items.length;
+      queue.items = queue.items.filter((item) => !sent.has(item));
+      const removed = before - queue.items.length;
+      this.depth -= removed;
+      queue.attempts = 0;
+      queue.nextAttemptAt = 0;
+
+      if (result.ok) {
+        this.delivered += removed;
+      } else {
+        this.dropped.rejected += removed;
+        console.warn("[live-feed] Dropping rejected batch", {
+          channel,
+          status: result.status ?? null,
+          count: removed,
+          error: result.error ?? null,
+        });
+      }
+      return;
+    }
+
+    this.failedAttempts += 1;
+    queue.attempts += 1;
+    const delay = this.backoffDelay(queue.attempts);
+    queue.nextAttemptAt = Date.now() + delay;
+    console.warn("[live-feed] Delivery failed; will retry", {
+      channel,
+      status: result.status ?? null,
+      attempt: queue.attempts,
+      retryInMs: delay,
+      queueDepth: queue.items.length,
+      error: result.error ?? null,
+    });
+  }
+
+  private backoffDelay(attempt: number) {
+    const ceiling = Math.min(this.maxBackoffMs, this.baseBackoffMs * 2 ** (attempt - 1));
+    // Equal jitter: never retry immediately, but spread reconnecting workers out.
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  /**
+   * Frees one slot, preferring (1) snapshots that a newer copy of the same type
+   * already supersedes, (2) the oldest chat line, (3) the oldest unprotected
+   * update, and only then (4) the oldest update of any kind.
+   */
+  private evictOne() {
+    return (
+      this.evictOldest(oldestSupersededSnapshot, "superseded") ||
+      this.evictOldest((items) => items.findIndex((item) => item.type === "chat"), "overflow") ||
+      this.evictOldest(
+        (items) => items.findIndex((item) => item.type === null || !PROTECTED_TYPES.has(item.type)),
+        "overflow"
+      ) ||
+      this.evictOldest((items) => (items.length > 0 ? 0 : -1), "overflow")
+    );
+  }
+
+  private evictOldest(
+    pick: (items: QueuedUpdate[]) => number,
+    reason: "superseded" | "overflow"
+  ) {
+    let victim: { queue: ChannelQueue; index: number } | null = null;
+    for (const queue of this.queues.values()) {
+      const index = pick(queue.items);
+      if (index < 0) {
+        continue;
+      }
+      if (!victim || queue.items[index].enqueuedAt < victim.queue.items[victim.index].enqueuedAt) {
+        victim = { queue, index };
+      }
+    }
+    if (!victim) {
+      return false;
+    }
+    victim.queue.items.splice(victim.index, 1);
+    this.depth -= 1;
+    this.dropped[reason] += 1;
+    return true;
+  }
+
+  private getQueue(channel: string) {
+    let queue = this.queues.get(channel);
+    if (!queue) {
+      queue = { items: [], inFlight: false, attempts: 0, nextAttemptAt: 0 };
+      this.queues.set(channel, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,247 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricKind = "counter" | "gauge" | "histogram";
+
+type HistogramSeries = {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+};
+
+// Seconds; covers a fast Convex mutation through a slow LLM call.
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function seriesKey(labels: MetricLabels) {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}=${labels[name]}`)
+    .join(",");
+}
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels, extra?: MetricLabels) {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number) {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function matchesLabels(labels: MetricLabels, filter: MetricLabels) {
+  return Object.entries(filter).every(([name, value]) => labels[name] === value);
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  abstract readonly kind: MetricKind;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  abstract forget(filter: MetricLabels): void;
+  protected abstract renderSeries(): string[];
+
+  render() {
+    const lines = this.renderSeries();
+    if (lines.length === 0) {
+      return "";
+    }
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.kind}`, ...lines].join("\n");
+  }
+}
+
+class ValueMetric extends Metric {
+  readonly kind: "counter" | "gauge";
+  private readonly series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(kind: "counter" | "gauge", name: string, help: string) {
+    super(name, help);
+    this.kind = kind;
+  }
+
+  protected entry(labels: MetricLabels) {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: 0 };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  forget(filter: MetricLabels) {
+    for (const [key, entry] of this.series) {
+      if (matchesLabels(entry.labels, filter)) {
+        this.series.delete(key);
+      }
+    }
+  }
+
+  protected renderSeries() {
+    return Array.from(this.series.values()).map(
+      (entry) => `${this.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`
+    );
+  }
+}
+
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string) {
+    super("counter", name, help);
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1) {
+    this.entry(labels).value += amount;
+  }
+
+  /** Mirrors a running total kept by another component. */
+  set(labels: MetricLabels, total: number) {
+    this.entry(labels).value = total;
+  }
+}
+
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string) {
+    super("gauge", name, help);
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.entry(labels).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1) {
+    this.entry(labels).value += amount;
+  }
+}
+
+export class Histogram extends Metric {
+  readonly kind = "histogram" as const;
+  private readonly bounds: number[];
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, bounds: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help);
+    this.bounds = [...bounds].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    if (index >= 0) {
+      entry.buckets[index] += 1;
+    }
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  /** Times `run` in seconds under `labels` plus an `outcome` of ok or error. */
+  async time<T>(labels: MetricLabels, run: () => Promise<T>): Promise<T> {
+    const startedAt = performance.now();
+    try {
+      const result = await run();
+      this.observe({ ...labels, outcome: "ok" }, (performance.now() - startedAt) / 1000);
+      return result;
+    } catch (error) {
+      this.observe({ ...labels, outcome: "error" }, (performance.now() - startedAt) / 1000);
+      throw error;
+    }
+  }
+
+  forget(filter: MetricLabels) {
+    for (const [key, entry] of this.series) {
+      if (matchesLabels(entry.labels, filter)) {
+        this.series.delete(key);
+      }
+    }
+  }
+
+  protected renderSeries() {
+    const lines: string[] = [];
+    for (const entry of this.series.values()) {
+      let cumulative = 0;
+      this.bounds.forEach((bound, index) => {
+        cumulative += entry.buckets[index];
+        lines.push(`${this.name}_bucket${formatLabels(entry.labels, { le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(entry.labels, { le: "+Inf" })} ${entry.count}`);
+      lines.push(`${this.name}_sum${formatLabels(entry.labels)} ${formatValue(entry.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Just enough of the Prometheus client model for the worker: labelled
+ * counters, gauges and histograms rendered in the text exposition format.
+ * Gauges that are cheaper to read than to track go in `onCollect` hooks.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+  private readonly collectors = new Set<() => void>();
+
+  counter(name: string, help: string) {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string) {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, bounds?: number[]) {
+    return this.register(new Histogram(name, help, bounds));
+  }
+
+  /** Runs before every render; returns a function that removes the hook. */
+  onCollect(collect: () => void) {
+    this.collectors.add(collect);
+    return () => {
+      this.collectors.delete(collect);
+    };
+  }
+
+  /** Drops every series carrying these labels, e.g. a channel that was removed. */
+  forget(filter: MetricLabels) {
+    this.metrics.forEach((metric) => metric.forget(filter));
+  }
+
+  render() {
+    this.collectors.forEach((collect) => {
+      try {
+        collect();
+      } catch (error) {
+        console.warn("[metrics] Collector failed", error);
+      }
+    });
+    const blocks = Array.from(this.metrics.values())
+      .map((metric) => metric.render())
+      .filter((block) => block.length > 0);
+    return blocks.length > 0 ? `${blocks.join("\n")}\n` : "";
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
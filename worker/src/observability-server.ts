@@ -0,0 +1,71 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import type { MetricsRegistry } from "./metrics-registry.ts";
+
+export type HealthStatus = "starting" | "ok" | "degraded" | "stopping";
+
+export type HealthReport = { status: HealthStatus } & Record<string, unknown>;
+
+export type ObservabilityServerOptions = {
+  port: number;
+  host?: string;
+  registry: MetricsRegistry;
+  health: () => HealthReport;
+  /** When set, `/metrics` requires `Authorization: Bearer <token>`. */
+  metricsToken?: string | null;
+};
+
+const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function hasBearerToken(request: IncomingMessage, token: string) {
+  const header = request.headers.authorization ?? "";
+  const provided = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * `/metrics` in the Prometheus text format and `/healthz` as JSON. Health
+ * answers 503 only while the worker is starting or stopping; a degraded
+ * channel is reported in the body but does not make the host restart us.
+ */
+export function startObservabilityServer(options: ObservabilityServerOptions): Promise<Server> {
+  const server = createServer((request, response) => {
+    const pathname = new URL(request.url ?? "/", "http://localhost").pathname;
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+
+    if (pathname === "/metrics") {
+      if (options.metricsToken && !hasBearerToken(request, options.metricsToken)) {
+        response.writeHead(401, { "WWW-Authenticate": "Bearer" }).end();
+        return;
+      }
+      response.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE });
+      response.end(request.method === "HEAD" ? undefined : options.registry.render());
+      return;
+    }
+
+    if (pathname === "/healthz") {
+      const report = options.health();
+      const healthy = report.status === "ok" || report.status === "degraded";
+      response.writeHead(healthy ? 200 : 503, {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      });
+      response.end(request.method === "HEAD" ? undefined : JSON.stringify(report));
+      return;
+    }
+
+    response.writeHead(404).end();
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,258 @@
+import { randomUUID } from "crypto";
+import { parseCheer, parseUserNotice } from "../../src/lib/twitch/channel-events.ts";
+import {
+  applyRoomState,
+  parseClearChat,
+  parseClearMsg,
+  type RoomState,
+} from "../../src/lib/twitch/moderation.ts";
+import type {
+  ChatSource,
+  ChatSourceEmote,
+  ChatSourceHandlers,
+  ChatSourceMessage,
+} from "./chat-source.ts";
+import type { IrcChannelListener, IrcConnectionPool, IrcIdentity } from "./irc-pool.ts";
+
+export type AuthMode = "oauth" | "anonymous";
+type Tags = Record<string, any>;
+
+export type TwitchChatSourceOptions = {
+  channel: string;
+  username: string;
+  getAccessToken: () => string | null;
+  /** Leases a new token when the current one is close to expiry, or always with `force`. */
+  ensureFreshToken: (force?: boolean) => Promise<void>;
+  pool: IrcConnectionPool;
+};
+
+function isAuthFailure(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.toLowerCase().includes("authentication failed");
+}
+
+function describeAuthMode(mode: AuthMode) {
+  return mode === "oauth" ? "authenticated" : "anonymous";
+}
+
+export function extractEmotes(message: string, tags: Tags) {
+  const raw = tags.emotes;
+  if (!raw) {
+    return [];
+  }
+
+  const emoteTag =
+    typeof raw === "string"
+      ? raw
+      : Array.isArray(raw)
+        ? raw.join("/")
+        : String(raw);
+
+  if (!emoteTag || emoteTag === "null") {
+    return [];
+  }
+
+  const emotes: ChatSourceEmote[] = [];
+  const segments = emoteTag.split("/");
+  segments.forEach((segment) => {
+    const [emoteId, ranges] = segment.split(":");
+    if (!ranges) return;
+    ranges.split(",").forEach((range) => {
+      const [start, end] = range.split("-").map((value) => Number.parseInt(value, 10));
+      if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end < start) {
+        return;
+      }
+      const code = message.slice(start, end + 1);
+      if (code) {
+        emotes.push({
+          code,
+          id: emoteId ?? null,
+          imageUrl: null,
+          start,
+          end,
+        });
+      } else if (emoteId) {
+        emotes.push({
+          code: emoteId,
+          id: emoteId,
+          imageUrl: null,
+          start,
+          end,
+        });
+      }
+    });
+  });
+  return emotes;
+}
+
+function toChatSourceMessage(tags: Tags, message: string): ChatSourceMessage {
+  const authorDisplay = (tags["display-name"] as string) ?? (tags.username as string) ?? "anon";
+  const sentAt = Number.parseInt((tags["tmi-sent-ts"] as string | undefined) ?? "", 10);
+  return {
+    platform: "twitch",
+    messageId: (tags.id as string) ?? randomUUID(),
+    authorId: (tags["user-id"] as string | undefined) ?? null,
+    authorLogin: (tags.username as string | undefined) ?? authorDisplay,
+    authorDisplay,
+    text: message,
+    timestamp: Number.isFinite(sentAt) ? sentAt : Date.now(),
+    sentAt: Number.isFinite(sentAt) ? sentAt : null,
+    emotes: extractEmotes(message, tags),
+    badges: Object.keys((tags.badges as Record<string, string> | null) ?? {}),
+  };
+}
+
+/**
+ * Twitch IRC for one channel over the process-wide connection pool. Prefers an
+ * OAuth login, retries once after a forced token refresh, and falls back to
+ * an anonymous read-only connection.
+ */
+export class TwitchChatSource implements ChatSource {
+  readonly platform = "twitch" as const;
+  readonly channel: string;
+  private readonly options: TwitchChatSourceOptions;
+  private mode: AuthMode = "anonymous";
+  private roomState: RoomState | null = null;
+  private joined = false;
+
+  constructor(options: TwitchChatSourceOptions) {
+    this.options = options;
+    this.channel = options.channel;
+  }
+
+  get authMode() {
+    return this.mode;
+  }
+
+  async connect(handlers: ChatSourceHandlers) {
+    await this.joinPreferred(handlers);
+    this.joined = true;
+  }
+
+  async disconnect() {
+    if (!this.joined) {
+      return;
+    }
+    this.joined = false;
+    await this.options.pool.leave(this.channel);
+  }
+
+  private listener(handlers: ChatSourceHandlers): IrcChannelListener {
+    return {
+      joined: async () => {
+        try {
+          if (this.mode === "oauth") {
+            await this.options.ensureFreshToken();
+          }
+          console.log(`[twitch] Connected to #${this.channel} (${describeAuthMode(this.mode)} mode)`);
+          await handlers.connected();
+        } catch (error) {
+          console.error("[ingestion] Failed to start session", error);
+        }
+      },
+      disconnected: () => {
+        console.warn(`[twitch] Disconnected from #${this.channel}`);
+        void handlers.disconnected();
+      },
+      raw: (raw) => {
+        const tags = raw.tags ?? {};
+        switch (raw.command) {
+          case "USERNOTICE": {
+            const event = parseUserNotice(tags, raw.params?.[1] ?? null);
+            if (event) {
+              void handlers.channelEvent?.(event);
+            }
+            return;
+          }
+          case "CLEARMSG": {
+            const action = parseClearMsg(tags);
+            if (action) {
+              void handlers.moderation(action);
+            }
+            return;
+          }
+          case "CLEARCHAT":
+            void handlers.moderation(parseClearChat(tags, raw.params?.[1] ?? null));
+            return;
+          case "ROOMSTATE":
+            this.roomState = applyRoomState(this.roomState, tags);
+            handlers.roomState?.(this.roomState);
+            return;
+          default:
+            return;
+        }
+      },
+      cheer: (tags, message) => {
+        const event = parseCheer(tags, message ?? "");
+        if (event) {
+          void handlers.channelEvent?.(event);
+        }
+      },
+      message: async (tags, message, self) => {
+        if (self) return;
+
+        if (this.mode === "oauth") {
+          try {
+            await this.options.ensureFreshToken();
+          } catch (error) {
+            console.error("[twitch] Token refresh failed", error);
+            return;
+          }
+        }
+
+        await handlers.message(toChatSourceMessage(tags, message));
+      },
+    };
+  }
+
+  private oauthIdentity(): IrcIdentity {
+    return { username: this.options.username, getToken: this.options.getAccessToken };
+  }
+
+  private async joinPreferred(handlers: ChatSourceHandlers) {
+    const { pool } = this.options;
+    if (this.options.getAccessToken()) {
+      try {
+        await this.options.ensureFreshToken();
+        this.mode = "oauth";
+        await pool.join(this.channel, this.oauthIdentity(), this.listener(handlers));
+        return;
+      } catch (error) {
+        if (isAuthFailure(error)) {
+          console.warn("[twitch] OAuth login failed. Attempting token refresh…");
+          try {
+            await this.options.ensureFreshToken(true);
+            if (this.options.getAccessToken()) {
+              try {
+                this.mode = "oauth";
+                await pool.join(this.channel, this.oauthIdentity(), this.listener(handlers));
+                return;
+              } catch (retryError) {
+                console.warn(
+                  "[twitch] Authentication still failing after refresh. Falling back to anonymous mode."
+                );
+              }
+            } else {
+              console.warn(
+                "[twitch] Could not refresh user token. Falling back to anonymous Twitch connection."
+              );
+            }
+          } catch (refreshError) {
+            console.warn(
+              "[twitch] Token refresh failed after authentication error. Falling back to anonymous connection.",
+              refreshError
+            );
+          }
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    this.mode = "anonymous";
+    await pool.join(this.channel, null, this.listener(handlers));
+    console.warn(
+      "[twitch] Connected in anonymous mode. Metrics streaming continues, but chat actions are read-only."
+    );
+  }
+}
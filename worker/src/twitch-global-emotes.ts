@@ -0,0 +1,111 @@
+const GLOBAL_EMOTES_URL = "https://api.twitch.tv/helix/chat/emotes/global";
+
+export type GlobalEmoteLoadResult = "loaded" | "unauthorized" | "failed";
+
+export type TwitchGlobalEmotesOptions = {
+  clientId: string;
+  /** Injected by tests so nothing reaches api.twitch.tv. */
+  fetch?: typeof fetch;
+};
+
+/**
+ * Twitch's global emotes are the same for every channel, so one map serves the
+ * whole process. Whether a load *failed* is the caller's business: a channel
+ * whose token is rejected must not stop the others from loading it with
+ * theirs.
+ */
+export class TwitchGlobalEmotes {
+  private readonly clientId: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly ids = new Map<string, string>();
+  private loaded = false;
+  private loading: Promise<GlobalEmoteLoadResult> | null = null;
+
+  constructor(options: TwitchGlobalEmotesOptions) {
+    this.clientId = options.clientId;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  get isLoaded() {
+    return this.loaded;
+  }
+
+  resolveId(code: string | null | undefined) {
+    if (!code) {
+      return null;
+    }
+    return this.ids.get(code.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Loads the map with `accessToken` unless it is already loaded. A load that
+   * another channel has in flight is awaited first; if it fails, this channel
+   * tries its own token, so the result always speaks for the caller's token.
+   */
+  async ensureLoaded(accessToken: string, channel: string): Promise<GlobalEmoteLoadResult> {
+    while (!this.loaded) {
+      if (this.loading) {
+        await this.loading;
+        continue;
+      }
+      this.loading = this.load(accessToken, channel).finally(() => {
+        this.loading = null;
+      });
+      return this.loading;
+    }
+    return "loaded";
+  }
+
+  private async load(accessToken: string, channel: string): Promise<GlobalEmoteLoadResult> {
+    try {
+      const ids = new Map<string, string>();
+      let cursor: string | undefined;
+      do {
+        const url = new URL(GLOBAL_EMOTES_URL);
+        if (cursor) {
+          url.searchParams.set("after", cursor);
+        }
+
+        const response = await this.fetchImpl(url.toString(), {
+          headers: {
+            "Client-Id": this.clientId,
+            Authorization: `Bearer ${accessToken}`,
+          },
+        });
+
+        if (!response.ok) {
+          if (response.status === 401 || response.status === 403) {
+            console.warn(
+              `[twitch:${channel}] Unable to refresh global emote map (status ${response.status}).`
+            );
+            return "unauthorized";
+          }
+          const text = await response.text();
+          throw new Error(`Failed to fetch global emotes: ${response.status} ${text}`);
+        }
+
+        const json: {
+          data?: Array<{ id: string; name: string }>;
+          pagination?: { cursor?: string };
+        } = await response.json();
+
+        json.data?.forEach((entry) => {
+          if (entry?.id && entry?.name) {
+            ids.set(entry.name.toLowerCase(), entry.id);
+          }
+        });
+
+        cursor = json.pagination?.cursor ?? undefined;
+      } while (cursor);
+
+      for (const [code, id] of ids) {
+        this.ids.set(code, id);
+      }
+      this.loaded = true;
+      return "loaded";
+    } catch (error) {
+      console.warn(`[twitch:${channel}] Failed to load global emote map`, error);
+      return "failed";
+    }
+  }
+}
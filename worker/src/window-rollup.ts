@@ -0,0 +1,169 @@
+export const WINDOW_MS = 5 * 1000;
+const WINDOW_CLOSE_GRACE_MS = 1000;
+const WINDOW_TOP_LIMIT = 10;
+// Polled sources deliver lines well after they were sent (YouTube polls every
+// 10s or more), so closed windows keep their records this long and reopen when
+// a late line lands in them.
+export const WINDOW_LATE_RETENTION_MS = 2 * 60 * 1000;
+
+type SentimentLabel = "positive" | "neutral" | "negative";
+
+/** The parts of an ingested message a window summarizes. */
+export type WindowRecord = {
+  timestamp: number;
+  authorHash: string;
+  tokens: string[];
+  emotes: Array<{ code: string; id?: string | null }>;
+  sentiment: number;
+  /** Set when a moderator deletes the message or times out/bans its author. */
+  moderated?: boolean;
+};
+
+type OpenWindow = {
+  windowStart: number;
+  // Kept until close so messages moderated mid-window can still be excluded.
+  records: WindowRecord[];
+};
+
+export type ClosedWindow = {
+  windowStart: number;
+  windowEnd: number;
+  messageCount: number;
+  uniqueChatters: number;
+  topTokens: Array<{ token: string; count: number }>;
+  topEmotes: Array<{ emote: string; count: number }>;
+  sentimentScore: number;
+  sentimentLabel: SentimentLabel;
+  sentimentStatus: "ok";
+};
+
+function labelSentiment(score: number): SentimentLabel {
+  if (score > 0.05) {
+    return "positive";
+  }
+  if (score < -0.05) {
+    return "negative";
+  }
+  return "neutral";
+}
+
+function topEntries(counts: Map<string, number>) {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, WINDOW_TOP_LIMIT);
+}
+
+/**
+ * Buckets ingested messages into fixed WINDOW_MS slices aligned to the epoch so
+ * that a reconnecting worker produces the same window boundaries it did before.
+ * A late message reopens its window, which is emitted again on the next close
+ * with the higher count; `recordWindow` keeps whichever copy covers more.
+ */
+export class WindowRollup {
+  private open = new Map<number, OpenWindow>();
+  private closed = new Map<number, OpenWindow>();
+  private closedThrough = 0;
+  private streamAuthors = new Set<string>();
+
+  reset() {
+    this.open.clear();
+    this.closed.clear();
+    this.closedThrough = 0;
+    this.streamAuthors.clear();
+  }
+
+  get uniqueChatters() {
+    return this.streamAuthors.size;
+  }
+
+  add(record: WindowRecord) {
+    const windowStart = Math.floor(record.timestamp / WINDOW_MS) * WINDOW_MS;
+    let window = this.open.get(windowStart);
+    if (!window && windowStart < this.closedThrough) {
+      if (windowStart < this.closedThrough - WINDOW_LATE_RETENTION_MS) {
+        return;
+      }
+      window = this.closed.get(windowStart);
+      this.closed.delete(windowStart);
+    }
+    if (!window) {
+      window = { windowStart, records: [] };
+    }
+    this.open.set(windowStart, window);
+
+    window.records.push(record);
+    this.streamAuthors.add(record.authorHash);
+  }
+
+  closeExpired(now: number): ClosedWindow[] {
+    return this.close((window) => window.windowStart + WINDOW_MS + WINDOW_CLOSE_GRACE_MS <= now);
+  }
+
+  closeAll(): ClosedWindow[] {
+    return this.close(() => true);
+  }
+
+  private close(predicate: (window: OpenWindow) => boolean): ClosedWindow[] {
+    const closed: ClosedWindow[] = [];
+    const starts = Array.from(this.open.keys()).sort((a, b) => a - b);
+    for (const start of starts) {
+      const window = this.open.get(start);
+      if (!window || !predicate(window)) {
+        continue;
+      }
+      this.open.delete(start);
+      this.closed.set(start, window);
+      this.closedThrough = Math.max(this.closedThrough, start + WINDOW_MS);
+
+      const authors = new Set<string>();
+      const tokenCounts = new Map<string, number>();
+      const emoteCounts = new Map<string, number>();
+      let sentimentTotal = 0;
+      let sentimentSamples = 0;
+
+      for (const record of window.records) {
+        authors.add(record.authorHash);
+        if (record.moderated) {
+          continue;
+        }
+        sentimentTotal += record.sentiment;
+        sentimentSamples += 1;
+
+        const emoteCodes = new Set(record.emotes.map((emote) => emote.code.toLowerCase()));
+        record.tokens.forEach((token) => {
+          if (emoteCodes.has(token)) {
+            return;
+          }
+          tokenCounts.set(token, (tokenCounts.get(token) ?? 0) + 1);
+        });
+        record.emotes.forEach((emote) => {
+          const code = emote.code || emote.id || "";
+          if (!code) {
+            return;
+          }
+          emoteCounts.set(code, (emoteCounts.get(code) ?? 0) + 1);
+        });
+      }
+
+      const sentimentScore = Math.min(Math.max(sentimentTotal / (sentimentSamples || 1), -1), 1);
+      closed.push({
+        windowStart: start,
+        windowEnd: start + WINDOW_MS,
+        messageCount: window.records.length,
+        uniqueChatters: authors.size,
+        topTokens: topEntries(tokenCounts).map(([token, count]) => ({ token, count })),
+        topEmotes: topEntries(emoteCounts).map(([emote, count]) => ({ emote, count })),
+        sentimentScore,
+        sentimentLabel: labelSentiment(sentimentScore),
+        sentimentStatus: "ok",
+      });
+    }
+
+    for (const start of Array.from(this.closed.keys())) {
+      if (start < this.closedThrough - WINDOW_LATE_RETENTION_MS) {
+        this.closed.delete(start);
+      }
+    }
+    return closed;
+  }
+}
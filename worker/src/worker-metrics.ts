@@ -0,0 +1,74 @@
+import { MetricsRegistry } from "./metrics-registry.ts";
+
+export const metricsRegistry = new MetricsRegistry();
+
+const BATCH_SIZE_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500];
+
+/** Everything the worker exports on `/metrics`; see docs/project.md §9. */
+export const workerMetrics = {
+  tmiEvents: metricsRegistry.counter(
+    "streamerpulse_tmi_events_total",
+    "Twitch IRC events handled, by channel and event."
+  ),
+  ircConnected: metricsRegistry.gauge(
+    "streamerpulse_irc_connected",
+    "1 while the channel is joined on Twitch IRC, 0 otherwise."
+  ),
+  ingestLatency: metricsRegistry.histogram(
+    "streamerpulse_ingest_latency_seconds",
+    "Time from a chat message being sent to the worker ingesting it, by channel and platform."
+  ),
+  messagesDropped: metricsRegistry.counter(
+    "streamerpulse_messages_dropped_total",
+    "Chat messages the worker did not count or analyze, by channel and reason."
+  ),
+  convexMutationDuration: metricsRegistry.histogram(
+    "streamerpulse_convex_mutation_duration_seconds",
+    "Convex mutation latency, by channel, mutation and outcome."
+  ),
+  chatAppendBatchSize: metricsRegistry.histogram(
+    "streamerpulse_chat_append_batch_size",
+    "Messages per appendChatMessages call, by channel.",
+    BATCH_SIZE_BUCKETS
+  ),
+  liveFeedPosts: metricsRegistry.counter(
+    "streamerpulse_live_feed_posts_total",
+    "Live-feed POSTs to the dashboard, by channel and outcome."
+  ),
+  liveFeedPostDuration: metricsRegistry.histogram(
+    "streamerpulse_live_feed_post_duration_seconds",
+    "Live-feed POST latency, by channel."
+  ),
+  liveFeedQueueDepth: metricsRegistry.gauge(
+    "streamerpulse_live_feed_queue_depth",
+    "Updates waiting in the live-feed outbox, by channel."
+  ),
+  liveFeedDropped: metricsRegistry.counter(
+    "streamerpulse_live_feed_dropped_total",
+    "Live-feed updates dropped by the outbox, by reason."
+  ),
+  llmDuration: metricsRegistry.histogram(
+    "streamerpulse_llm_request_duration_seconds",
+    "Mood analysis LLM call latency, by channel and outcome."
+  ),
+  llmCooldownRemaining: metricsRegistry.gauge(
+    "streamerpulse_llm_cooldown_remaining_seconds",
+    "Seconds left in the mood analysis quota cooldown, by channel; 0 when not cooling down."
+  ),
+  pendingMoodMessages: metricsRegistry.gauge(
+    "streamerpulse_pending_mood_messages",
+    "Messages buffered for the next mood analysis call, by channel."
+  ),
+  channelState: metricsRegistry.gauge(
+    "streamerpulse_channel_state",
+    "1 for the supervisor state each channel is in, by channel and state."
+  ),
+  channelCrashes: metricsRegistry.gauge(
+    "streamerpulse_channel_recent_crashes",
+    "Channel unit failures inside the supervisor's crash window."
+  ),
+  processMemory: metricsRegistry.gauge(
+    "streamerpulse_process_memory_bytes",
+    "Worker process memory, by kind (rss, heap_used)."
+  ),
+};
@@ -0,0 +1,190 @@
+import {
+  isLiveChatEndedError,
+  parseActiveLiveChatId,
+  parseLiveChatPage,
+  parseLiveVideoId,
+} from "../../src/lib/youtube/live-chat.ts";
+import type { ChatSource, ChatSourceHandlers } from "./chat-source.ts";
+
+export type YouTubeChatSourceOptions = {
+  /** Twitch login whose session this chat is folded into; used for logs. */
+  channel: string;
+  apiKey: string;
+  /** Resolved to its current live broadcast with `search.list` (100 quota units). */
+  youtubeChannelId?: string | null;
+  /** A specific broadcast; cheaper to resolve than a channel (1 quota unit). */
+  videoId?: string | null;
+  minPollIntervalMs?: number;
+};
+
+const API_BASE = "https://www.googleapis.com/youtube/v3";
+const REQUEST_TIMEOUT_MS = 10_000;
+// liveChatMessages.list costs 5 units; YouTube suggests ~2-5s but the default
+// 10k daily quota only lasts a few hours at that rate.
+const DEFAULT_MIN_POLL_INTERVAL_MS = 10_000;
+const RESOLVE_RETRY_MS = 5 * 60 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Polls YouTube Live Chat for a simulcast. Finding no live broadcast is not an
+ * error: the source keeps looking every few minutes until disconnected.
+ */
+export class YouTubeChatSource implements ChatSource {
+  readonly platform = "youtube" as const;
+  readonly channel: string;
+  private readonly options: YouTubeChatSourceOptions;
+  private readonly minPollIntervalMs: number;
+  private handlers: ChatSourceHandlers | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private liveChatId: string | null = null;
+  private pageToken: string | null = null;
+  private attachedAt = 0;
+  private failures = 0;
+  private notLiveLogged = false;
+
+  constructor(options: YouTubeChatSourceOptions) {
+    this.options = options;
+    this.channel = options.channel;
+    this.minPollIntervalMs = options.minPollIntervalMs ?? DEFAULT_MIN_POLL_INTERVAL_MS;
+  }
+
+  async connect(handlers: ChatSourceHandlers) {
+    if (this.handlers) {
+      return;
+    }
+    this.handlers = handlers;
+    this.failures = 0;
+    this.notLiveLogged = false;
+    void this.tick();
+  }
+
+  async disconnect() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const handlers = this.handlers;
+    this.handlers = null;
+    if (this.liveChatId) {
+      this.liveChatId = null;
+      console.warn(`[youtube:${this.channel}] Stopped polling live chat`);
+      await handlers?.disconnected();
+    }
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.handlers) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delayMs);
+    this.timer.unref?.();
+  }
+
+  private async tick() {
+    const handlers = this.handlers;
+    if (!handlers) {
+      return;
+    }
+
+    try {
+      if (!this.liveChatId) {
+        const liveChatId = await this.resolveLiveChatId();
+        if (this.handlers !== handlers) {
+          return;
+        }
+        if (!liveChatId) {
+          if (!this.notLiveLogged) {
+            console.log(`[youtube:${this.channel}] No live broadcast found; checking again every few minutes`);
+            this.notLiveLogged = true;
+          }
+          this.schedule(RESOLVE_RETRY_MS);
+          return;
+        }
+        this.liveChatId = liveChatId;
+        this.pageToken = null;
+        this.attachedAt = Date.now();
+        this.notLiveLogged = false;
+        console.log(`[youtube:${this.channel}] Polling live chat ${liveChatId}`);
+        await handlers.connected();
+      }
+
+      const { status, body } = await this.request("liveChat/messages", {
+        liveChatId: this.liveChatId,
+        part: "snippet,authorDetails",
+        maxResults: "2000",
+        ...(this.pageToken ? { pageToken: this.pageToken } : {}),
+      });
+      if (this.handlers !== handlers) {
+        return;
+      }
+      if (status >= 400 && !isLiveChatEndedError(body)) {
+        throw new Error(`YouTube live chat responded with ${status}`);
+      }
+
+      const page = status >= 400 ? null : parseLiveChatPage(body);
+      if (page) {
+        // The first page replays recent history; only count what was said after we attached.
+        page.moderation.forEach((action) => void handlers.moderation(action));
+        page.messages
+          .filter((message) => message.timestamp >= this.attachedAt)
+          .forEach((message) => void handlers.message({ platform: "youtube", ...message }));
+        this.pageToken = page.nextPageToken;
+      }
+      this.failures = 0;
+
+      if (!page || page.ended) {
+        console.log(`[youtube:${this.channel}] Live chat ended`);
+        this.liveChatId = null;
+        await handlers.disconnected();
+        this.schedule(RESOLVE_RETRY_MS);
+        return;
+      }
+
+      this.schedule(Math.max(page.pollingIntervalMillis ?? 0, this.minPollIntervalMs));
+    } catch (error) {
+      this.failures += 1;
+      const delay = Math.min(this.minPollIntervalMs * 2 ** this.failures, MAX_BACKOFF_MS);
+      console.warn(`[youtube:${this.channel}] Live chat poll failed; retrying in ${delay}ms`, error);
+      this.schedule(delay);
+    }
+  }
+
+  private async resolveLiveChatId() {
+    let videoId = this.options.videoId ?? null;
+    if (!videoId && this.options.youtubeChannelId) {
+      const search = await this.request("search", {
+        part: "id",
+        channelId: this.options.youtubeChannelId,
+        eventType: "live",
+        type: "video",
+        maxResults: "1",
+      });
+      if (search.status >= 400) {
+        throw new Error(`YouTube search responded with ${search.status}`);
+      }
+      videoId = parseLiveVideoId(search.body);
+    }
+    if (!videoId) {
+      return null;
+    }
+
+    const videos = await this.request("videos", { part: "liveStreamingDetails", id: videoId });
+    if (videos.status >= 400) {
+      throw new Error(`YouTube videos responded with ${videos.status}`);
+    }
+    return parseActiveLiveChatId(videos.body);
+  }
+
+  private async request(resource: string, params: Record<string, string>) {
+    const url = new URL(`${API_BASE}/${resource}`);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    url.searchParams.set("key", this.options.apiKey);
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    const body: unknown = await response.json().catch(() => null);
+    return { status: response.status, body };
+  }
+}